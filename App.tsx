@@ -1,19 +1,70 @@
 
-import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { Play, Square, History, LayoutDashboard, Home, Settings, Trophy, Activity } from 'lucide-react';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import { Play, Square, History, LayoutDashboard, Home, Settings, Trophy, Activity, ShieldCheck, BarChart3, Flame, Users, Crop, Check, Images } from 'lucide-react';
 import CameraFeed, { CameraHandle } from './components/CameraFeed';
 import StatusIndicator from './components/StatusIndicator';
 import StatsView from './components/StatsView';
-import VoiceRecorder from './components/VoiceRecorder';
-import { analyzeFrame } from './services/monitorService';
-import { checkBadges } from './services/gamification';
-import { FocusStatus, LogEntry, AnalysisResult, UserStats, Badge } from './types';
+import ReportsView from './components/ReportsView';
+import MessageLibraryPanel from './components/MessageLibraryPanel';
+import AnalysisModeSelector from './components/AnalysisModeSelector';
+import SmoothingSettings from './components/SmoothingSettings';
+import StudyPlanSettings from './components/StudyPlanSettings';
+import ScoringSettings from './components/ScoringSettings';
+import ReminderSettings from './components/ReminderSettings';
+import CaptureSettings from './components/CaptureSettings';
+import CameraSettings from './components/CameraSettings';
+import StudyTimer from './components/StudyTimer';
+import TaskPicker from './components/TaskPicker';
+import TaskManager from './components/TaskManager';
+import RelaySettingsPanel from './components/RelaySettingsPanel';
+import DataTransferPanel from './components/DataTransferPanel';
+import LeaderboardSettingsPanel from './components/LeaderboardSettingsPanel';
+import BadgePackPanel from './components/BadgePackPanel';
+import ParentControlPanel from './components/ParentControlPanel';
+import PinDialog from './components/PinDialog';
+import EvidenceSettings from './components/EvidenceSettings';
+import EvidenceGallery from './components/EvidenceGallery';
+import LogFeedbackDialog from './components/LogFeedbackDialog';
+import FeedbackPanel from './components/FeedbackPanel';
+import PromptSettings from './components/PromptSettings';
+import LanguageSettings from './components/LanguageSettings';
+import { createAnalysisProvider, ProviderContext, ANALYSIS_PROVIDER_OPTIONS } from './services/analysisProviders';
+import { createEmptyStats, updateDailyStats } from './services/gamification';
+import { applyProgression, completeSession, currentDayStreak, getLevelInfo } from './services/progression';
+import { checkBadges, describeUnlock, localizeBadges, mergeBadges, loadCustomBadges, saveCustomBadges, DEFAULT_BADGES, BadgeUnlock } from './services/badges';
+import { loadTasks, saveTasks, loadActiveTaskId, saveActiveTaskId, getTaskName, taskName } from './services/tasks';
+import { createRelayPublisher, toRelayLog, RelayConnection, RelayConnectionState } from './services/relayClient';
+import { loadSettings, saveSettings } from './services/settings';
+import { createLeaderboardClient, submitTodayScore } from './services/leaderboard';
+import { createMessagePicker, fillTemplate, loadMessageLibrary, saveMessageLibrary, translateDefaultClips, MessageVars } from './services/messageLibrary';
+import { isPinSet, loadAuditLog, recordParentAction, PARENT_ACTION_LABELS } from './services/parentLock';
+import { scoringContextFor } from './services/scoring';
+import { creditedMs } from './services/reports';
+import { createFocusSmoother } from './services/focusSmoother';
+import { createReminderPolicy, ReminderAction } from './services/reminderPolicy';
+import { createCaptureScheduler } from './services/captureScheduler';
+import { playChime, unlockChime } from './services/chime';
+import { AnalysisError, classifyError, describeOutage } from './services/analysisErrors';
+import { MAX_RETRY_DELAY_MS } from './services/circuitBreaker';
+import { shouldKeepSnapshot, THUMBNAIL_RESOLUTION } from './services/evidence';
+import { postureLabel, reasonLabel, ReadingDetails } from './services/analysisDetails';
+import { addFeedback, applyCorrection, buildFeedbackHints, dropDeletedImages, loadFeedback, saveFeedback, REVIEWABLE_STATUSES, STATUS_LABELS } from './services/feedback';
+import { activePrompt, loadPromptHistory, savePromptHistory } from './services/promptConfig';
+import { getPhaseAt, describeTransition, PhaseState } from './services/studyPlan';
+import * as sessionStore from './services/sessionStore';
+import { ImportSummary } from './services/dataTransfer';
+import { FocusStatus, LogEntry, AnalysisResult, UserStats, BadgeDefinition, AppSettings, AnalysisProviderId, AnalysisProvider, StudyTask, ChildProfile, ParentAction, ParentAuditEntry, MessageCategory, MessageClip, MessageLibrary, EvidenceSnapshot, Language } from './types';
+import { getLanguage, languageOption, pickVoice, setLanguage, t } from './services/i18n';
 
-const CHECK_INTERVAL_MS = 5000;
+type ViewMode = 'monitor' | 'stats' | 'reports' | 'settings';
 
-type ViewMode = 'monitor' | 'stats' | 'settings';
+interface AppProps {
+  // Everything App loads is scoped to this profile; switching remounts App
+  profile: ChildProfile;
+  onSwitchProfile: () => void;
+}
 
-function App() {
+function App({ profile, onSwitchProfile }: AppProps) {
   const cameraRef = useRef<CameraHandle>(null);
   
   // App State
@@ -21,26 +72,102 @@ function App() {
   const [isMonitoring, setIsMonitoring] = useState(false);
   const [status, setStatus] = useState<FocusStatus>(FocusStatus.IDLE);
   const [lastMessage, setLastMessage] = useState<string>("");
+  // Set while analysis keeps failing; the last good status stays on screen meanwhile
+  const [degraded, setDegraded] = useState<string | null>(null);
   const [logs, setLogs] = useState<LogEntry[]>([]);
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const [editingRoi, setEditingRoi] = useState(false);
+
+  // Device-wide; only changed while idle so a session never switches language midway
+  const [language, setLanguageState] = useState<Language>(getLanguage);
 
   // Gamification State
-  const [stats, setStats] = useState<UserStats>({
-    totalFocusTimeSeconds: 0,
-    currentStreakSeconds: 0,
-    longestStreakSeconds: 0,
-    distractionCount: 0,
-    badges: []
-  });
-  const [newBadge, setNewBadge] = useState<Badge | null>(null);
+  const [stats, setStats] = useState<UserStats>(createEmptyStats);
+  const [customBadges, setCustomBadges] = useState<BadgeDefinition[]>(loadCustomBadges);
+  const badges = useMemo(() => localizeBadges(mergeBadges(DEFAULT_BADGES, customBadges), language), [customBadges, language]);
+  const badgesRef = useRef(badges);
+  badgesRef.current = badges;
+  // Unlocks waiting to be shown; several can arrive on the same check
+  const [badgeQueue, setBadgeQueue] = useState<BadgeUnlock[]>([]);
+  const currentUnlock = badgeQueue[0] ?? null;
 
   // Settings State
-  const [audioEnabled, setAudioEnabled] = useState(true);
-  const [customAudio, setCustomAudio] = useState<string | null>(null);
-  const [useCustomAudio, setUseCustomAudio] = useState(false);
+  const [messageLibrary, setMessageLibrary] = useState<MessageLibrary>(loadMessageLibrary);
+  const messagePickerRef = useRef(createMessagePicker());
+  const [settings, setSettings] = useState<AppSettings>(loadSettings);
+  const audioEnabled = settings.audioEnabled;
+
+  // Parent lock: settings and stopping early need the PIN once one is set
+  const [pinEnabled, setPinEnabled] = useState(isPinSet);
+  const [settingsUnlocked, setSettingsUnlocked] = useState(false);
+  const [pinRequest, setPinRequest] = useState<{ title: string; onGranted: () => void; onDenied?: () => void } | null>(null);
+  const [auditLog, setAuditLog] = useState<ParentAuditEntry[]>(loadAuditLog);
+  const [snapshotCount, setSnapshotCount] = useState(0);
+  // Event id to open the evidence gallery on; null opens the full list
+  const [gallery, setGallery] = useState<{ openId: string | null } | null>(null);
+  const [feedbackRecords, setFeedbackRecords] = useState(loadFeedback);
+  const [reviewing, setReviewing] = useState<{ entry: LogEntry; image: string | null } | null>(null);
+  // Read by the cloud provider on every call
+  const feedbackHintsRef = useRef(buildFeedbackHints(feedbackRecords));
+  const [promptHistory, setPromptHistory] = useState(loadPromptHistory);
+  const promptConfigRef = useRef(activePrompt(promptHistory));
   
+  const providerContext: ProviderContext = {
+    getFrame: (maxResolution) => cameraRef.current?.captureCanvas(maxResolution) ?? null,
+    getFeedbackHints: () => feedbackHintsRef.current,
+    getPromptConfig: () => promptConfigRef.current
+  };
+  // Created lazily: the local provider allocates a canvas and must not be rebuilt on every render
+  const providerRef = useRef<AnalysisProvider | null>(null);
+  if (!providerRef.current) {
+    providerRef.current = createAnalysisProvider(settings.analysisProvider, providerContext);
+  }
+  // Session persistence
+  const sessionIdRef = useRef<string | null>(null);
+  const sessionStartStatsRef = useRef<UserStats>(stats);
+  const statsRef = useRef<UserStats>(stats);
+  const statsLoadedRef = useRef(false);
+
+  // Homework subjects; the active one is fixed for the duration of a session
+  const [tasks, setTasks] = useState<StudyTask[]>(loadTasks);
+  const [activeTaskId, setActiveTaskId] = useState<string | null>(loadActiveTaskId);
+  const activeTaskIdRef = useRef<string | null>(activeTaskId);
+
+  // Study plan (pomodoro) state, derived from the session start time
+  const [phase, setPhase] = useState<PhaseState | null>(null);
+  const phaseRef = useRef<PhaseState | null>(null);
+  const sessionStartedAtRef = useRef<number>(0);
+
+  // Parent dashboard relay (LAN only)
+  const relayRef = useRef<RelayConnection | null>(null);
+  const [relayState, setRelayState] = useState<RelayConnectionState>('closed');
+  const relayStatusRef = useRef({ status, lastMessage, isMonitoring });
+  relayStatusRef.current = { status, lastMessage, isMonitoring };
+
+  const scoring = useMemo(() => scoringContextFor(settings), [settings.scoring, settings.studyPlan]);
+
+  // Weekly leaderboard; today's score is submitted whenever a session ends
+  const leaderboardClient = useMemo(() => createLeaderboardClient(settings.leaderboard, profile, scoring), [settings.leaderboard, profile, scoring]);
+  const leaderboardRef = useRef({ client: leaderboardClient, settings: settings.leaderboard, scoring });
+  leaderboardRef.current = { client: leaderboardClient, settings: settings.leaderboard, scoring };
+
+  // Debounces raw model readings before they drive status, stats and alerts
+  const smootherRef = useRef(createFocusSmoother(settings.smoothing));
+  // Decides when the debounced status is worth a chime, a reminder, praise or a parent alert
+  const reminderPolicyRef = useRef(createReminderPolicy(settings.reminders));
+  // Spaces checks and skips uploads of unchanged frames
+  const captureSchedulerRef = useRef(createCaptureScheduler(settings.capture));
+  const captureConfigRef = useRef(settings.capture);
+  captureConfigRef.current = settings.capture;
+  const evidenceConfigRef = useRef(settings.evidence);
+  evidenceConfigRef.current = settings.evidence;
+  // The gap that preceded the current check, which bounds how much time it may credit
+  const lastIntervalRef = useRef(settings.capture.minIntervalSeconds * 1000);
+  const lastReadingRef = useRef<{ status: FocusStatus; message: string; details: ReadingDetails } | null>(null);
+
   const timerRef = useRef<number | null>(null);
-  const lastCheckTimeRef = useRef<number>(Date.now());
+  // Null until the first check of a session (or of a work phase), which only starts the clock
+  const lastCheckTimeRef = useRef<number | null>(null);
   const voicesRef = useRef<SpeechSynthesisVoice[]>([]);
 
   // Initialize voices
@@ -51,40 +178,130 @@ function App() {
     // Voices are loaded asynchronously in some browsers
     window.speechSynthesis.onvoiceschanged = loadVoices;
     loadVoices();
-    
-    const savedAudio = localStorage.getItem('custom_audio_blob');
-    if (savedAudio) {
-      setCustomAudio(savedAudio);
-      setUseCustomAudio(true);
-    }
+
+    // Restore cumulative stats from previous evenings
+    sessionStore.loadStats()
+      .then(saved => {
+        if (saved) setStats(saved);
+        return sessionStore.closeDanglingSessions(saved);
+      })
+      .catch(e => console.error("Failed to restore history", e))
+      .finally(() => { statsLoadedRef.current = true; });
   }, []);
 
-  // Save custom audio when changed
-  const handleSaveAudio = (audioData: string) => {
-    setCustomAudio(audioData);
-    if (audioData) {
-      localStorage.setItem('custom_audio_blob', audioData);
-      setUseCustomAudio(true);
-    } else {
-      localStorage.removeItem('custom_audio_blob');
-      setUseCustomAudio(false);
+  useEffect(() => {
+    smootherRef.current.configure(settings.smoothing);
+  }, [settings.smoothing]);
+
+  useEffect(() => {
+    reminderPolicyRef.current.configure(settings.reminders);
+  }, [settings.reminders]);
+
+  useEffect(() => {
+    captureSchedulerRef.current.configure(settings.capture);
+  }, [settings.capture]);
+
+  // Apply retention on load and whenever the limits change, even with snapshots turned off
+  const { retentionDays, maxSnapshots } = settings.evidence;
+  useEffect(() => {
+    sessionStore.purgeSnapshots(evidenceConfigRef.current)
+      .then(refreshSnapshotCount)
+      .catch(e => console.error("Failed to purge snapshots", e));
+  }, [retentionDays, maxSnapshots]);
+
+  // (Re)connect to the relay whenever its settings change
+  const { enabled: relayEnabled, url: relayUrl, room: relayRoom } = settings.relay;
+  useEffect(() => {
+    if (!relayEnabled || !relayUrl || !relayRoom) {
+      setRelayState('closed');
+      return;
+    }
+
+    const connection = createRelayPublisher({ enabled: true, url: relayUrl, room: relayRoom }, setRelayState, () => {
+      // Bring the relay's cached state up to date after every (re)connect
+      const current = relayStatusRef.current;
+      connection.send({ type: 'status', status: current.status, message: current.lastMessage, monitoring: current.isMonitoring, at: new Date().toISOString() });
+      connection.send({ type: 'stats', stats: statsRef.current });
+    });
+    relayRef.current = connection;
+
+    return () => {
+      connection.close();
+      relayRef.current = null;
+    };
+  }, [relayEnabled, relayUrl, relayRoom]);
+
+  useEffect(() => {
+    relayRef.current?.send({ type: 'status', status, message: lastMessage, monitoring: isMonitoring, at: new Date().toISOString() });
+  }, [status, lastMessage, isMonitoring]);
+
+  useEffect(() => {
+    relayRef.current?.send({ type: 'stats', stats });
+  }, [stats]);
+
+  // Persist stats on every change (after the initial restore, so we never overwrite history with zeros)
+  useEffect(() => {
+    statsRef.current = stats;
+    if (!statsLoadedRef.current) return;
+    sessionStore.saveStats(stats).catch(e => console.error("Failed to save stats", e));
+  }, [stats]);
+
+  const handleMessageLibraryChange = (next: MessageLibrary) => {
+    try {
+      saveMessageLibrary(next);
+      setMessageLibrary(next);
+    } catch (e) {
+      alert((e as Error).message);
     }
   };
 
-  // Modified speak function to accept an optional status override
-  const speak = useCallback((text: string, overrideStatus?: FocusStatus) => {
-    if (!audioEnabled) return;
+  const updateSettings = (patch: Partial<AppSettings>) => {
+    setSettings(prev => {
+      const next = { ...prev, ...patch };
+      saveSettings(next);
+      return next;
+    });
+  };
+
+  const handleProviderChange = (id: AnalysisProviderId) => {
+    providerRef.current = createAnalysisProvider(id, providerContext);
+    updateSettings({ analysisProvider: id });
+  };
+
+  const handleLanguageChange = (next: Language) => {
+    if (next === language) return;
+    setLanguage(next);
+    setLanguageState(next);
+    handleMessageLibraryChange(translateDefaultClips(messageLibrary, language, next));
+    // Providers build their canned sentences when created
+    providerRef.current = createAnalysisProvider(settings.analysisProvider, providerContext);
+  };
+
+  const handleTasksChange = (next: StudyTask[]) => {
+    setTasks(next);
+    saveTasks(next);
+    if (activeTaskId && !next.some(t => t.id === activeTaskId)) {
+      handleSelectTask(null);
+    }
+  };
 
-    const currentStatus = overrideStatus || status;
+  const handleSelectTask = (id: string | null) => {
+    setActiveTaskId(id);
+    activeTaskIdRef.current = id;
+    saveActiveTaskId(id);
+  };
 
-    // Custom Audio Logic: Only play for negative states
-    if (useCustomAudio && customAudio && (currentStatus === FocusStatus.DISTRACTED || currentStatus === FocusStatus.ABSENT)) {
-       const audio = new Audio(customAudio);
-       audio.play().catch(e => console.error("Audio play failed", e));
-       return;
+  const handleImported = (summary: ImportSummary) => {
+    setStats(summary.stats);
+    if (summary.tasks.length > 0) handleTasksChange([...tasks, ...summary.tasks]);
+    if (summary.settings.analysisProvider !== settings.analysisProvider) {
+      providerRef.current = createAnalysisProvider(summary.settings.analysisProvider, providerContext);
     }
+    updateSettings(summary.settings);
+  };
 
-    // TTS Logic
+  // Text-to-speech for a single sentence; the message library decides what to say
+  const speakText = (text: string) => {
     if (!window.speechSynthesis) return;
     
     // Cancel any ongoing speech
@@ -93,15 +310,11 @@ function App() {
     }
 
     const utterance = new SpeechSynthesisUtterance(text);
-    utterance.lang = 'zh-CN'; 
+    utterance.lang = languageOption(language).speechLang;
     
-    // Improved Voice Selection Logic
     // Try to find a better sounding voice than the default robot
-    // Prioritize Google/Microsoft voices if available (common on Chrome Android/Windows)
     const voices = voicesRef.current.length > 0 ? voicesRef.current : window.speechSynthesis.getVoices();
-    const preferredVoice = voices.find(v => 
-        v.lang.includes('zh') && (v.name.includes('Google') || v.name.includes('Microsoft') || v.name.includes('Siri') || v.name.includes('Tingting'))
-    ) || voices.find(v => v.lang.includes('zh'));
+    const preferredVoice = pickVoice(voices, language);
 
     if (preferredVoice) {
         utterance.voice = preferredVoice;
@@ -112,121 +325,543 @@ function App() {
     utterance.pitch = 1.05; // Slightly higher/brighter
     
     window.speechSynthesis.speak(utterance);
-  }, [audioEnabled, useCustomAudio, customAudio, status]);
+  };
 
-  const updateStats = (newStatus: FocusStatus) => {
-    setStats(prev => {
-      const now = Date.now();
-      const elapsedSeconds = (now - lastCheckTimeRef.current) / 1000;
-      lastCheckTimeRef.current = now;
+  const playClip = (clip: { kind: 'text'; text: string } | { kind: 'audio'; src: string }) => {
+    if (clip.kind === 'audio') {
+      if (window.speechSynthesis?.speaking) window.speechSynthesis.cancel();
+      new Audio(clip.src).play().catch(e => console.error("Audio play failed", e));
+    } else {
+      speakText(clip.text);
+    }
+  };
 
-      const validElapsed = elapsedSeconds > 20 ? 0 : Math.min(elapsedSeconds, 10);
+  const speak = (text: string) => {
+    if (audioEnabled) speakText(text);
+  };
 
+  // Picks a clip for the occasion from the library; modelMessage is the provider's own sentence.
+  // A requested kind falls back to any clip when the category has none of that kind.
+  const announce = (category: MessageCategory, vars: MessageVars = {}, modelMessage?: string, kind?: MessageClip['kind']) => {
+    if (!audioEnabled) return;
+    const filled = {
+      name: profile.name,
+      task: activeTaskIdRef.current ? getTaskName(tasks, activeTaskIdRef.current) : undefined,
+      ...vars,
+    };
+    const picker = messagePickerRef.current;
+    const clip = (kind && picker.pick(messageLibrary, category, filled, modelMessage, kind)) || picker.pick(messageLibrary, category, filled, modelMessage);
+    if (clip) playClip(clip);
+  };
+
+  const handleReminder = (action: ReminderAction, modelMessage: string) => {
+    if (action.kind === 'praise') {
+      announce('encouragement', {}, modelMessage);
+      return;
+    }
+    if (action.kind === 'posture') {
+      // The model's sentence is about focus, not posture
+      announce(action.issue);
+      return;
+    }
+    const category = action.status === FocusStatus.ABSENT ? 'absent' : 'distracted';
+    switch (action.level) {
+      case 'chime':
+        if (audioEnabled) playChime();
+        break;
+      case 'spoken':
+        announce(category, {}, modelMessage, 'text');
+        break;
+      case 'parentClip':
+        announce(category, {}, modelMessage, 'audio');
+        break;
+      case 'notifyParent': {
+        const minutes = Math.max(1, Math.round(action.offTaskSeconds / 60));
+        const message = t(action.status === FocusStatus.ABSENT ? 'alert.absent' : 'alert.distracted', { name: profile.name, minutes });
+        relayRef.current?.send({ type: 'alert', message, at: new Date().toISOString() });
+        break;
+      }
+    }
+  };
+
+  // Previews ignore the audio toggle and the enabled flag so parents can check any clip
+  const previewClip = (clip: MessageClip) => {
+    if (clip.kind === 'audio') {
+      if (clip.audio) playClip({ kind: 'audio', src: clip.audio });
+      return;
+    }
+    const badge = badges[0] ? badges[0].name : t('messages.sampleBadge');
+    const task = tasks[0] ? taskName(tasks[0]) : t('messages.sampleTask');
+    playClip({ kind: 'text', text: fillTemplate(clip.text, { name: profile.name, badge, task }) });
+  };
+
+  // Timers outlive renders, so they call the latest speak and announce through refs
+  const speakRef = useRef(speak);
+  speakRef.current = speak;
+  const announceRef = useRef(announce);
+  announceRef.current = announce;
+  const handleReminderRef = useRef(handleReminder);
+  handleReminderRef.current = handleReminder;
+
+  const updateStats = (newStatus: FocusStatus) => {
+    // Same rule as the reports' timeline, so both count the same focus time
+    const now = Date.now();
+    const last = lastCheckTimeRef.current;
+    const validElapsed = last === null ? 0 : creditedMs(now - last, lastIntervalRef.current) / 1000;
+    lastCheckTimeRef.current = now;
+
+    setStats(prev => {
       let newStats = { ...prev };
 
+      const taskId = activeTaskIdRef.current;
+      const taskStats = taskId ? { ...(prev.taskStats[taskId] ?? { focusSeconds: 0, distractionCount: 0 }) } : null;
+
       if (newStatus === FocusStatus.FOCUSED) {
         newStats.totalFocusTimeSeconds += Math.floor(validElapsed);
         newStats.currentStreakSeconds += Math.floor(validElapsed);
         if (newStats.currentStreakSeconds > newStats.longestStreakSeconds) {
           newStats.longestStreakSeconds = newStats.currentStreakSeconds;
         }
+        if (taskStats) taskStats.focusSeconds += Math.floor(validElapsed);
       } else if (newStatus === FocusStatus.DISTRACTED || newStatus === FocusStatus.ABSENT) {
         newStats.currentStreakSeconds = 0;
         newStats.distractionCount += 1;
+        if (taskStats) taskStats.distractionCount += 1;
       }
 
-      const earnedBadge = checkBadges(newStats, newStats.badges);
-      if (earnedBadge) {
-        newStats.badges = [...newStats.badges, earnedBadge.id];
-        setNewBadge(earnedBadge);
-        setTimeout(() => setNewBadge(null), 4000);
-        
-        if (audioEnabled) {
-          // Use a simple direct call for badges to ensure it plays
-          const u = new SpeechSynthesisUtterance(`恭喜！获得了徽章：${earnedBadge.name}`);
-          u.lang = 'zh-CN';
-          window.speechSynthesis.speak(u);
-        }
+      if (taskId && taskStats) {
+        newStats.taskStats = { ...prev.taskStats, [taskId]: taskStats };
+      }
+
+      if (newStatus === FocusStatus.FOCUSED) {
+        newStats.dailyStats = updateDailyStats(prev.dailyStats, new Date(now), day => ({
+          ...day,
+          focusSeconds: day.focusSeconds + Math.floor(validElapsed),
+          longestStreakSeconds: Math.max(day.longestStreakSeconds, newStats.currentStreakSeconds),
+        }));
+      } else if (newStatus === FocusStatus.DISTRACTED || newStatus === FocusStatus.ABSENT) {
+        newStats.dailyStats = updateDailyStats(prev.dailyStats, new Date(now), day => ({
+          ...day,
+          distractionCount: day.distractionCount + 1,
+        }));
       }
 
-      return newStats;
+      return applyProgression(prev, newStats, new Date(now));
     });
   };
 
-  const performCheck = useCallback(async () => {
-    if (!cameraRef.current) return;
+  // Updaters must stay pure (React may run them twice), so unlocks are queued from handlers and
+  // effects only, and a key already waiting is not queued again
+  const queueUnlocks = (unlocks: BadgeUnlock[]) =>
+    setBadgeQueue(queue => [...queue, ...unlocks.filter(u => !queue.some(q => q.key === u.key))]);
+
+  const withUnlocks = (next: UserStats, unlocks: BadgeUnlock[]): UserStats => ({
+    ...next,
+    badges: [...next.badges, ...unlocks.map(u => u.key).filter(key => !next.badges.includes(key))],
+  });
+
+  const awardBadges = (next: UserStats, now: Date): UserStats => {
+    const unlocks = checkBadges(badgesRef.current, next, now);
+    if (unlocks.length === 0) return next;
+    queueUnlocks(unlocks);
+    return withUnlocks(next, unlocks);
+  };
+
+  // Readings change the stats; badges they unlock are awarded once the new stats are committed
+  useEffect(() => {
+    if (!isMonitoring) return;
+    const unlocks = checkBadges(badgesRef.current, stats, new Date());
+    if (unlocks.length === 0) return;
+    queueUnlocks(unlocks);
+    setStats(prev => withUnlocks(prev, unlocks));
+  }, [stats, isMonitoring]);
+
+  // Shows queued unlocks one at a time
+  useEffect(() => {
+    if (!currentUnlock) return;
 
-    lastCheckTimeRef.current = Date.now();
+    announceRef.current('badge', { badge: describeUnlock(currentUnlock) });
+
+    const id = window.setTimeout(() => setBadgeQueue(queue => queue.slice(1)), 4000);
+    return () => clearTimeout(id);
+  }, [currentUnlock]);
+
+  const handleCustomBadgesChange = (next: BadgeDefinition[]) => {
+    setCustomBadges(next);
+    saveCustomBadges(next);
+  };
+
+  // Records a debounced reading and returns the delay before the next check
+  const recordReading = (status: FocusStatus, message: string, changed: boolean, details: ReadingDetails = {}, snapshot?: string | null): number => {
+    updateStats(status);
+    const delay = captureSchedulerRef.current.next(status, changed);
+    lastIntervalRef.current = delay;
+    lastReadingRef.current = { status, message, details };
+
+    const entry: LogEntry = {
+        id: Date.now().toString(),
+        timestamp: new Date(),
+        status,
+        message,
+        sessionId: sessionIdRef.current ?? undefined,
+        taskId: activeTaskIdRef.current ?? undefined,
+        intervalMs: delay,
+        hasSnapshot: snapshot ? true : undefined,
+        ...details
+    };
+    setLogs(prev => [entry, ...prev].slice(0, 50));
+    relayRef.current?.send({ type: 'log', entry: toRelayLog(entry) });
+    if (sessionIdRef.current) {
+      sessionStore.appendLog(sessionIdRef.current, entry).catch(e => console.error("Failed to save log", e));
+    }
+    if (snapshot) {
+      sessionStore.saveSnapshot({ id: entry.id, timestamp: entry.timestamp, status, message, image: snapshot, sessionId: entry.sessionId })
+        .then(() => sessionStore.purgeSnapshots(evidenceConfigRef.current))
+        .then(refreshSnapshotCount)
+        .catch(e => console.error("Failed to save snapshot", e));
+    }
+
+    reminderPolicyRef.current.decide(status, Date.now(), details.posture)
+      .forEach(action => handleReminderRef.current(action, message));
+    return delay;
+  };
+
+  // Returns the delay in ms before the next check
+  const performCheck = useCallback(async (): Promise<number> => {
+    const retryDelay = () => {
+      lastIntervalRef.current = captureSchedulerRef.current.next(FocusStatus.IDLE, true);
+      return lastIntervalRef.current;
+    };
+    if (!cameraRef.current) return retryDelay();
+
+    // No analysis (and no distraction counting) while the study plan is on a break
+    if (phaseRef.current && phaseRef.current.phase !== 'work') return retryDelay();
+
+    // Nothing moved since the last uploaded frame: the previous reading still stands
+    const uploads = ANALYSIS_PROVIDER_OPTIONS.find(o => o.id === providerRef.current!.id)?.uploadsFrames;
+    const signature = uploads ? cameraRef.current.captureSignature() : null;
+    const last = lastReadingRef.current;
+    if (signature && last && captureSchedulerRef.current.shouldSkip(signature, Date.now())) {
+      return recordReading(last.status, last.message, false, last.details);
+    }
 
     // captureFrame now returns null if camera isn't ready, preventing invalid API calls
-    const frameBase64 = cameraRef.current.captureFrame();
+    const frameBase64 = cameraRef.current.captureFrame(captureConfigRef.current.maxResolution);
     
     if (!frameBase64) {
         // Skip this cycle if camera isn't ready
         console.warn("Camera frame not ready");
-        return;
+        return retryDelay();
     }
 
     try {
-      const result: AnalysisResult = await analyzeFrame(frameBase64);
-      
-      setStatus(result.status);
-      setLastMessage(result.message);
-      updateStats(result.status);
-      
-      if (result.status !== FocusStatus.ERROR) {
-        setLogs(prev => [{
-            id: Date.now().toString(),
-            timestamp: new Date(),
-            status: result.status,
-            message: result.message
-        }, ...prev].slice(0, 50));
-      }
+      const result: AnalysisResult = await providerRef.current!.analyze(frameBase64);
 
-      // Explicitly pass the NEW status to speak, because setStatus is async and 'status' variable is stale here
-      if (result.status === FocusStatus.DISTRACTED || result.status === FocusStatus.ABSENT) {
-        speak(result.message, result.status);
-      } else if (result.status === FocusStatus.FOCUSED) {
-        if (Math.random() > 0.85) {
-           speak(result.message, result.status);
-        }
-      }
+      // Replayed recordings can still contain ERROR readings
+      if (result.status === FocusStatus.ERROR) throw new AnalysisError("unknown", result.message);
 
+      // A single glance away should not flip the state; wait for consistent evidence
+      const reading = smootherRef.current.push(result);
+      
+      setDegraded(null);
+      setStatus(reading.status);
+      setLastMessage(reading.message);
+      const snapshot = shouldKeepSnapshot(evidenceConfigRef.current, reading.status, reading.changed)
+        ? cameraRef.current?.captureFrame(THUMBNAIL_RESOLUTION)
+        : null;
+      // Posture and materials describe this frame; a reason only fits the status it was given for
+      const details: ReadingDetails = {
+        posture: result.posture,
+        materialsVisible: result.materialsVisible,
+        reason: result.status === reading.status ? result.reason : undefined,
+      };
+      return recordReading(reading.status, reading.message, reading.changed, details, snapshot);
     } catch (err) {
       console.error("Check failed", err);
-      // Optional: handle visual error state if needed
+      const error = classifyError(err);
+      if (error.kind === "invalidFrame") return retryDelay();
+
+      // Keep the last good status rather than flashing an error at the child. Stats still move
+      // their baseline so the outage is neither credited as focus nor counted as distraction.
+      updateStats(FocusStatus.ERROR);
+      setDegraded(describeOutage(error));
+      const minDelay = captureConfigRef.current.minIntervalSeconds * 1000;
+      lastIntervalRef.current = Math.min(MAX_RETRY_DELAY_MS, Math.max(minDelay, error.retryAfterMs ?? minDelay));
+      return lastIntervalRef.current;
     }
-  }, [speak]); // speak is now stable dependency
+  }, []);
 
   useEffect(() => {
-    if (isMonitoring) {
-      lastCheckTimeRef.current = Date.now();
-      performCheck(); 
-      timerRef.current = window.setInterval(performCheck, CHECK_INTERVAL_MS);
-    } else {
-      if (timerRef.current) {
-        clearInterval(timerRef.current);
-        timerRef.current = null;
-      }
+    if (!isMonitoring) {
       setStatus(FocusStatus.IDLE);
       setLastMessage("");
+      setDegraded(null);
+      return;
     }
+
+    lastCheckTimeRef.current = null;
+    providerRef.current?.reset?.();
+    smootherRef.current.reset();
+    reminderPolicyRef.current.reset();
+    captureSchedulerRef.current.reset();
+    lastIntervalRef.current = captureConfigRef.current.minIntervalSeconds * 1000;
+    lastReadingRef.current = null;
+
+    // Each check schedules the next, so the interval can adapt
+    let cancelled = false;
+    const loop = async () => {
+      const delay = await performCheck();
+      if (!cancelled) timerRef.current = window.setTimeout(loop, delay);
+    };
+    loop();
+
     return () => {
-      if (timerRef.current) clearInterval(timerRef.current);
+      cancelled = true;
+      if (timerRef.current) {
+        clearTimeout(timerRef.current);
+        timerRef.current = null;
+      }
     };
   }, [isMonitoring, performCheck]);
 
+  const stopMonitoring = () => {
+    setIsMonitoring(false);
+
+    if (sessionIdRef.current) {
+      const sessionFocusSeconds = statsRef.current.totalFocusTimeSeconds - sessionStartStatsRef.current.totalFocusTimeSeconds;
+      const finalStats = awardBadges(completeSession(statsRef.current, sessionFocusSeconds), new Date());
+      setStats(finalStats);
+      const badgesEarned = finalStats.badges.filter(id => !sessionStartStatsRef.current.badges.includes(id));
+      const { client, settings: leaderboard, scoring: scoringContext } = leaderboardRef.current;
+      sessionStore.endSession(sessionIdRef.current, finalStats, badgesEarned)
+        .catch(e => console.error("Failed to end session", e))
+        .then(() => submitTodayScore(client, leaderboard, profile, scoringContext))
+        .catch(e => console.error("Failed to submit leaderboard score", e));
+      sessionIdRef.current = null;
+      announceRef.current('sessionEnd');
+    }
+  };
+
+  // Runs the action straight away without a PIN, otherwise after the parent enters it
+  const requireParent = (title: string, onGranted: () => void, onDenied?: () => void) => {
+    if (!isPinSet()) {
+      onGranted();
+      return;
+    }
+    setPinRequest({ title, onGranted, onDenied });
+  };
+
+  // Persisted in the audit log and shown in the live log (and on the parent dashboard),
+  // but never written to session logs so it cannot skew reports
+  const logParentAction = (action: ParentAction) => {
+    const audit = recordParentAction(action);
+    setAuditLog(prev => [audit, ...prev]);
+    const entry: LogEntry = {
+      id: audit.id,
+      timestamp: new Date(audit.timestamp),
+      status: FocusStatus.IDLE,
+      message: `🔒 ${PARENT_ACTION_LABELS[action]}`,
+    };
+    setLogs(prev => [entry, ...prev].slice(0, 50));
+    relayRef.current?.send({ type: 'log', entry: toRelayLog(entry) });
+  };
+
+  const navigate = (next: ViewMode) => {
+    if (next === view) return;
+    if (next !== 'settings') {
+      // Settings lock again as soon as the parent leaves them
+      setSettingsUnlocked(false);
+      setView(next);
+      return;
+    }
+    if (!pinEnabled || settingsUnlocked) {
+      setView('settings');
+      return;
+    }
+    requireParent(t('pinTitle.openSettings'), () => {
+      logParentAction('settings_unlocked');
+      setSettingsUnlocked(true);
+      setView('settings');
+    });
+  };
+
+  const handlePinChange = (enabled: boolean) => {
+    setPinEnabled(enabled);
+    // Already inside settings, so they stay unlocked for this visit
+    setSettingsUnlocked(enabled);
+    logParentAction(enabled ? 'pin_set' : 'pin_removed');
+  };
+
+  // Runs after every snapshot deletion or purge. Correction images copied from deleted
+  // snapshots are dropped as well, so they are no longer kept or uploaded.
+  const refreshSnapshotCount = () =>
+    sessionStore.listSnapshots()
+      .then(list => {
+        setSnapshotCount(list.length);
+        const saved = loadFeedback();
+        const next = dropDeletedImages(saved, new Set(list.map(s => s.id)));
+        if (next !== saved) updateFeedback(next);
+      })
+      .catch(e => console.error("Failed to count snapshots", e));
+
+  const openGallery = (openId: string | null) => requireParent(t('pinTitle.viewSnapshots'), () => setGallery({ openId }));
+
+  const handleDeleteAllSnapshots = () => {
+    if (!window.confirm(t('confirm.deleteSnapshots', { count: snapshotCount }))) return;
+    sessionStore.deleteAllSnapshots()
+      .then(refreshSnapshotCount)
+      .catch(e => console.error("Failed to delete snapshots", e));
+  };
+
+  const updateFeedback = (next: typeof feedbackRecords) => {
+    setFeedbackRecords(next);
+    saveFeedback(next);
+    feedbackHintsRef.current = buildFeedbackHints(next);
+  };
+
+  // Settings are already unlocked here; the next frame uses the new prompt
+  const handlePromptHistoryChange = (next: typeof promptHistory) => {
+    setPromptHistory(next);
+    promptConfigRef.current = activePrompt(next);
+    try {
+      savePromptHistory(next);
+    } catch (e) {
+      console.error("Failed to save prompt settings", e);
+    }
+  };
+
+  const reviewLog = (entry: LogEntry) => requireParent(t('pinTitle.reviewReading'), () => {
+    const open = (image: string | null) => setReviewing({ entry, image });
+    if (!entry.hasSnapshot) return open(null);
+    sessionStore.getSnapshot(entry.id)
+      .then(snapshot => open(snapshot?.image ?? null))
+      .catch(() => open(null));
+  });
+
+  // The gallery is already behind the PIN. Older events are no longer in the live log.
+  const reviewSnapshot = async (snapshot: EvidenceSnapshot) => {
+    const stored = logs.find(l => l.id === snapshot.id) ?? await sessionStore.getLog(snapshot.id).catch(() => undefined);
+    const { image, ...fromSnapshot } = snapshot;
+    setReviewing({ entry: stored ?? fromSnapshot, image });
+  };
+
+  // The reading just before `entry`, which decides how much time the entry covered
+  const previousReading = async (entry: LogEntry): Promise<LogEntry | null> => {
+    const index = logs.findIndex(l => l.id === entry.id);
+    if (index >= 0 && index + 1 < logs.length) return logs[index + 1];
+    if (!entry.sessionId) return null;
+    const sessionLogs = await sessionStore.getSessionLogs(entry.sessionId).catch(() => []);
+    return sessionLogs[sessionLogs.findIndex(l => l.id === entry.id) - 1] ?? null;
+  };
+
+  const handleFeedback = async (actual: FocusStatus) => {
+    if (!reviewing) return;
+    const { entry, image } = reviewing;
+    setReviewing(null);
+
+    const feedback = { actualStatus: actual, markedAt: new Date() };
+    const previous = await previousReading(entry);
+    setStats(prev => applyCorrection(prev, entry, previous, actual));
+    setLogs(prev => prev.map(l => (l.id === entry.id ? { ...l, feedback } : l)));
+    sessionStore.updateLogFeedback(entry.id, feedback).catch(e => console.error("Failed to save feedback", e));
+
+    const corrected = actual !== entry.status;
+    updateFeedback(addFeedback(feedbackRecords, {
+      logId: entry.id,
+      predicted: entry.status,
+      actual,
+      at: feedback.markedAt.toISOString(),
+      image: corrected && image ? image : undefined,
+    }));
+    if (corrected) logParentAction('log_corrected');
+  };
+
+  const handleClearFeedback = () => {
+    if (!window.confirm(t('confirm.clearFeedback'))) return;
+    updateFeedback([]);
+  };
+
+  const handleResetStats = () => {
+    if (!window.confirm(t('confirm.resetStats'))) return;
+    setStats(createEmptyStats());
+    logParentAction('stats_reset');
+  };
+
   const toggleMonitoring = () => {
-    const nextState = !isMonitoring;
-    setIsMonitoring(nextState);
+    if (isMonitoring) {
+      if (!pinEnabled) {
+        stopMonitoring();
+        return;
+      }
+      logParentAction('stop_attempt');
+      requireParent(
+        t('pinTitle.stopEarly'),
+        () => {
+          logParentAction('session_stopped');
+          stopMonitoring();
+        },
+        () => logParentAction('stop_denied')
+      );
+      return;
+    }
+
+    // Still inside the click, which is what lets mobile browsers play the timer-driven chimes later
+    unlockChime();
+    setIsMonitoring(true);
+    setEditingRoi(false);
+    sessionStartedAtRef.current = Date.now();
+
+    const sessionId = sessionStore.createSessionId();
+    sessionIdRef.current = sessionId;
+    sessionStartStatsRef.current = statsRef.current;
+    sessionStore.startSession(sessionId, activeTaskIdRef.current ?? undefined).catch(e => console.error("Failed to start session", e));
     
     // IMPORTANT: Trigger a sound immediately on user interaction (click)
     // This unlocks the AudioContext/SpeechSynthesis on mobile browsers (iOS/Android)
-    if (nextState) {
-        speak("开始监控，小朋友加油哦", FocusStatus.FOCUSED);
-    }
+    announce('sessionStart');
   };
 
+  // Study plan ticker: drives the countdown and announces work/break transitions
+  useEffect(() => {
+    const plan = settings.studyPlan;
+    if (!isMonitoring || !plan.enabled) {
+      phaseRef.current = null;
+      setPhase(null);
+      return;
+    }
+
+    const tick = () => {
+      const next = getPhaseAt(plan, sessionStartedAtRef.current, Date.now());
+      const prev = phaseRef.current;
+      phaseRef.current = next;
+      setPhase(next);
+
+      if (!prev || prev.phase === next.phase) return;
+
+      // Finishing the plan ends the session, which plays a session-end clip instead
+      if (next.phase !== 'done') speakRef.current(describeTransition(next, plan));
+
+      if (next.phase === 'work') {
+        // Break time must not count as elapsed focus time, and pre-break readings are stale
+        lastCheckTimeRef.current = null;
+        smootherRef.current.reset();
+        reminderPolicyRef.current.reset();
+        lastReadingRef.current = null;
+      } else if (next.phase === 'done') {
+        stopMonitoring();
+      }
+    };
+
+    tick();
+    const id = window.setInterval(tick, 1000);
+    return () => clearInterval(id);
+  }, [isMonitoring, settings.studyPlan]);
+
+  const levelInfo = getLevelInfo(stats.xp);
+  const dayStreak = currentDayStreak(stats.dayStreak);
+
+  const uploadsFrames = ANALYSIS_PROVIDER_OPTIONS.find(o => o.id === settings.analysisProvider)?.uploadsFrames ?? true;
+
   // Dynamic background based on status
   const getBackgroundClass = () => {
     switch (status) {
@@ -247,12 +882,32 @@ function App() {
              <Activity size={18} className="text-white" />
            </div>
            <div>
-             <h1 className="text-lg font-bold bg-gradient-to-r from-white to-gray-400 bg-clip-text text-transparent">
-              专注卫士
+             <h1 className="text-lg font-bold bg-gradient-to-r from-white to-gray-400 bg-clip-text text-transparent leading-tight">
+              {t('app.title')}
             </h1>
+             <button
+               onClick={onSwitchProfile}
+               disabled={isMonitoring}
+               className="text-[11px] text-gray-400 hover:text-gray-200 disabled:hover:text-gray-400 flex items-center gap-1"
+               title={isMonitoring ? t('common.lockedWhileMonitoring') : t('app.switchProfile')}
+             >
+               <span>{profile.avatar}</span>
+               <span className="font-bold">{profile.name}</span>
+               {!isMonitoring && <Users size={10} />}
+             </button>
            </div>
         </div>
-        <div className="flex items-center gap-3">
+        <div className="flex items-center gap-2">
+            {dayStreak > 0 && (
+                <div className="flex items-center gap-1 bg-orange-500/10 px-3 py-1.5 rounded-full border border-orange-500/20 shadow-sm" title={t('stats.streak', { days: dayStreak })}>
+                    <Flame size={14} className="text-orange-400"/>
+                    <span className="text-xs font-bold text-orange-400">{dayStreak}</span>
+                </div>
+            )}
+            <div className="flex items-center gap-1 bg-indigo-500/10 px-3 py-1.5 rounded-full border border-indigo-500/20 shadow-sm" title={levelInfo.rank}>
+                <span className="text-xs">{levelInfo.rankIcon}</span>
+                <span className="text-xs font-bold text-indigo-300">Lv.{levelInfo.level}</span>
+            </div>
             {stats.badges.length > 0 && (
                 <div className="flex items-center gap-1.5 bg-yellow-500/10 px-3 py-1.5 rounded-full border border-yellow-500/20 shadow-sm">
                     <Trophy size={14} className="text-yellow-500"/>
@@ -266,14 +921,17 @@ function App() {
       <main className="flex-1 relative flex flex-col overflow-hidden">
         
         {/* Badge Notification Toast */}
-        {newBadge && (
-            <div className="absolute top-4 left-4 right-4 z-50 animate-in slide-in-from-top duration-500">
+        {currentUnlock && (
+            <div key={currentUnlock.key} className="absolute top-4 left-4 right-4 z-50 animate-in slide-in-from-top duration-500">
                 <div className="bg-gray-800/90 backdrop-blur-md p-4 rounded-2xl shadow-2xl border border-yellow-500/30 flex items-center gap-4 ring-1 ring-white/10">
-                    <div className="text-4xl animate-bounce filter drop-shadow-lg">{newBadge.icon}</div>
-                    <div>
-                        <h4 className="font-bold text-yellow-400 text-lg">解锁新成就!</h4>
-                        <p className="text-gray-300 text-sm">{newBadge.name}</p>
+                    <div className="text-4xl animate-bounce filter drop-shadow-lg">{currentUnlock.badge.icon}</div>
+                    <div className="flex-1">
+                        <h4 className="font-bold text-yellow-400 text-lg">{t('app.badgeUnlocked')}</h4>
+                        <p className="text-gray-300 text-sm">{describeUnlock(currentUnlock)}</p>
                     </div>
+                    {badgeQueue.length > 1 && (
+                        <span className="text-[10px] font-bold text-yellow-500/80 bg-yellow-500/10 px-2 py-1 rounded-full">+{badgeQueue.length - 1}</span>
+                    )}
                 </div>
             </div>
         )}
@@ -284,11 +942,65 @@ function App() {
             {/* Camera Section - Enlarged */}
             {/* Changed from fixed aspect ratio to taking up 50% of vertical screen space */}
             <div className="relative w-full h-[50vh] bg-black rounded-3xl overflow-hidden shadow-2xl border border-white/10 group shrink-0">
-              <CameraFeed ref={cameraRef} onError={(err) => setErrorMsg(err)} />
+              <CameraFeed
+                ref={cameraRef}
+                config={settings.camera}
+                editingRoi={editingRoi}
+                onRoiChange={(roi) => updateSettings({ camera: { ...settings.camera, roi } })}
+                onError={(err) => setErrorMsg(err)}
+              />
               
               {/* Overlay Gradient */}
               <div className="absolute inset-0 bg-gradient-to-t from-black/60 via-transparent to-transparent pointer-events-none"></div>
 
+              {(!uploadsFrames || settings.evidence.enabled) && (
+                <div className="absolute top-4 left-4 z-20 flex flex-col items-start gap-2">
+                  {!uploadsFrames && (
+                    <div className="flex items-center gap-1.5 px-3 py-1.5 bg-black/40 backdrop-blur-md rounded-full border border-green-500/20 shadow-lg">
+                      <ShieldCheck size={12} className="text-green-400" />
+                      <span className="text-[10px] font-bold text-green-300 tracking-wider">{t('app.framesStayLocal')}</span>
+                    </div>
+                  )}
+                  {/* Always visible while snapshots are on, so nobody is photographed unknowingly */}
+                  {settings.evidence.enabled && (
+                    <div className="flex items-center gap-1.5 px-3 py-1.5 bg-black/40 backdrop-blur-md rounded-full border border-pink-500/30 shadow-lg">
+                      <Images size={12} className="text-pink-400" />
+                      <span className="text-[10px] font-bold text-pink-300 tracking-wider">{t('app.snapshotsOn')}</span>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {!isMonitoring && !editingRoi && (
+                <button
+                  onClick={() => setEditingRoi(true)}
+                  className="absolute top-4 right-4 z-20 p-2 bg-black/40 backdrop-blur-md rounded-full border border-white/10 text-gray-200 hover:bg-black/60 shadow-lg"
+                  title={t('roi.edit')}
+                >
+                  <Crop size={16} />
+                </button>
+              )}
+
+              {editingRoi && (
+                <div className="absolute bottom-4 left-4 right-4 z-20 flex items-center gap-2 px-3 py-2 bg-black/60 backdrop-blur-md rounded-2xl border border-white/10">
+                  <span className="flex-1 text-[11px] text-gray-200">{t('roi.hint')}</span>
+                  {settings.camera.roi && (
+                    <button
+                      onClick={() => updateSettings({ camera: { ...settings.camera, roi: null } })}
+                      className="px-3 py-1.5 rounded-full text-xs font-bold bg-white/10 text-gray-200 hover:bg-white/20"
+                    >
+                      {t('roi.fullFrame')}
+                    </button>
+                  )}
+                  <button
+                    onClick={() => setEditingRoi(false)}
+                    className="flex items-center gap-1 px-3 py-1.5 rounded-full text-xs font-bold bg-cyan-500 text-white hover:bg-cyan-400"
+                  >
+                    <Check size={14} /> {t('roi.done')}
+                  </button>
+                </div>
+              )}
+
               {isMonitoring && (
                 <div className="absolute top-4 right-4 z-20">
                   <div className="flex items-center gap-2 px-3 py-1.5 bg-black/40 backdrop-blur-md rounded-full border border-white/10 shadow-lg">
@@ -298,6 +1010,12 @@ function App() {
                 </div>
               )}
               
+              {phase && phase.phase !== 'done' && (
+                <div className="absolute bottom-4 left-4 right-4 z-20">
+                  <StudyTimer phase={phase} />
+                </div>
+              )}
+
               {errorMsg && (
                 <div className="absolute inset-0 flex items-center justify-center bg-black/90 z-30 p-8 text-center backdrop-blur-sm">
                     <p className="text-red-400 font-medium bg-red-500/10 px-4 py-2 rounded-lg border border-red-500/20">{errorMsg}</p>
@@ -308,9 +1026,19 @@ function App() {
             {/* Status & Controls - Flex to fill remaining space */}
             <div className="flex-1 flex flex-col space-y-4 min-h-0">
               <div className="shrink-0">
-                  <StatusIndicator status={status} message={lastMessage} />
+                  <StatusIndicator status={status} message={lastMessage} onBreak={phase?.phase === 'break'} degraded={degraded} />
               </div>
               
+              <div className="shrink-0">
+                  <TaskPicker
+                    tasks={tasks}
+                    activeTaskId={activeTaskId}
+                    onSelect={handleSelectTask}
+                    taskStats={stats.taskStats}
+                    locked={isMonitoring}
+                  />
+              </div>
+
               <div className="flex justify-center shrink-0">
                   <button
                     onClick={toggleMonitoring}
@@ -325,12 +1053,12 @@ function App() {
                     {isMonitoring ? (
                       <>
                         <Square className="w-5 h-5 fill-current" />
-                        <span className="tracking-wide">停止</span>
+                        <span className="tracking-wide">{t('app.stop')}</span>
                       </>
                     ) : (
                       <>
                         <Play className="w-5 h-5 fill-current" />
-                        <span className="tracking-wide">开始</span>
+                        <span className="tracking-wide">{t('app.start')}</span>
                       </>
                     )}
                     {/* Button Glow Effect */}
@@ -342,21 +1070,52 @@ function App() {
               <div className="flex-1 bg-gray-800/40 backdrop-blur-sm rounded-2xl border border-white/5 overflow-hidden flex flex-col min-h-0">
                  <div className="flex items-center gap-2 px-4 py-2 bg-white/5 border-b border-white/5 shrink-0">
                    <History size={14} className="text-gray-400" />
-                   <span className="text-xs font-bold text-gray-400 uppercase tracking-wider">实时日志</span>
+                   <span className="text-xs font-bold text-gray-400 uppercase tracking-wider">{t('app.liveLog')}</span>
+                   {(settings.evidence.enabled || snapshotCount > 0) && (
+                     <button
+                       onClick={() => openGallery(null)}
+                       className="ml-auto flex items-center gap-1 px-2 py-0.5 rounded-full text-[10px] font-bold text-pink-300 bg-pink-500/10 hover:bg-pink-500/20"
+                     >
+                       <Images size={12} /> {t('app.snapshots', { count: snapshotCount })}
+                     </button>
+                   )}
                  </div>
                  <div className="flex-1 overflow-y-auto p-3 space-y-2 custom-scrollbar">
                    {logs.length === 0 ? (
-                     <p className="text-center text-gray-600 text-xs mt-2 italic">暂无记录...</p>
+                     <p className="text-center text-gray-600 text-xs mt-2 italic">{t('log.empty')}</p>
                    ) : (
                      logs.map((log) => (
-                       <div key={log.id} className="flex items-start gap-3 text-xs animate-in fade-in slide-in-from-left-2 duration-300">
+                       <div
+                         key={log.id}
+                         onClick={REVIEWABLE_STATUSES.includes(log.status) ? () => reviewLog(log) : undefined}
+                         className={`flex items-start gap-3 text-xs animate-in fade-in slide-in-from-left-2 duration-300 ${REVIEWABLE_STATUSES.includes(log.status) ? 'cursor-pointer rounded-lg hover:bg-white/5' : ''}`}
+                       >
                          <span className="font-mono text-gray-500 min-w-[50px]">{log.timestamp.toLocaleTimeString([],{hour:'2-digit',minute:'2-digit',second:'2-digit'})}</span>
                          <span className={`font-medium ${
                            log.status === FocusStatus.DISTRACTED ? 'text-red-400' : 
                            log.status === FocusStatus.FOCUSED ? 'text-green-400' : 'text-gray-300'
                          }`}>
                             {log.message}
+                            {(log.reason || !!log.posture?.length || log.materialsVisible === false) && (
+                              <span className="ml-1 text-[10px] text-gray-500">
+                                {[
+                                  log.reason && reasonLabel(log.reason),
+                                  ...(log.posture ?? []).map(postureLabel),
+                                  log.materialsVisible === false && t('log.noMaterials'),
+                                ].filter(Boolean).join(' · ')}
+                              </span>
+                            )}
                          </span>
+                         {log.feedback && (
+                           <span className={`shrink-0 px-1.5 rounded-full text-[10px] font-bold ${log.feedback.actualStatus === log.status ? 'bg-green-500/10 text-green-400' : 'bg-violet-500/10 text-violet-300'}`}>
+                             {log.feedback.actualStatus === log.status ? '✓' : `→${STATUS_LABELS[log.feedback.actualStatus]}`}
+                           </span>
+                         )}
+                         {log.hasSnapshot && (
+                           <button onClick={(e) => { e.stopPropagation(); openGallery(log.id); }} className="ml-auto shrink-0 text-pink-400 hover:text-pink-300" title={t('app.viewSnapshot')}>
+                             <Images size={14} />
+                           </button>
+                         )}
                        </div>
                    )))}
                  </div>
@@ -367,40 +1126,141 @@ function App() {
 
         {view === 'stats' && (
             <div className="h-full overflow-y-auto custom-scrollbar">
-                <StatsView stats={stats} />
+                <StatsView
+                  stats={stats}
+                  tasks={tasks}
+                  badges={badges}
+                  scoring={scoring}
+                  leaderboardClient={leaderboardClient}
+                  leaderboardSettings={settings.leaderboard}
+                  profile={profile}
+                />
+            </div>
+        )}
+
+        {view === 'reports' && (
+            <div className="h-full overflow-y-auto custom-scrollbar">
+                <ReportsView tasks={tasks} />
             </div>
         )}
 
         {view === 'settings' && (
             <div className="h-full overflow-y-auto custom-scrollbar">
                 <div className="p-5 space-y-6 animate-in fade-in duration-300 pb-24">
-                    <h2 className="text-2xl font-bold text-white mb-2">设置</h2>
+                    <h2 className="text-2xl font-bold text-white mb-2">{t('nav.settings')}</h2>
                     
                     {/* Audio Toggle */}
                     <div className="bg-gray-800/60 backdrop-blur-md p-5 rounded-2xl border border-white/5 flex items-center justify-between shadow-lg">
                         <div className="space-y-1">
-                            <h3 className="font-bold text-gray-100">语音提示</h3>
-                            <p className="text-xs text-gray-400">开启后 AI 会语音提醒小朋友专注</p>
+                            <h3 className="font-bold text-gray-100">{t('audio.title')}</h3>
+                            <p className="text-xs text-gray-400">{t('audio.hint')}</p>
                         </div>
                         <button 
-                            onClick={() => setAudioEnabled(!audioEnabled)}
+                            onClick={() => updateSettings({ audioEnabled: !audioEnabled })}
                             className={`w-14 h-8 rounded-full transition-all duration-300 relative focus:outline-none focus:ring-2 focus:ring-blue-500/50 ${audioEnabled ? 'bg-blue-600 shadow-inner' : 'bg-gray-700'}`}
                         >
                             <div className={`absolute top-1 w-6 h-6 bg-white rounded-full shadow-md transition-all duration-300 ${audioEnabled ? 'left-7' : 'left-1'}`}></div>
                         </button>
                     </div>
 
-                    {/* Custom Voice Recorder */}
+                    <LanguageSettings
+                        value={language}
+                        onChange={handleLanguageChange}
+                        disabled={isMonitoring}
+                    />
+
+                    <AnalysisModeSelector
+                        value={settings.analysisProvider}
+                        onChange={handleProviderChange}
+                        disabled={isMonitoring}
+                    />
+
+                    <PromptSettings
+                        history={promptHistory}
+                        onChange={handlePromptHistoryChange}
+                        corrections={feedbackHintsRef.current.instructions}
+                    />
+
+                    <CameraSettings
+                        value={settings.camera}
+                        onChange={(camera) => updateSettings({ camera })}
+                    />
+
+                    <CaptureSettings
+                        value={settings.capture}
+                        onChange={(capture) => updateSettings({ capture })}
+                        provider={settings.analysisProvider}
+                    />
+
+                    <TaskManager tasks={tasks} onChange={handleTasksChange} />
+
+                    <StudyPlanSettings
+                        value={settings.studyPlan}
+                        onChange={(studyPlan) => updateSettings({ studyPlan })}
+                        disabled={isMonitoring}
+                    />
+
+                    <ScoringSettings
+                        value={settings.scoring}
+                        onChange={(scoring) => updateSettings({ scoring })}
+                        plannedMinutes={scoring.plannedMinutes}
+                    />
+
+                    <SmoothingSettings
+                        value={settings.smoothing}
+                        onChange={(smoothing) => updateSettings({ smoothing })}
+                    />
+
+                    <ReminderSettings
+                        value={settings.reminders}
+                        onChange={(reminders) => updateSettings({ reminders })}
+                        relayEnabled={settings.relay.enabled}
+                    />
+
+                    {/* Reminder clips and templates */}
                     <div className={`transition-opacity duration-300 ${!audioEnabled ? 'opacity-50 pointer-events-none grayscale' : ''}`}>
-                        <VoiceRecorder 
-                            existingAudio={customAudio} 
-                            onSave={handleSaveAudio} 
+                        <MessageLibraryPanel
+                            library={messageLibrary}
+                            onChange={handleMessageLibraryChange}
+                            onPreview={previewClip}
                         />
                     </div>
                     
+                    <EvidenceSettings
+                        value={settings.evidence}
+                        onChange={(evidence) => updateSettings({ evidence })}
+                        snapshotCount={snapshotCount}
+                        onDeleteAll={handleDeleteAllSnapshots}
+                    />
+
+                    <RelaySettingsPanel
+                        value={settings.relay}
+                        onChange={(relay) => updateSettings({ relay })}
+                        connection={relayState}
+                    />
+
+                    <LeaderboardSettingsPanel
+                        value={settings.leaderboard}
+                        onChange={(leaderboard) => updateSettings({ leaderboard })}
+                        profile={profile}
+                    />
+
+                    <BadgePackPanel badges={customBadges} onChange={handleCustomBadgesChange} />
+
+                    <ParentControlPanel
+                        pinEnabled={pinEnabled}
+                        onPinChange={handlePinChange}
+                        onResetStats={handleResetStats}
+                        auditLog={auditLog}
+                    />
+
+                    <FeedbackPanel records={feedbackRecords} onClear={handleClearFeedback} />
+
+                    <DataTransferPanel settings={settings} stats={stats} tasks={tasks} onImported={handleImported} />
+
                     <div className="mt-8 p-4 rounded-xl bg-blue-500/5 border border-blue-500/10">
                         <p className="text-xs text-blue-300/80 text-center leading-relaxed">
-                            Tip: 建议将手机放置在侧前方，以便 AI 能清楚地看到小朋友写作业的状态。如果听不到声音，请检查手机是否开启了静音模式（如 iPhone 左侧的物理开关）。
+                            {t('app.tip')}
                         </p>
                     </div>
                 </div>
@@ -409,34 +1269,75 @@ function App() {
 
       </main>
 
+      {gallery && (
+        <EvidenceGallery
+          initialId={gallery.openId}
+          onClose={() => setGallery(null)}
+          onDeleted={refreshSnapshotCount}
+          onReview={reviewSnapshot}
+        />
+      )}
+
+      {reviewing && (
+        <LogFeedbackDialog
+          entry={reviewing.entry}
+          image={reviewing.image}
+          onSubmit={handleFeedback}
+          onClose={() => setReviewing(null)}
+        />
+      )}
+
+      {pinRequest && (
+        <PinDialog
+          title={pinRequest.title}
+          onGranted={() => {
+            setPinRequest(null);
+            pinRequest.onGranted();
+          }}
+          onDenied={() => {
+            setPinRequest(null);
+            pinRequest.onDenied?.();
+          }}
+        />
+      )}
+
       {/* Bottom Navigation */}
       <nav className="bg-gray-900/80 backdrop-blur-xl border-t border-white/5 h-20 flex items-center justify-around absolute bottom-0 w-full z-40 pb-safe shadow-[0_-10px_40px_rgba(0,0,0,0.5)]">
         <button 
-            onClick={() => setView('monitor')}
+            onClick={() => navigate('monitor')}
             className={`group flex flex-col items-center justify-center w-full h-full space-y-1.5 transition-colors relative ${view === 'monitor' ? 'text-blue-400' : 'text-gray-500 hover:text-gray-300'}`}
         >
             <div className={`p-1.5 rounded-xl transition-all duration-300 ${view === 'monitor' ? 'bg-blue-500/10 scale-110' : 'group-hover:bg-white/5'}`}>
               <Home size={22} strokeWidth={view === 'monitor' ? 2.5 : 2} />
             </div>
-            <span className="text-[10px] font-medium tracking-wide">监控</span>
+            <span className="text-[10px] font-medium tracking-wide">{t('nav.monitor')}</span>
         </button>
         <button 
-            onClick={() => setView('stats')}
+            onClick={() => navigate('stats')}
             className={`group flex flex-col items-center justify-center w-full h-full space-y-1.5 transition-colors relative ${view === 'stats' ? 'text-indigo-400' : 'text-gray-500 hover:text-gray-300'}`}
         >
             <div className={`p-1.5 rounded-xl transition-all duration-300 ${view === 'stats' ? 'bg-indigo-500/10 scale-110' : 'group-hover:bg-white/5'}`}>
               <LayoutDashboard size={22} strokeWidth={view === 'stats' ? 2.5 : 2} />
             </div>
-            <span className="text-[10px] font-medium tracking-wide">成就</span>
+            <span className="text-[10px] font-medium tracking-wide">{t('nav.stats')}</span>
+        </button>
+        <button 
+            onClick={() => navigate('reports')}
+            className={`group flex flex-col items-center justify-center w-full h-full space-y-1.5 transition-colors relative ${view === 'reports' ? 'text-emerald-400' : 'text-gray-500 hover:text-gray-300'}`}
+        >
+            <div className={`p-1.5 rounded-xl transition-all duration-300 ${view === 'reports' ? 'bg-emerald-500/10 scale-110' : 'group-hover:bg-white/5'}`}>
+              <BarChart3 size={22} strokeWidth={view === 'reports' ? 2.5 : 2} />
+            </div>
+            <span className="text-[10px] font-medium tracking-wide">{t('nav.reports')}</span>
         </button>
         <button 
-            onClick={() => setView('settings')}
+            onClick={() => navigate('settings')}
             className={`group flex flex-col items-center justify-center w-full h-full space-y-1.5 transition-colors relative ${view === 'settings' ? 'text-gray-100' : 'text-gray-500 hover:text-gray-300'}`}
         >
             <div className={`p-1.5 rounded-xl transition-all duration-300 ${view === 'settings' ? 'bg-white/10 scale-110' : 'group-hover:bg-white/5'}`}>
               <Settings size={22} strokeWidth={view === 'settings' ? 2.5 : 2} />
             </div>
-            <span className="text-[10px] font-medium tracking-wide">设置</span>
+            <span className="text-[10px] font-medium tracking-wide">{t('nav.settings')}</span>
         </button>
       </nav>
     </div>
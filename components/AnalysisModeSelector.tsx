@@ -0,0 +1,56 @@
+import React from 'react';
+import { Cpu, Check, ShieldCheck } from 'lucide-react';
+import { AnalysisProviderId } from '../types';
+import { ANALYSIS_PROVIDER_OPTIONS } from '../services/analysisProviders';
+import { t } from '../services/i18n';
+
+interface AnalysisModeSelectorProps {
+  value: AnalysisProviderId;
+  onChange: (id: AnalysisProviderId) => void;
+  disabled?: boolean;
+}
+
+const AnalysisModeSelector: React.FC<AnalysisModeSelectorProps> = ({ value, onChange, disabled }) => {
+  return (
+    <div className="bg-gray-800/60 backdrop-blur-md p-5 rounded-2xl border border-white/5 shadow-lg">
+      <h3 className="text-white font-bold mb-1 flex items-center gap-2">
+        <div className="p-1.5 rounded-lg bg-indigo-500/20">
+          <Cpu className="w-4 h-4 text-indigo-400" />
+        </div>
+        {t('analysisMode.title')}
+      </h3>
+      {disabled && (
+        <p className="text-[11px] text-gray-500 mb-2">{t('common.lockedWhileMonitoring')}</p>
+      )}
+
+      <div className="space-y-2 mt-3">
+        {ANALYSIS_PROVIDER_OPTIONS.map((option) => {
+          const isActive = option.id === value;
+          return (
+            <button
+              key={option.id}
+              disabled={disabled}
+              onClick={() => onChange(option.id)}
+              className={`w-full text-left p-3 rounded-xl border flex items-center gap-3 transition-colors disabled:opacity-50 ${
+                isActive
+                  ? 'bg-indigo-500/10 border-indigo-500/40'
+                  : 'bg-black/20 border-white/5 hover:bg-white/5'
+              }`}
+            >
+              <div className="flex-1 min-w-0">
+                <p className={`text-sm font-bold flex items-center gap-1.5 ${isActive ? 'text-indigo-300' : 'text-gray-200'}`}>
+                  {option.name}
+                  {!option.uploadsFrames && <ShieldCheck size={12} className="text-green-400" />}
+                </p>
+                <p className="text-[11px] text-gray-500 leading-snug">{option.description}</p>
+              </div>
+              {isActive && <Check size={16} className="text-indigo-400 shrink-0" />}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default AnalysisModeSelector;
@@ -0,0 +1,91 @@
+import React, { useRef, useState } from 'react';
+import { Award, Upload, Trash2 } from 'lucide-react';
+import { BadgeDefinition } from '../types';
+import { localizeBadges, mergeBadges, parseBadgePack } from '../services/badges';
+import { t } from '../services/i18n';
+
+interface BadgePackPanelProps {
+  badges: BadgeDefinition[]; // Custom badges only
+  onChange: (badges: BadgeDefinition[]) => void;
+}
+
+const BadgePackPanel: React.FC<BadgePackPanelProps> = ({ badges, onChange }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [feedback, setFeedback] = useState<{ ok: boolean; text: string } | null>(null);
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ""; // Allow picking the same file again
+    if (!file) return;
+
+    setFeedback(null);
+    try {
+      let data: unknown;
+      try {
+        data = JSON.parse(await file.text());
+      } catch {
+        throw new Error(t("badgePack.invalidJson"));
+      }
+      const imported = parseBadgePack(data);
+      // Re-importing an updated pack replaces badges with the same id
+      onChange(mergeBadges(badges, imported));
+      setFeedback({ ok: true, text: t('badgePack.imported', { count: imported.length }) });
+    } catch (e) {
+      console.error("Badge import failed", e);
+      setFeedback({ ok: false, text: (e as Error).message || t("transfer.importFailed") });
+    }
+  };
+
+  return (
+    <div className="bg-gray-800/60 backdrop-blur-md p-5 rounded-2xl border border-white/5 shadow-lg space-y-4">
+      <div className="space-y-1">
+        <h3 className="font-bold text-gray-100 flex items-center gap-2">
+          <div className="p-1.5 rounded-lg bg-yellow-500/20">
+            <Award className="w-4 h-4 text-yellow-400" />
+          </div>
+          {t('badgePack.title')}
+        </h3>
+        <p className="text-xs text-gray-400">{t('badgePack.hint')}</p>
+      </div>
+
+      {badges.length > 0 && (
+        <div className="space-y-2">
+          {localizeBadges(badges).map(badge => (
+            <div key={badge.id} className="flex items-center gap-3 bg-black/20 rounded-xl border border-white/5 px-3 py-2">
+              <span className="text-xl">{badge.icon}</span>
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-bold text-gray-100 truncate">{badge.name}</p>
+                <p className="text-[10px] text-gray-500 truncate">
+                  {badge.availableFrom || badge.availableUntil
+                    ? `${badge.availableFrom ?? '...'} ~ ${badge.availableUntil ?? '...'}`
+                    : badge.description}
+                </p>
+              </div>
+              <button
+                onClick={() => onChange(badges.filter(b => b.id !== badge.id))}
+                className="p-2 rounded-lg hover:bg-white/5 text-gray-500 hover:text-red-400"
+                title={t('common.delete')}
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        className="w-full py-3 rounded-xl bg-yellow-600/80 hover:bg-yellow-500 text-white text-sm font-bold flex items-center justify-center gap-2"
+      >
+        <Upload size={16} /> {t('badgePack.import')}
+      </button>
+      <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+
+      {feedback && (
+        <p className={`text-xs ${feedback.ok ? 'text-yellow-300' : 'text-red-400'}`}>{feedback.text}</p>
+      )}
+    </div>
+  );
+};
+
+export default BadgePackPanel;
@@ -1,80 +1,226 @@
-
-import React, { useEffect, useRef, forwardRef, useImperativeHandle } from 'react';
+import React, { useEffect, useRef, useState, forwardRef, useImperativeHandle } from 'react';
+import { CameraConfig, RegionOfInterest } from '../types';
+import { SIGNATURE_HEIGHT, SIGNATURE_WIDTH } from '../services/captureScheduler';
+import { clampRoi, drawFrame, orientedSize, MIN_ROI_SIZE } from '../services/cameraSetup';
+import { t } from '../services/i18n';
 
 interface CameraFeedProps {
+  config: CameraConfig;
+  editingRoi?: boolean; // Shows the whole rotated frame with a draggable desk region
+  onRoiChange?: (roi: RegionOfInterest) => void;
   onStreamReady?: (stream: MediaStream) => void;
   onError?: (error: string) => void;
 }
 
 export interface CameraHandle {
-  captureFrame: () => string | null;
+  // Rotated, mirrored and cropped to the ROI; the longest side fits maxResolution
+  captureCanvas: (maxResolution?: number) => HTMLCanvasElement | null;
+  captureFrame: (maxResolution?: number) => string | null;
+  captureSignature: () => Uint8Array | null; // Tiny grayscale thumbnail for cheap change detection
 }
 
-const CameraFeed = forwardRef<CameraHandle, CameraFeedProps>(({ onStreamReady, onError }, ref) => {
+// readyState 2 means HAVE_CURRENT_DATA
+const isReady = (video: HTMLVideoElement | null): video is HTMLVideoElement =>
+  !!video && video.readyState >= 2 && video.videoWidth > 0 && video.videoHeight > 0;
+
+const PREVIEW_MAX = 640;
+
+type DragMode = 'move' | 'resize' | 'draw';
+
+const CameraFeed = forwardRef<CameraHandle, CameraFeedProps>(({ config, editingRoi, onRoiChange, onStreamReady, onError }, ref) => {
   const videoRef = useRef<HTMLVideoElement>(null);
+  const signatureCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const previewRef = useRef<HTMLCanvasElement>(null);
+  const frameBoxRef = useRef<HTMLDivElement>(null);
+  const configRef = useRef(config);
+  configRef.current = config;
+  // Callbacks change identity on every parent render; the stream must not restart because of it
+  const callbacksRef = useRef({ onStreamReady, onError });
+  callbacksRef.current = { onStreamReady, onError };
+
+  const [draftRoi, setDraftRoi] = useState<RegionOfInterest | null>(null);
+  const dragRef = useRef<{ mode: DragMode; startX: number; startY: number; origin: RegionOfInterest } | null>(null);
+
+  const captureCanvas = (maxResolution?: number): HTMLCanvasElement | null => {
+    const video = videoRef.current;
+    if (!isReady(video)) return null;
+
+    const { rotation, mirrored, roi } = configRef.current;
+    const frame = orientedSize(video.videoWidth, video.videoHeight, rotation);
+    const width = frame.width * (roi?.width ?? 1);
+    const height = frame.height * (roi?.height ?? 1);
+    // Downscale so the longest side fits maxResolution; never upscale
+    const scale = maxResolution ? Math.min(1, maxResolution / Math.max(width, height)) : 1;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(width * scale));
+    canvas.height = Math.max(1, Math.round(height * scale));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+
+    drawFrame(ctx, video, { rotation, mirrored }, roi);
+    return canvas;
+  };
 
   useImperativeHandle(ref, () => ({
-    captureFrame: () => {
-      const video = videoRef.current;
-      // CRITICAL FIX: Check if video is actually ready and has dimensions
-      // readyState 2 means HAVE_CURRENT_DATA
-      if (!video || video.readyState < 2 || video.videoWidth === 0 || video.videoHeight === 0) {
-        return null;
-      }
-      
-      const canvas = document.createElement('canvas');
-      canvas.width = video.videoWidth;
-      canvas.height = video.videoHeight;
-      
-      const ctx = canvas.getContext('2d');
-      if (!ctx) return null;
-      
-      ctx.drawImage(video, 0, 0);
+    captureCanvas,
+    captureFrame: (maxResolution?: number) => {
+      // CRITICAL FIX: returns null if the video isn't ready, preventing invalid API calls
+      const canvas = captureCanvas(maxResolution);
+      if (!canvas) return null;
+
       // Reduce quality to 0.6 to save bandwidth/processing time
       const dataUrl = canvas.toDataURL('image/jpeg', 0.6);
-      
+
       // Double check we didn't get an empty frame (browsers sometimes return "data:," on error)
       if (dataUrl === "data:," || dataUrl.length < 100) return null;
-      
+
       return dataUrl;
+    },
+    captureSignature: () => {
+      const video = videoRef.current;
+      if (!isReady(video)) return null;
+
+      if (!signatureCanvasRef.current) {
+        signatureCanvasRef.current = document.createElement('canvas');
+        signatureCanvasRef.current.width = SIGNATURE_WIDTH;
+        signatureCanvasRef.current.height = SIGNATURE_HEIGHT;
+      }
+      const ctx = signatureCanvasRef.current.getContext('2d', { willReadFrequently: true });
+      if (!ctx) return null;
+
+      drawFrame(ctx, video, configRef.current, configRef.current.roi);
+      const { data } = ctx.getImageData(0, 0, SIGNATURE_WIDTH, SIGNATURE_HEIGHT);
+      const signature = new Uint8Array(SIGNATURE_WIDTH * SIGNATURE_HEIGHT);
+      for (let i = 0; i < signature.length; i++) {
+        signature[i] = (data[i * 4] * 299 + data[i * 4 + 1] * 587 + data[i * 4 + 2] * 114) / 1000;
+      }
+      return signature;
     }
   }));
 
   useEffect(() => {
     let stream: MediaStream | null = null;
+    let cancelled = false;
+    const size = { width: { ideal: 640 }, height: { ideal: 480 } };
 
     const startCamera = async () => {
       try {
-        stream = await navigator.mediaDevices.getUserMedia({
-          video: {
-            facingMode: 'user', // Default to front camera
-            width: { ideal: 640 },
-            height: { ideal: 480 }
-          },
-          audio: false
-        });
-        
+        try {
+          stream = await navigator.mediaDevices.getUserMedia({
+            video: config.deviceId
+              ? { deviceId: { exact: config.deviceId }, ...size }
+              : { facingMode: 'user', ...size }, // Default to front camera
+            audio: false
+          });
+        } catch (err) {
+          // The saved camera may be unplugged; the default one is better than none
+          if (!config.deviceId) throw err;
+          console.warn("Selected camera unavailable, falling back to the default", err);
+          stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'user', ...size }, audio: false });
+        }
+
+        if (cancelled) {
+          stream.getTracks().forEach(track => track.stop());
+          return;
+        }
         if (videoRef.current) {
           videoRef.current.srcObject = stream;
           // Ensure video plays on mobile (iOS requires playsInline to be set in JSX)
           await videoRef.current.play().catch(e => console.error("Play error:", e));
-          
-          if (onStreamReady) onStreamReady(stream);
+
+          callbacksRef.current.onStreamReady?.(stream);
         }
       } catch (err) {
         console.error("Camera access error:", err);
-        if (onError) onError("无法访问摄像头，请检查权限设置。");
+        callbacksRef.current.onError?.(t('camera.accessDenied'));
       }
     };
 
     startCamera();
 
     return () => {
+      cancelled = true;
       if (stream) {
         stream.getTracks().forEach(track => track.stop());
       }
     };
-  }, [onError, onStreamReady]);
+  }, [config.deviceId]);
+
+  // While editing, draw the full rotated frame and keep its box letterboxed inside the card,
+  // so the ROI overlay lines up with the pixels it selects
+  useEffect(() => {
+    if (!editingRoi) return;
+    let frameId = 0;
+
+    const render = () => {
+      frameId = requestAnimationFrame(render);
+      const video = videoRef.current;
+      const canvas = previewRef.current;
+      const box = frameBoxRef.current;
+      if (!isReady(video) || !canvas || !box?.parentElement) return;
+
+      const frame = orientedSize(video.videoWidth, video.videoHeight, configRef.current.rotation);
+      const scale = Math.min(1, PREVIEW_MAX / Math.max(frame.width, frame.height));
+      canvas.width = Math.round(frame.width * scale);
+      canvas.height = Math.round(frame.height * scale);
+      const ctx = canvas.getContext('2d');
+      if (ctx) drawFrame(ctx, video, configRef.current, null);
+
+      const outer = box.parentElement.getBoundingClientRect();
+      const fit = Math.min(outer.width / frame.width, outer.height / frame.height);
+      box.style.width = `${frame.width * fit}px`;
+      box.style.height = `${frame.height * fit}px`;
+    };
+    render();
+
+    return () => cancelAnimationFrame(frameId);
+  }, [editingRoi]);
+
+  const pointerPosition = (e: React.PointerEvent) => {
+    const rect = frameBoxRef.current!.getBoundingClientRect();
+    return { x: (e.clientX - rect.left) / rect.width, y: (e.clientY - rect.top) / rect.height };
+  };
+
+  const startDrag = (mode: DragMode) => (e: React.PointerEvent) => {
+    e.stopPropagation();
+    const { x, y } = pointerPosition(e);
+    const origin = mode === 'draw' ? { x, y, width: 0, height: 0 } : (draftRoi ?? config.roi ?? { x: 0, y: 0, width: 1, height: 1 });
+    dragRef.current = { mode, startX: x, startY: y, origin };
+    frameBoxRef.current!.setPointerCapture(e.pointerId);
+  };
+
+  const onDrag = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const { x, y } = pointerPosition(e);
+    const dx = x - drag.startX;
+    const dy = y - drag.startY;
+    const { origin } = drag;
+
+    if (drag.mode === 'move') {
+      setDraftRoi(clampRoi({ ...origin, x: origin.x + dx, y: origin.y + dy }));
+    } else if (drag.mode === 'resize') {
+      setDraftRoi(clampRoi({ ...origin, width: origin.width + dx, height: origin.height + dy }));
+    } else {
+      setDraftRoi(clampRoi({
+        x: Math.min(origin.x, x),
+        y: Math.min(origin.y, y),
+        width: Math.max(MIN_ROI_SIZE, Math.abs(dx)),
+        height: Math.max(MIN_ROI_SIZE, Math.abs(dy)),
+      }));
+    }
+  };
+
+  const endDrag = () => {
+    if (!dragRef.current) return;
+    dragRef.current = null;
+    if (draftRoi) onRoiChange?.(draftRoi);
+    setDraftRoi(null);
+  };
+
+  const roi = draftRoi ?? config.roi;
+  const videoTransform = `rotate(${config.rotation}deg)${config.mirrored ? ' scaleX(-1)' : ''}`;
 
   return (
     <div className="relative w-full h-full bg-black flex items-center justify-center overflow-hidden rounded-2xl shadow-inner">
@@ -83,8 +229,34 @@ const CameraFeed = forwardRef<CameraHandle, CameraFeedProps>(({ onStreamReady, o
         autoPlay
         playsInline
         muted
-        className="absolute inset-0 w-full h-full object-cover"
+        style={{ transform: videoTransform }}
+        className={`absolute inset-0 w-full h-full object-cover ${editingRoi ? 'invisible' : ''}`}
       />
+
+      {editingRoi && (
+        <div
+          ref={frameBoxRef}
+          className="relative touch-none select-none"
+          onPointerDown={startDrag('draw')}
+          onPointerMove={onDrag}
+          onPointerUp={endDrag}
+          onPointerCancel={endDrag}
+        >
+          <canvas ref={previewRef} className="absolute inset-0 w-full h-full" />
+          {roi && (
+            <div
+              className="absolute border-2 border-cyan-400 bg-cyan-400/10 shadow-[0_0_0_9999px_rgba(0,0,0,0.55)] cursor-move"
+              style={{ left: `${roi.x * 100}%`, top: `${roi.y * 100}%`, width: `${roi.width * 100}%`, height: `${roi.height * 100}%` }}
+              onPointerDown={startDrag('move')}
+            >
+              <div
+                className="absolute -right-2 -bottom-2 w-5 h-5 rounded-full bg-cyan-400 border-2 border-white cursor-nwse-resize"
+                onPointerDown={startDrag('resize')}
+              />
+            </div>
+          )}
+        </div>
+      )}
     </div>
   );
 });
@@ -0,0 +1,100 @@
+import React, { useEffect, useState } from 'react';
+import { FlipHorizontal, RotateCw, Video } from 'lucide-react';
+import { CameraConfig } from '../types';
+import { CameraDevice, ROTATIONS, listCameras } from '../services/cameraSetup';
+import { t } from '../services/i18n';
+
+interface CameraSettingsProps {
+  value: CameraConfig;
+  onChange: (config: CameraConfig) => void;
+}
+
+const CameraSettings: React.FC<CameraSettingsProps> = ({ value, onChange }) => {
+  const [devices, setDevices] = useState<CameraDevice[]>([]);
+  const update = (patch: Partial<CameraConfig>) => onChange({ ...value, ...patch });
+
+  useEffect(() => {
+    const refresh = () => listCameras().then(setDevices).catch(e => console.warn("Failed to list cameras", e));
+    refresh();
+    // USB webcams can be plugged in while the page is open
+    navigator.mediaDevices?.addEventListener?.('devicechange', refresh);
+    return () => navigator.mediaDevices?.removeEventListener?.('devicechange', refresh);
+  }, []);
+
+  const savedMissing = value.deviceId !== null && devices.length > 0 && !devices.some(d => d.deviceId === value.deviceId);
+
+  return (
+    <div className="bg-gray-800/60 backdrop-blur-md p-5 rounded-2xl border border-white/5 shadow-lg space-y-4">
+      <div className="space-y-1">
+        <h3 className="font-bold text-gray-100 flex items-center gap-2">
+          <div className="p-1.5 rounded-lg bg-sky-500/20">
+            <Video className="w-4 h-4 text-sky-400" />
+          </div>
+          {t('cameraSettings.title')}
+        </h3>
+        <p className="text-xs text-gray-400">{t('cameraSettings.hint')}</p>
+      </div>
+
+      <label className="block space-y-1">
+        <span className="text-[11px] text-gray-500 font-bold">{t('cameraSettings.device')}</span>
+        <select
+          value={value.deviceId ?? ''}
+          onChange={(e) => update({ deviceId: e.target.value || null })}
+          className="w-full bg-black/20 rounded-xl border border-white/5 px-3 py-2 text-sm text-gray-100 focus:outline-none focus:border-sky-500/40"
+        >
+          <option value="">{t('cameraSettings.defaultDevice')}</option>
+          {devices.map(d => (
+            <option key={d.deviceId} value={d.deviceId}>{d.label}</option>
+          ))}
+        </select>
+        {savedMissing && <span className="text-[11px] text-amber-300/80">{t('cameraSettings.missing')}</span>}
+      </label>
+
+      <div className="space-y-2">
+        <span className="text-[11px] text-gray-500 font-bold flex items-center gap-1"><RotateCw size={12} /> {t('cameraSettings.rotation')}</span>
+        <div className="grid grid-cols-4 gap-2">
+          {ROTATIONS.map(rotation => (
+            <button
+              key={rotation}
+              // The ROI is measured on the rotated frame, so it no longer fits after rotating
+              onClick={() => update({ rotation, roi: rotation === value.rotation ? value.roi : null })}
+              className={`py-1.5 rounded-full text-xs font-bold border transition-colors ${
+                value.rotation === rotation ? 'bg-sky-500/20 border-sky-500/40 text-sky-300' : 'bg-black/20 border-white/5 text-gray-400 hover:bg-white/5'
+              }`}
+            >
+              {rotation}°
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between gap-3">
+        <span className="text-sm font-bold text-gray-200 flex items-center gap-2">
+          <FlipHorizontal size={14} className="text-sky-400" />
+          {t('cameraSettings.mirror')}
+        </span>
+        <button
+          onClick={() => update({ mirrored: !value.mirrored, roi: null })}
+          className={`w-14 h-8 rounded-full transition-all duration-300 relative shrink-0 focus:outline-none focus:ring-2 focus:ring-sky-500/50 ${value.mirrored ? 'bg-sky-600 shadow-inner' : 'bg-gray-700'}`}
+        >
+          <div className={`absolute top-1 w-6 h-6 bg-white rounded-full shadow-md transition-all duration-300 ${value.mirrored ? 'left-7' : 'left-1'}`}></div>
+        </button>
+      </div>
+
+      <div className="flex items-center justify-between gap-3 pt-2 border-t border-white/5">
+        <p className="text-xs text-gray-400">
+          {value.roi
+            ? t('cameraSettings.roiOn', { percent: Math.round(value.roi.width * value.roi.height * 100) })
+            : t('cameraSettings.roiOff')}
+        </p>
+        {value.roi && (
+          <button onClick={() => update({ roi: null })} className="shrink-0 px-3 py-1.5 rounded-full text-xs font-bold bg-black/20 border border-white/5 text-gray-300 hover:bg-white/5">
+            {t('cameraSettings.clearRoi')}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CameraSettings;
@@ -0,0 +1,120 @@
+import React from 'react';
+import { Camera } from 'lucide-react';
+import { AnalysisProviderId, CaptureConfig } from '../types';
+import { RESOLUTION_OPTIONS, estimateCallsPerHour } from '../services/captureScheduler';
+import { ANALYSIS_PROVIDER_OPTIONS } from '../services/analysisProviders';
+import NumberField from './NumberField';
+import { t } from '../services/i18n';
+
+interface CaptureSettingsProps {
+  value: CaptureConfig;
+  onChange: (config: CaptureConfig) => void;
+  provider: AnalysisProviderId; // Only uploading providers cost API calls
+}
+
+const Toggle: React.FC<{ label: string; hint: string; on: boolean; onToggle: () => void }> = ({ label, hint, on, onToggle }) => (
+  <div className="flex items-center justify-between gap-3">
+    <div>
+      <p className="text-sm font-bold text-gray-200">{label}</p>
+      <p className="text-[11px] text-gray-500">{hint}</p>
+    </div>
+    <button
+      onClick={onToggle}
+      className={`w-14 h-8 rounded-full transition-all duration-300 relative shrink-0 focus:outline-none focus:ring-2 focus:ring-teal-500/50 ${on ? 'bg-teal-600 shadow-inner' : 'bg-gray-700'}`}
+    >
+      <div className={`absolute top-1 w-6 h-6 bg-white rounded-full shadow-md transition-all duration-300 ${on ? 'left-7' : 'left-1'}`}></div>
+    </button>
+  </div>
+);
+
+const CaptureSettings: React.FC<CaptureSettingsProps> = ({ value, onChange, provider }) => {
+  const update = (patch: Partial<CaptureConfig>) => onChange({ ...value, ...patch });
+  const estimate = estimateCallsPerHour(value);
+  const option = ANALYSIS_PROVIDER_OPTIONS.find(o => o.id === provider);
+
+  return (
+    <div className="bg-gray-800/60 backdrop-blur-md p-5 rounded-2xl border border-white/5 shadow-lg space-y-4">
+      <div className="space-y-1">
+        <h3 className="font-bold text-gray-100 flex items-center gap-2">
+          <div className="p-1.5 rounded-lg bg-teal-500/20">
+            <Camera className="w-4 h-4 text-teal-400" />
+          </div>
+          {t('capture.title')}
+        </h3>
+        <p className="text-xs text-gray-400">{t('capture.hint')}</p>
+      </div>
+
+      <Toggle
+        label={t('capture.adaptive')}
+        hint={t('capture.adaptiveHint')}
+        on={value.adaptive}
+        onToggle={() => update({ adaptive: !value.adaptive })}
+      />
+      <div className="grid grid-cols-2 gap-2">
+        <NumberField
+          label={value.adaptive ? t('capture.minInterval') : t('capture.interval')}
+          suffix={t('common.seconds')}
+          value={value.minIntervalSeconds}
+          min={2}
+          max={60}
+          onChange={(v) => update({ minIntervalSeconds: v, maxIntervalSeconds: Math.max(v, value.maxIntervalSeconds) })}
+        />
+        {value.adaptive && (
+          <NumberField label={t('capture.maxInterval')} suffix={t('common.seconds')} value={value.maxIntervalSeconds} min={value.minIntervalSeconds} max={120} onChange={(v) => update({ maxIntervalSeconds: v })} />
+        )}
+      </div>
+
+      <Toggle
+        label={t('capture.skipUnchanged')}
+        hint={t('capture.skipUnchangedHint')}
+        on={value.skipUnchanged}
+        onToggle={() => update({ skipUnchanged: !value.skipUnchanged })}
+      />
+      {value.skipUnchanged && (
+        <NumberField
+          label={t('capture.changeThreshold')}
+          suffix="%"
+          value={Math.round(value.changeThreshold * 1000) / 10}
+          min={0.5}
+          max={10}
+          step={0.5}
+          onChange={(v) => update({ changeThreshold: v / 100 })}
+        />
+      )}
+
+      <div className="space-y-2">
+        <span className="text-[11px] text-gray-500 font-bold">{t('capture.maxResolution')}</span>
+        <div className="grid grid-cols-4 gap-2">
+          {RESOLUTION_OPTIONS.map(size => (
+            <button
+              key={size}
+              onClick={() => update({ maxResolution: size })}
+              className={`py-1.5 rounded-full text-xs font-bold border transition-colors ${
+                value.maxResolution === size ? 'bg-teal-500/20 border-teal-500/40 text-teal-300' : 'bg-black/20 border-white/5 text-gray-400 hover:bg-white/5'
+              }`}
+            >
+              {size}px
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="p-3 rounded-xl bg-teal-500/5 border border-teal-500/10 text-xs text-gray-300 space-y-1">
+        {option?.uploadsFrames ? (
+          <>
+            <p>
+              {t('capture.estimateBefore')}<span className="font-bold text-teal-300">{estimate.steady}–{estimate.busiest}</span>{t('capture.estimateAfter')}
+              {value.adaptive && t('capture.estimateAdaptive')}
+            </p>
+            {value.skipUnchanged && <p className="text-[11px] text-gray-500">{t('capture.estimateSkip')}</p>}
+            {provider === 'hybrid' && <p className="text-[11px] text-gray-500">{t('capture.estimateHybrid')}</p>}
+          </>
+        ) : (
+          <p>{t('capture.noUploads')}</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CaptureSettings;
@@ -0,0 +1,120 @@
+import React, { useRef, useState } from 'react';
+import { Download, Upload, FileJson, FileSpreadsheet } from 'lucide-react';
+import { AppSettings, StudyTask, UserStats } from '../types';
+import { buildExportBundle, bundleToCsv, parseExportBundle, importBundle, downloadFile, ImportSummary } from '../services/dataTransfer';
+import { toDateKey } from '../services/reports';
+import { t } from '../services/i18n';
+
+interface DataTransferPanelProps {
+  settings: AppSettings;
+  stats: UserStats;
+  tasks: StudyTask[];
+  onImported: (summary: ImportSummary) => void;
+}
+
+const DataTransferPanel: React.FC<DataTransferPanelProps> = ({ settings, stats, tasks, onImported }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [busy, setBusy] = useState(false);
+  const [applySettings, setApplySettings] = useState(false);
+  const [feedback, setFeedback] = useState<{ ok: boolean; text: string } | null>(null);
+
+  const handleExport = async (format: 'json' | 'csv') => {
+    setBusy(true);
+    setFeedback(null);
+    try {
+      const bundle = await buildExportBundle(settings, stats, tasks);
+      const stamp = toDateKey(new Date());
+      if (format === 'json') {
+        downloadFile(`focus-guardian-${stamp}.json`, JSON.stringify(bundle, null, 2), 'application/json');
+      } else {
+        downloadFile(`focus-guardian-${stamp}.csv`, bundleToCsv(bundle), 'text/csv;charset=utf-8');
+      }
+    } catch (e) {
+      console.error("Export failed", e);
+      setFeedback({ ok: false, text: t("transfer.exportFailed") });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ""; // Allow picking the same file again
+    if (!file) return;
+
+    setBusy(true);
+    setFeedback(null);
+    try {
+      const bundle = parseExportBundle(await file.text());
+      const summary = await importBundle(bundle, stats, settings, tasks, applySettings);
+      onImported(summary);
+      setFeedback({
+        ok: true,
+        text: t('transfer.imported', { count: summary.sessionsAdded }) +
+          (summary.sessionsSkipped > 0 ? t('transfer.skipped', { count: summary.sessionsSkipped }) : '')
+      });
+    } catch (e) {
+      console.error("Import failed", e);
+      setFeedback({ ok: false, text: (e as Error).message || t("transfer.importFailed") });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="bg-gray-800/60 backdrop-blur-md p-5 rounded-2xl border border-white/5 shadow-lg space-y-4">
+      <div className="space-y-1">
+        <h3 className="font-bold text-gray-100 flex items-center gap-2">
+          <div className="p-1.5 rounded-lg bg-emerald-500/20">
+            <Download className="w-4 h-4 text-emerald-400" />
+          </div>
+          {t('transfer.title')}
+        </h3>
+        <p className="text-xs text-gray-400">{t('transfer.hint')}</p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <button
+          disabled={busy}
+          onClick={() => handleExport('json')}
+          className="py-3 rounded-xl bg-black/20 border border-white/5 hover:bg-white/5 text-sm font-bold text-gray-200 flex items-center justify-center gap-2 disabled:opacity-50"
+        >
+          <FileJson size={16} className="text-emerald-400" /> JSON
+        </button>
+        <button
+          disabled={busy}
+          onClick={() => handleExport('csv')}
+          className="py-3 rounded-xl bg-black/20 border border-white/5 hover:bg-white/5 text-sm font-bold text-gray-200 flex items-center justify-center gap-2 disabled:opacity-50"
+        >
+          <FileSpreadsheet size={16} className="text-emerald-400" /> CSV
+        </button>
+      </div>
+
+      <div className="pt-3 border-t border-white/5 space-y-3">
+        <label className="flex items-center gap-2 text-xs text-gray-400">
+          <input
+            type="checkbox"
+            checked={applySettings}
+            onChange={(e) => setApplySettings(e.target.checked)}
+            className="accent-emerald-500"
+          />
+          {t('transfer.applySettings')}
+        </label>
+        <button
+          disabled={busy}
+          onClick={() => fileInputRef.current?.click()}
+          className="w-full py-3 rounded-xl bg-emerald-600/80 hover:bg-emerald-500 text-white text-sm font-bold flex items-center justify-center gap-2 disabled:opacity-50"
+        >
+          <Upload size={16} /> {t('transfer.importJson')}
+        </button>
+        <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+      </div>
+
+      {feedback && (
+        <p className={`text-xs ${feedback.ok ? 'text-emerald-300' : 'text-red-400'}`}>{feedback.text}</p>
+      )}
+    </div>
+  );
+};
+
+export default DataTransferPanel;
@@ -0,0 +1,125 @@
+import React, { useEffect, useState } from 'react';
+import { ChevronLeft, ChevronRight, Images, MessageSquareWarning, Trash2, X } from 'lucide-react';
+import { EvidenceSnapshot, FocusStatus } from '../types';
+import * as sessionStore from '../services/sessionStore';
+import { t } from '../services/i18n';
+
+interface EvidenceGalleryProps {
+  initialId?: string | null; // Opens straight on this event's snapshot
+  onClose: () => void;
+  onDeleted?: () => void;
+  onReview?: (snapshot: EvidenceSnapshot) => void; // Mark whether the reading was right
+}
+
+const statusLabel = (status: FocusStatus) => t(status === FocusStatus.ABSENT ? 'gallery.absent' : 'gallery.distracted');
+
+const formatTime = (date: Date) =>
+  date.toLocaleString([], { month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+const EvidenceGallery: React.FC<EvidenceGalleryProps> = ({ initialId, onClose, onDeleted, onReview }) => {
+  const [snapshots, setSnapshots] = useState<EvidenceSnapshot[] | null>(null);
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+
+  useEffect(() => {
+    sessionStore.listSnapshots()
+      .then(list => {
+        setSnapshots(list);
+        const index = initialId ? list.findIndex(s => s.id === initialId) : -1;
+        if (index >= 0) setSelectedIndex(index);
+      })
+      .catch(e => {
+        console.error("Failed to load snapshots", e);
+        setSnapshots([]);
+      });
+  }, [initialId]);
+
+  const selected = snapshots && selectedIndex !== null ? snapshots[selectedIndex] : null;
+
+  const remove = async (snapshot: EvidenceSnapshot) => {
+    try {
+      await sessionStore.deleteSnapshot(snapshot.id);
+    } catch (e) {
+      console.error("Failed to delete snapshot", e);
+      return;
+    }
+    setSnapshots(prev => prev?.filter(s => s.id !== snapshot.id) ?? null);
+    setSelectedIndex(null);
+    onDeleted?.();
+  };
+
+  return (
+    <div className="absolute inset-0 z-[55] flex flex-col bg-gray-900/95 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="flex items-center justify-between px-5 py-4 border-b border-white/5 shrink-0">
+        <h3 className="font-bold text-gray-100 flex items-center gap-2">
+          <Images className="w-4 h-4 text-pink-400" />
+          {t('evidence.title')}
+        </h3>
+        <button onClick={onClose} className="p-2 rounded-full bg-white/5 text-gray-400 hover:bg-white/10">
+          <X size={16} />
+        </button>
+      </div>
+
+      {selected ? (
+        <div className="flex-1 flex flex-col p-5 gap-4 min-h-0">
+          <div className="flex-1 flex items-center justify-center min-h-0 relative">
+            <img src={selected.image} alt="" className="max-w-full max-h-full rounded-2xl border border-white/10" />
+            {selectedIndex! > 0 && (
+              <button onClick={() => setSelectedIndex(selectedIndex! - 1)} className="absolute left-0 p-2 rounded-full bg-black/50 text-white">
+                <ChevronLeft size={18} />
+              </button>
+            )}
+            {selectedIndex! < snapshots!.length - 1 && (
+              <button onClick={() => setSelectedIndex(selectedIndex! + 1)} className="absolute right-0 p-2 rounded-full bg-black/50 text-white">
+                <ChevronRight size={18} />
+              </button>
+            )}
+          </div>
+          <div className="space-y-1 shrink-0">
+            <p className="text-sm font-bold text-gray-100">
+              <span className={selected.status === FocusStatus.ABSENT ? 'text-yellow-400' : 'text-red-400'}>{statusLabel(selected.status)}</span>
+              <span className="ml-2 font-mono text-xs text-gray-500">{formatTime(selected.timestamp)}</span>
+            </p>
+            {selected.message && <p className="text-xs text-gray-400">"{selected.message}"</p>}
+          </div>
+          <div className="flex gap-2 shrink-0">
+            <button onClick={() => setSelectedIndex(null)} className="flex-1 py-3 rounded-xl bg-black/20 border border-white/5 text-sm text-gray-300 hover:bg-white/5">
+              {t('gallery.back')}
+            </button>
+            {onReview && (
+              <button onClick={() => onReview(selected)} className="flex items-center justify-center gap-1 px-4 py-3 rounded-xl bg-violet-500/10 border border-violet-500/20 text-sm font-bold text-violet-300 hover:bg-violet-500/20">
+                <MessageSquareWarning size={14} />
+                {t('gallery.review')}
+              </button>
+            )}
+            <button onClick={() => remove(selected)} className="flex items-center justify-center gap-1 px-4 py-3 rounded-xl bg-red-500/10 border border-red-500/20 text-sm font-bold text-red-300 hover:bg-red-500/20">
+              <Trash2 size={14} />
+              {t('common.delete')}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex-1 overflow-y-auto p-5 custom-scrollbar">
+          {snapshots === null ? (
+            <p className="text-center text-gray-500 text-xs mt-4">{t('common.loading')}</p>
+          ) : snapshots.length === 0 ? (
+            <p className="text-center text-gray-500 text-xs mt-4">{t('gallery.empty')}</p>
+          ) : (
+            <div className="grid grid-cols-3 gap-2">
+              {snapshots.map((snapshot, index) => (
+                <button key={snapshot.id} onClick={() => setSelectedIndex(index)} className="text-left space-y-1">
+                  <img src={snapshot.image} alt="" className="w-full aspect-[4/3] object-cover rounded-xl border border-white/10" />
+                  <p className="text-[10px] text-gray-500 truncate">
+                    <span className={snapshot.status === FocusStatus.ABSENT ? 'text-yellow-400' : 'text-red-400'}>{statusLabel(snapshot.status)}</span>
+                    {' '}{formatTime(snapshot.timestamp)}
+                  </p>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EvidenceGallery;
@@ -0,0 +1,77 @@
+import React from 'react';
+import { Images, Trash2 } from 'lucide-react';
+import { EvidenceConfig } from '../types';
+import { RETENTION_OPTIONS } from '../services/evidence';
+import NumberField from './NumberField';
+import { t } from '../services/i18n';
+
+interface EvidenceSettingsProps {
+  value: EvidenceConfig;
+  onChange: (config: EvidenceConfig) => void;
+  snapshotCount: number;
+  onDeleteAll: () => void;
+}
+
+const EvidenceSettings: React.FC<EvidenceSettingsProps> = ({ value, onChange, snapshotCount, onDeleteAll }) => {
+  const update = (patch: Partial<EvidenceConfig>) => onChange({ ...value, ...patch });
+
+  return (
+    <div className="bg-gray-800/60 backdrop-blur-md p-5 rounded-2xl border border-white/5 shadow-lg space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <div className="space-y-1">
+          <h3 className="font-bold text-gray-100 flex items-center gap-2">
+            <div className="p-1.5 rounded-lg bg-pink-500/20">
+              <Images className="w-4 h-4 text-pink-400" />
+            </div>
+            {t('evidence.title')}
+          </h3>
+          <p className="text-xs text-gray-400">{t('evidence.hint')}</p>
+        </div>
+        <button
+          onClick={() => update({ enabled: !value.enabled })}
+          className={`w-14 h-8 rounded-full transition-all duration-300 relative shrink-0 focus:outline-none focus:ring-2 focus:ring-pink-500/50 ${value.enabled ? 'bg-pink-600 shadow-inner' : 'bg-gray-700'}`}
+        >
+          <div className={`absolute top-1 w-6 h-6 bg-white rounded-full shadow-md transition-all duration-300 ${value.enabled ? 'left-7' : 'left-1'}`}></div>
+        </button>
+      </div>
+
+      <div className="p-3 rounded-xl bg-pink-500/5 border border-pink-500/10 text-[11px] text-gray-400 leading-relaxed">
+        {t('evidence.privacy')}
+      </div>
+
+      {value.enabled && (
+        <>
+          <div className="space-y-2">
+            <span className="text-[11px] text-gray-500 font-bold">{t('evidence.retention')}</span>
+            <div className="grid grid-cols-5 gap-2">
+              {RETENTION_OPTIONS.map(days => (
+                <button
+                  key={days}
+                  onClick={() => update({ retentionDays: days })}
+                  className={`py-1.5 rounded-full text-xs font-bold border transition-colors ${
+                    value.retentionDays === days ? 'bg-pink-500/20 border-pink-500/40 text-pink-300' : 'bg-black/20 border-white/5 text-gray-400 hover:bg-white/5'
+                  }`}
+                >
+                  {t('evidence.days', { days })}
+                </button>
+              ))}
+            </div>
+          </div>
+          <NumberField label={t('evidence.maxSnapshots')} suffix={t('evidence.photos')} value={value.maxSnapshots} min={10} max={1000} step={10} onChange={(v) => update({ maxSnapshots: v })} />
+        </>
+      )}
+
+      <div className="flex items-center justify-between gap-3 pt-2 border-t border-white/5">
+        <p className="text-xs text-gray-400">{t('evidence.count', { count: snapshotCount })}</p>
+        {snapshotCount > 0 && (
+          <button onClick={onDeleteAll} className="shrink-0 flex items-center gap-1 px-3 py-1.5 rounded-full text-xs font-bold bg-black/20 border border-white/5 text-red-300 hover:bg-red-500/10">
+            <Trash2 size={12} />
+            {t('evidence.deleteAll')}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default EvidenceSettings;
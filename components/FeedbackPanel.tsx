@@ -0,0 +1,58 @@
+import React from 'react';
+import { Target } from 'lucide-react';
+import { FeedbackRecord } from '../types';
+import { buildFeedbackHints, MAX_IMAGE_EXAMPLES, STATUS_LABELS, summarizeAccuracy } from '../services/feedback';
+import { t } from '../services/i18n';
+
+interface FeedbackPanelProps {
+  records: FeedbackRecord[];
+  onClear: () => void;
+}
+
+const FeedbackPanel: React.FC<FeedbackPanelProps> = ({ records, onClear }) => {
+  const summary = summarizeAccuracy(records);
+  const uploadedImages = buildFeedbackHints(records).examples.length;
+
+  return (
+    <div className="bg-gray-800/60 backdrop-blur-md p-5 rounded-2xl border border-white/5 shadow-lg space-y-4">
+      <div className="space-y-1">
+        <h3 className="font-bold text-gray-100 flex items-center gap-2">
+          <div className="p-1.5 rounded-lg bg-violet-500/20">
+            <Target className="w-4 h-4 text-violet-400" />
+          </div>
+          {t('accuracy.title')}
+        </h3>
+        <p className="text-xs text-gray-400">{t('accuracy.hint')}</p>
+        <p className="text-[11px] text-amber-300/80">{t('accuracy.imagesUploaded', { max: MAX_IMAGE_EXAMPLES, count: uploadedImages })}</p>
+      </div>
+
+      {summary.accuracy === null ? (
+        <p className="text-xs text-gray-500">{t('accuracy.empty')}</p>
+      ) : (
+        <>
+          <div className="flex items-baseline gap-2">
+            <span className="text-3xl font-bold text-violet-300">{Math.round(summary.accuracy * 100)}%</span>
+            <span className="text-xs text-gray-400">{t('accuracy.summary', { reviewed: summary.reviewed, correct: summary.correct })}</span>
+          </div>
+          {summary.mistakes.length > 0 && (
+            <div className="space-y-1">
+              {summary.mistakes.map(m => (
+                <div key={`${m.predicted}-${m.actual}`} className="flex items-center justify-between text-xs bg-black/20 rounded-xl px-3 py-2 border border-white/5">
+                  <span className="text-gray-300">{t('accuracy.mistake', { predicted: STATUS_LABELS[m.predicted], actual: STATUS_LABELS[m.actual] })}</span>
+                  <span className="font-bold text-violet-300">{t('accuracy.count', { count: m.count })}</span>
+                </div>
+              ))}
+            </div>
+          )}
+          <div className="flex justify-end pt-2 border-t border-white/5">
+            <button onClick={onClear} className="px-3 py-1.5 rounded-full text-xs font-bold bg-black/20 border border-white/5 text-gray-300 hover:bg-white/5">
+              {t('accuracy.clear')}
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default FeedbackPanel;
@@ -0,0 +1,46 @@
+import React from 'react';
+import { Languages } from 'lucide-react';
+import { Language } from '../types';
+import { LANGUAGES, t } from '../services/i18n';
+
+interface LanguageSettingsProps {
+  value: Language;
+  onChange: (language: Language) => void;
+  disabled?: boolean;
+}
+
+const LanguageSettings: React.FC<LanguageSettingsProps> = ({ value, onChange, disabled }) => {
+  return (
+    <div className="bg-gray-800/60 backdrop-blur-md p-5 rounded-2xl border border-white/5 shadow-lg space-y-4">
+      <div className="space-y-1">
+        <h3 className="font-bold text-gray-100 flex items-center gap-2">
+          <div className="p-1.5 rounded-lg bg-sky-500/20">
+            <Languages className="w-4 h-4 text-sky-400" />
+          </div>
+          {t('language.title')}
+        </h3>
+        <p className="text-xs text-gray-400">{t('language.hint')}</p>
+        {disabled && (
+          <p className="text-[11px] text-gray-500">{t('common.lockedWhileMonitoring')}</p>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        {LANGUAGES.map(language => (
+          <button
+            key={language.id}
+            disabled={disabled}
+            onClick={() => onChange(language.id)}
+            className={`py-1.5 rounded-full text-xs font-bold border transition-colors disabled:opacity-50 ${
+              value === language.id ? 'bg-sky-500/20 border-sky-500/40 text-sky-300' : 'bg-black/20 border-white/5 text-gray-400 hover:bg-white/5'
+            }`}
+          >
+            {language.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default LanguageSettings;
@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { Medal, Plus, X } from 'lucide-react';
+import { ChildProfile, LeaderboardSettings } from '../types';
+import { t } from '../services/i18n';
+
+interface LeaderboardSettingsPanelProps {
+  value: LeaderboardSettings;
+  onChange: (leaderboard: LeaderboardSettings) => void;
+  profile: ChildProfile; // Name and avatar shown to friends come from the child's profile
+}
+
+const LeaderboardSettingsPanel: React.FC<LeaderboardSettingsPanelProps> = ({ value, onChange, profile }) => {
+  const [newGroup, setNewGroup] = useState('');
+  const update = (patch: Partial<LeaderboardSettings>) => onChange({ ...value, ...patch });
+
+  const addGroup = () => {
+    const code = newGroup.trim();
+    if (!code || value.groups.includes(code)) return;
+    update({ groups: [...value.groups, code] });
+    setNewGroup('');
+  };
+
+  return (
+    <div className="bg-gray-800/60 backdrop-blur-md p-5 rounded-2xl border border-white/5 shadow-lg space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="space-y-1">
+          <h3 className="font-bold text-gray-100 flex items-center gap-2">
+            <div className="p-1.5 rounded-lg bg-orange-500/20">
+              <Medal className="w-4 h-4 text-orange-400" />
+            </div>
+            {t('leaderboard.settingsTitle')}
+          </h3>
+          <p className="text-xs text-gray-400">{t('leaderboard.settingsHint')}</p>
+        </div>
+        <button
+          onClick={() => update({ enabled: !value.enabled })}
+          className={`w-14 h-8 rounded-full transition-all duration-300 relative shrink-0 focus:outline-none focus:ring-2 focus:ring-orange-500/50 ${value.enabled ? 'bg-orange-600 shadow-inner' : 'bg-gray-700'}`}
+        >
+          <div className={`absolute top-1 w-6 h-6 bg-white rounded-full shadow-md transition-all duration-300 ${value.enabled ? 'left-7' : 'left-1'}`}></div>
+        </button>
+      </div>
+
+      {value.enabled && (
+        <div className="space-y-3 pt-2 border-t border-white/5">
+          <label className="block space-y-1">
+            <span className="text-[11px] text-gray-500 font-bold">{t('leaderboard.endpoint')}</span>
+            <input
+              value={value.endpoint}
+              onChange={(e) => update({ endpoint: e.target.value.trim() })}
+              className="w-full bg-black/20 rounded-xl border border-white/5 px-3 py-2 text-sm font-mono text-gray-100 focus:outline-none focus:border-orange-500/40"
+            />
+          </label>
+
+          <p className="text-xs text-gray-400">
+            {t('leaderboard.playingAsBefore')}<span className="text-orange-300 font-bold">{profile.avatar} {profile.name}</span>{t('leaderboard.playingAsAfter')}
+          </p>
+
+          <div className="space-y-2">
+            <span className="text-[11px] text-gray-500 font-bold">{t('leaderboard.groups')}</span>
+            <div className="flex gap-2 flex-wrap">
+              {value.groups.map(group => (
+                <span key={group} className="flex items-center gap-1 pl-3 pr-1 py-1 rounded-full bg-orange-500/10 border border-orange-500/30 text-xs text-orange-200">
+                  {group}
+                  <button onClick={() => update({ groups: value.groups.filter(g => g !== group) })} className="p-0.5 rounded-full hover:bg-white/10">
+                    <X size={12} />
+                  </button>
+                </span>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <input
+                value={newGroup}
+                onChange={(e) => setNewGroup(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && addGroup()}
+                placeholder={t('leaderboard.groupPlaceholder')}
+                className="flex-1 min-w-0 bg-black/20 rounded-xl border border-white/5 px-3 py-2 text-sm text-gray-100 placeholder-gray-600 focus:outline-none focus:border-orange-500/40"
+              />
+              <button onClick={addGroup} disabled={!newGroup.trim()} className="px-3 rounded-xl bg-orange-600/80 hover:bg-orange-500 text-white disabled:opacity-40">
+                <Plus size={18} />
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LeaderboardSettingsPanel;
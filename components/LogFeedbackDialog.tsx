@@ -0,0 +1,70 @@
+import React from 'react';
+import { Check, MessageSquareWarning } from 'lucide-react';
+import { FocusStatus, LogEntry } from '../types';
+import { REVIEWABLE_STATUSES, STATUS_LABELS } from '../services/feedback';
+import { effectiveStatus } from '../services/reports';
+import { t } from '../services/i18n';
+
+interface LogFeedbackDialogProps {
+  entry: LogEntry;
+  image?: string | null; // Evidence snapshot, when one was kept
+  onSubmit: (actual: FocusStatus) => void;
+  onClose: () => void;
+}
+
+const LogFeedbackDialog: React.FC<LogFeedbackDialogProps> = ({ entry, image, onSubmit, onClose }) => {
+  const current = entry.feedback ? effectiveStatus(entry) : null;
+
+  return (
+    <div className="absolute inset-0 z-[58] flex items-center justify-center bg-black/70 backdrop-blur-sm p-6 animate-in fade-in duration-200">
+      <div className="w-full bg-gray-800 rounded-3xl border border-white/10 shadow-2xl p-6 space-y-4">
+        <div className="flex flex-col items-center gap-2 text-center">
+          <div className="p-3 rounded-2xl bg-violet-500/20">
+            <MessageSquareWarning className="w-6 h-6 text-violet-400" />
+          </div>
+          <h3 className="font-bold text-gray-100">{t('review.title')}</h3>
+          <p className="text-xs text-gray-400">
+            {entry.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' })}
+            {' '}{t('review.predicted')}<span className="font-bold text-gray-200">{STATUS_LABELS[entry.status]}</span>
+          </p>
+          {entry.message && <p className="text-xs text-gray-500">"{entry.message}"</p>}
+        </div>
+
+        {image && <img src={image} alt="" className="w-full rounded-2xl border border-white/10" />}
+
+        <button
+          onClick={() => onSubmit(entry.status)}
+          className={`w-full flex items-center justify-center gap-1 py-3 rounded-xl text-sm font-bold border transition-colors ${
+            current === entry.status ? 'bg-green-500/20 border-green-500/40 text-green-300' : 'bg-black/20 border-white/5 text-gray-200 hover:bg-white/5'
+          }`}
+        >
+          <Check size={14} /> {t('review.correct')}
+        </button>
+
+        <div className="space-y-2">
+          <p className="text-[11px] text-gray-500 font-bold">{t('review.actually')}</p>
+          <div className="grid grid-cols-2 gap-2">
+            {REVIEWABLE_STATUSES.filter(s => s !== entry.status).map(status => (
+              <button
+                key={status}
+                onClick={() => onSubmit(status)}
+                className={`py-3 rounded-xl text-sm font-bold border transition-colors ${
+                  current === status ? 'bg-violet-500/20 border-violet-500/40 text-violet-300' : 'bg-black/20 border-white/5 text-gray-300 hover:bg-white/5'
+                }`}
+              >
+                {STATUS_LABELS[status]}
+              </button>
+            ))}
+          </div>
+          <p className="text-[11px] text-gray-500">{t('review.hint')}</p>
+        </div>
+
+        <button onClick={onClose} className="w-full py-3 rounded-xl bg-black/20 border border-white/5 text-sm text-gray-400 hover:bg-white/5">
+          {t('common.cancel')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default LogFeedbackDialog;
@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import { Mic, Play, Plus, Trash2, Type, Volume2 } from 'lucide-react';
+import { MessageCategory, MessageClip, MessageLibrary, MessageRotation } from '../types';
+import { MESSAGE_CATEGORIES, TEMPLATE_PLACEHOLDERS, createAudioClip, createTextClip } from '../services/messageLibrary';
+import VoiceRecorder from './VoiceRecorder';
+import { t } from '../services/i18n';
+
+interface MessageLibraryPanelProps {
+  library: MessageLibrary;
+  onChange: (library: MessageLibrary) => void;
+  onPreview: (clip: MessageClip) => void;
+}
+
+const ROTATIONS: { id: MessageRotation; label: string }[] = [
+  { id: 'random', get label() { return t('messages.random'); } },
+  { id: 'roundRobin', get label() { return t('messages.roundRobin'); } },
+];
+
+const MessageLibraryPanel: React.FC<MessageLibraryPanelProps> = ({ library, onChange, onPreview }) => {
+  const [category, setCategory] = useState<MessageCategory>('distracted');
+  const [newText, setNewText] = useState('');
+
+  const update = (patch: Partial<MessageLibrary>) => onChange({ ...library, ...patch });
+  const updateClip = (id: string, patch: Partial<MessageClip>) =>
+    update({ clips: library.clips.map(c => (c.id === id ? { ...c, ...patch } : c)) });
+
+  const clips = library.clips.filter(c => c.category === category);
+  const recordings = clips.filter(c => c.kind === 'audio').length;
+
+  const addText = () => {
+    if (!newText.trim()) return;
+    update({ clips: [...library.clips, createTextClip(category, newText)] });
+    setNewText('');
+  };
+
+  const addRecording = (audio: string) => {
+    update({ clips: [...library.clips, createAudioClip(category, audio, t('messages.recordingLabel', { n: recordings + 1 }))] });
+  };
+
+  return (
+    <div className="bg-gray-800/60 backdrop-blur-md p-5 rounded-2xl border border-white/5 shadow-lg space-y-4">
+      <div className="space-y-1">
+        <h3 className="font-bold text-gray-100 flex items-center gap-2">
+          <div className="p-1.5 rounded-lg bg-blue-500/20">
+            <Mic className="w-4 h-4 text-blue-400" />
+          </div>
+          {t('messages.title')}
+        </h3>
+        <p className="text-xs text-gray-400">{t('messages.hint')}</p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        {ROTATIONS.map(r => (
+          <button
+            key={r.id}
+            onClick={() => update({ rotation: r.id })}
+            className={`py-1.5 rounded-full text-xs font-bold border transition-colors ${
+              library.rotation === r.id ? 'bg-blue-500/20 border-blue-500/40 text-blue-300' : 'bg-black/20 border-white/5 text-gray-400 hover:bg-white/5'
+            }`}
+          >
+            {r.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <p className="text-sm font-bold text-gray-200">{t('messages.useModel')}</p>
+          <p className="text-[11px] text-gray-500">{t('messages.useModelHint')}</p>
+        </div>
+        <button
+          onClick={() => update({ useModelMessage: !library.useModelMessage })}
+          className={`w-14 h-8 rounded-full transition-all duration-300 relative shrink-0 focus:outline-none focus:ring-2 focus:ring-blue-500/50 ${library.useModelMessage ? 'bg-blue-600 shadow-inner' : 'bg-gray-700'}`}
+        >
+          <div className={`absolute top-1 w-6 h-6 bg-white rounded-full shadow-md transition-all duration-300 ${library.useModelMessage ? 'left-7' : 'left-1'}`}></div>
+        </button>
+      </div>
+
+      <div className="flex gap-2 flex-wrap pt-2 border-t border-white/5">
+        {MESSAGE_CATEGORIES.map(c => {
+          const enabled = library.clips.filter(clip => clip.category === c.id && clip.enabled).length;
+          return (
+            <button
+              key={c.id}
+              onClick={() => setCategory(c.id)}
+              className={`px-3 py-1 rounded-full text-xs font-bold border transition-colors ${
+                category === c.id ? 'bg-blue-500/20 border-blue-500/40 text-blue-300' : 'bg-black/20 border-white/5 text-gray-400 hover:bg-white/5'
+              }`}
+            >
+              {c.label} <span className="opacity-60">{enabled}</span>
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="space-y-2">
+        {clips.length === 0 && <p className="text-xs text-gray-500 text-center py-2">{t('messages.empty')}</p>}
+        {clips.map(clip => (
+          <div key={clip.id} className={`flex items-center gap-2 bg-black/20 rounded-xl border border-white/5 p-2 ${clip.enabled ? '' : 'opacity-50'}`}>
+            <input
+              type="checkbox"
+              checked={clip.enabled}
+              onChange={() => updateClip(clip.id, { enabled: !clip.enabled })}
+              className="w-4 h-4 accent-blue-500 shrink-0"
+              title={clip.enabled ? t('messages.disable') : t('common.enable')}
+            />
+            {clip.kind === 'audio'
+              ? <Volume2 size={14} className="text-blue-400 shrink-0" />
+              : <Type size={14} className="text-gray-500 shrink-0" />}
+            <input
+              value={clip.text}
+              onChange={(e) => updateClip(clip.id, { text: e.target.value })}
+              className="flex-1 min-w-0 bg-transparent text-sm text-gray-100 focus:outline-none"
+            />
+            <button onClick={() => onPreview(clip)} className="p-1.5 text-gray-400 hover:text-blue-300 hover:bg-blue-500/10 rounded-lg transition-colors shrink-0" title={t('messages.preview')}>
+              <Play size={14} />
+            </button>
+            <button
+              onClick={() => update({ clips: library.clips.filter(c => c.id !== clip.id) })}
+              className="p-1.5 text-gray-500 hover:text-red-400 hover:bg-red-500/10 rounded-lg transition-colors shrink-0"
+              title={t('common.delete')}
+            >
+              <Trash2 size={14} />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex gap-2">
+        <input
+          value={newText}
+          onChange={(e) => setNewText(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && addText()}
+          placeholder={t('messages.placeholder')}
+          className="flex-1 min-w-0 bg-black/20 rounded-xl border border-white/5 px-3 py-2 text-sm text-gray-100 placeholder-gray-600 focus:outline-none focus:border-blue-500/40"
+        />
+        <button onClick={addText} disabled={!newText.trim()} className="px-3 rounded-xl bg-blue-600/80 hover:bg-blue-500 text-white disabled:opacity-40">
+          <Plus size={18} />
+        </button>
+      </div>
+      <VoiceRecorder onRecorded={addRecording} />
+
+      <p className="text-[11px] text-gray-500 leading-relaxed">
+        {t('messages.placeholderHint', { placeholders: TEMPLATE_PLACEHOLDERS.join(' ') })}
+      </p>
+    </div>
+  );
+};
+
+export default MessageLibraryPanel;
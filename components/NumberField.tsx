@@ -0,0 +1,34 @@
+import React from 'react';
+
+interface NumberFieldProps {
+  label: string;
+  suffix: string;
+  value: number;
+  min: number;
+  max: number;
+  step?: number; // Fractional steps allow decimal input
+  onChange: (v: number) => void;
+}
+
+const NumberField: React.FC<NumberFieldProps> = ({ label, suffix, value, min, max, step = 1, onChange }) => (
+  <label className="flex-1 bg-black/20 rounded-xl border border-white/5 px-3 py-2 flex flex-col gap-1">
+    <span className="text-[10px] text-gray-500 font-bold">{label}</span>
+    <div className="flex items-baseline gap-1">
+      <input
+        type="number"
+        min={min}
+        max={max}
+        step={step}
+        value={value}
+        onChange={(e) => {
+          const parsed = step < 1 ? parseFloat(e.target.value) : parseInt(e.target.value, 10);
+          if (!isNaN(parsed)) onChange(Math.min(max, Math.max(min, parsed)));
+        }}
+        className="w-full bg-transparent text-white font-bold text-lg focus:outline-none"
+      />
+      <span className="text-[11px] text-gray-500 shrink-0">{suffix}</span>
+    </div>
+  </label>
+);
+
+export default NumberField;
@@ -0,0 +1,133 @@
+import React, { useState } from 'react';
+import { ShieldAlert, RotateCcw } from 'lucide-react';
+import { ParentAuditEntry } from '../types';
+import { setPin, clearPin, MIN_PIN_LENGTH, PARENT_ACTION_LABELS } from '../services/parentLock';
+import { t } from '../services/i18n';
+
+interface ParentControlPanelProps {
+  pinEnabled: boolean;
+  onPinChange: (enabled: boolean) => void;
+  onResetStats: () => void;
+  auditLog: ParentAuditEntry[];
+}
+
+const ParentControlPanel: React.FC<ParentControlPanelProps> = ({ pinEnabled, onPinChange, onResetStats, auditLog }) => {
+  const [editing, setEditing] = useState(false);
+  const [pin, setPinValue] = useState('');
+  const [confirm, setConfirm] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const resetForm = () => {
+    setEditing(false);
+    setPinValue('');
+    setConfirm('');
+    setError(null);
+  };
+
+  const savePin = async () => {
+    if (pin !== confirm) {
+      setError(t('parent.pinMismatch'));
+      return;
+    }
+    try {
+      await setPin(pin);
+      onPinChange(true);
+      resetForm();
+    } catch (e) {
+      setError((e as Error).message || t('common.saveFailed'));
+    }
+  };
+
+  const removePin = () => {
+    if (!window.confirm(t('parent.confirmRemovePin'))) return;
+    clearPin();
+    onPinChange(false);
+  };
+
+  const digitsOnly = (value: string) => value.replace(/\D/g, '');
+
+  return (
+    <div className="bg-gray-800/60 backdrop-blur-md p-5 rounded-2xl border border-white/5 shadow-lg space-y-4">
+      <div className="space-y-1">
+        <h3 className="font-bold text-gray-100 flex items-center gap-2">
+          <div className="p-1.5 rounded-lg bg-rose-500/20">
+            <ShieldAlert className="w-4 h-4 text-rose-400" />
+          </div>
+          {t('parent.title')}
+        </h3>
+        <p className="text-xs text-gray-400">
+          {pinEnabled ? t('parent.pinOnHint') : t('parent.pinOffHint')}
+        </p>
+      </div>
+
+      {editing ? (
+        <div className="space-y-2">
+          <input
+            type="password"
+            inputMode="numeric"
+            autoComplete="new-password"
+            placeholder={t('parent.newPin', { min: MIN_PIN_LENGTH })}
+            value={pin}
+            onChange={(e) => { setPinValue(digitsOnly(e.target.value)); setError(null); }}
+            className="w-full bg-black/20 rounded-xl border border-white/5 px-3 py-2 text-sm font-mono text-gray-100 placeholder-gray-600 focus:outline-none focus:border-rose-500/40"
+          />
+          <input
+            type="password"
+            inputMode="numeric"
+            autoComplete="new-password"
+            placeholder={t('parent.confirmPin')}
+            value={confirm}
+            onChange={(e) => { setConfirm(digitsOnly(e.target.value)); setError(null); }}
+            onKeyDown={(e) => e.key === 'Enter' && savePin()}
+            className="w-full bg-black/20 rounded-xl border border-white/5 px-3 py-2 text-sm font-mono text-gray-100 placeholder-gray-600 focus:outline-none focus:border-rose-500/40"
+          />
+          {error && <p className="text-xs text-red-400">{error}</p>}
+          <div className="flex gap-2">
+            <button onClick={resetForm} className="flex-1 py-2 rounded-xl bg-black/20 border border-white/5 text-sm text-gray-400 hover:bg-white/5">
+              {t('common.cancel')}
+            </button>
+            <button onClick={savePin} disabled={!pin || !confirm} className="flex-1 py-2 rounded-xl bg-rose-600 hover:bg-rose-500 text-sm font-bold text-white disabled:opacity-40">
+              {t('common.save')}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex gap-2">
+          <button onClick={() => setEditing(true)} className="flex-1 py-2 rounded-xl bg-rose-600/80 hover:bg-rose-500 text-sm font-bold text-white">
+            {pinEnabled ? t('parent.changePin') : t('parent.setPin')}
+          </button>
+          {pinEnabled && (
+            <button onClick={removePin} className="flex-1 py-2 rounded-xl bg-black/20 border border-white/5 text-sm text-gray-400 hover:bg-white/5">
+              {t('parent.removePin')}
+            </button>
+          )}
+        </div>
+      )}
+
+      <button
+        onClick={onResetStats}
+        className="w-full py-2 rounded-xl bg-black/20 border border-red-500/20 text-sm text-red-400 hover:bg-red-500/10 flex items-center justify-center gap-2"
+      >
+        <RotateCcw size={14} /> {t('parent.resetStats')}
+      </button>
+
+      {auditLog.length > 0 && (
+        <div className="pt-3 border-t border-white/5 space-y-1.5">
+          <p className="text-[11px] text-gray-500 font-bold">{t('parent.recent')}</p>
+          {auditLog.slice(0, 10).map(entry => (
+            <div key={entry.id} className="flex items-start gap-3 text-xs">
+              <span className="font-mono text-gray-500 shrink-0">
+                {new Date(entry.timestamp).toLocaleString([], { month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit' })}
+              </span>
+              <span className={entry.action === 'stop_attempt' || entry.action === 'stop_denied' ? 'text-amber-300' : 'text-gray-300'}>
+                {PARENT_ACTION_LABELS[entry.action]}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ParentControlPanel;
@@ -0,0 +1,144 @@
+import React, { useEffect, useState } from 'react';
+import { Eye, History, Wifi, WifiOff, Clock, Target, BellRing, X } from 'lucide-react';
+import StatusIndicator from './StatusIndicator';
+import { FocusStatus, RelayLog, RelayStatus, UserStats } from '../types';
+import { subscribeToRelay, RelayConnectionState } from '../services/relayClient';
+import { t } from '../services/i18n';
+
+interface ParentDashboardProps {
+  relayUrl: string;
+  room: string;
+}
+
+const MAX_LOGS = 50;
+
+const ParentDashboard: React.FC<ParentDashboardProps> = ({ relayUrl, room }) => {
+  const [connection, setConnection] = useState<RelayConnectionState>('connecting');
+  const [liveStatus, setLiveStatus] = useState<RelayStatus | null>(null);
+  const [stats, setStats] = useState<UserStats | null>(null);
+  const [logs, setLogs] = useState<RelayLog[]>([]);
+  const [parentAlert, setParentAlert] = useState<{ message: string; at: string } | null>(null);
+
+  useEffect(() => {
+    const subscription = subscribeToRelay(relayUrl, room, (message) => {
+      switch (message.type) {
+        case 'snapshot':
+          setLiveStatus(message.status);
+          setStats(message.stats);
+          setLogs(message.logs);
+          break;
+        case 'status': {
+          const { type, ...status } = message;
+          setLiveStatus(status);
+          break;
+        }
+        case 'stats':
+          setStats(message.stats);
+          break;
+        case 'log':
+          setLogs(prev => [message.entry, ...prev].slice(0, MAX_LOGS));
+          break;
+        case 'alert':
+          setParentAlert({ message: message.message, at: message.at });
+          navigator.vibrate?.([200, 100, 200]);
+          break;
+      }
+    }, setConnection);
+
+    return () => subscription.close();
+  }, [relayUrl, room]);
+
+  const status = liveStatus?.monitoring ? liveStatus.status : FocusStatus.IDLE;
+
+  return (
+    <div className="flex flex-col h-full w-full max-w-md mx-auto bg-gradient-to-b from-gray-900 via-blue-900/10 to-gray-900 overflow-hidden font-sans text-gray-100">
+      <header className="px-5 py-4 bg-gray-900/60 backdrop-blur-xl flex justify-between items-center border-b border-white/5 shrink-0">
+        <div className="flex items-center gap-2">
+          <div className="w-8 h-8 rounded-xl bg-gradient-to-br from-emerald-500 to-teal-600 flex items-center justify-center shadow-lg shadow-emerald-500/20">
+            <Eye size={18} className="text-white" />
+          </div>
+          <div>
+            <h1 className="text-lg font-bold text-white leading-tight">{t('dashboard.title')}</h1>
+            <p className="text-[10px] text-gray-500 font-mono">{t('dashboard.room', { room })}</p>
+          </div>
+        </div>
+        <div className={`flex items-center gap-1.5 px-3 py-1.5 rounded-full border text-xs font-bold ${
+          connection === 'open' ? 'bg-emerald-500/10 border-emerald-500/20 text-emerald-400' : 'bg-gray-500/10 border-gray-500/20 text-gray-400'
+        }`}>
+          {connection === 'open' ? <Wifi size={14} /> : <WifiOff size={14} />}
+          {connection === 'open' ? t('dashboard.connected') : connection === 'connecting' ? t('dashboard.connecting') : t('dashboard.disconnected')}
+        </div>
+      </header>
+
+      <main className="flex-1 flex flex-col p-4 space-y-4 min-h-0">
+        {parentAlert && (
+          <div className="flex items-start gap-3 p-4 rounded-2xl bg-rose-500/15 border border-rose-500/30 shrink-0 animate-in fade-in slide-in-from-top-2">
+            <BellRing size={18} className="text-rose-300 shrink-0 mt-0.5" />
+            <div className="flex-1">
+              <p className="text-sm font-bold text-rose-100">{parentAlert.message}</p>
+              <p className="text-[11px] text-rose-200/70 font-mono">
+                {new Date(parentAlert.at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })} · {t('dashboard.alertHint')}
+              </p>
+            </div>
+            <button onClick={() => setParentAlert(null)} className="p-1 rounded-lg text-rose-200 hover:bg-white/10">
+              <X size={16} />
+            </button>
+          </div>
+        )}
+
+        <StatusIndicator status={status} message={liveStatus?.monitoring ? liveStatus.message : undefined} />
+
+        {liveStatus && !liveStatus.monitoring && (
+          <p className="text-center text-xs text-gray-500">{t('dashboard.notMonitoring')}</p>
+        )}
+
+        {stats && (
+          <div className="flex gap-3 shrink-0">
+            <div className="flex-1 bg-gray-800/50 px-4 py-3 rounded-2xl border border-white/5">
+              <div className="flex items-center gap-2 text-gray-400 mb-1">
+                <Clock size={14} />
+                <span className="text-xs font-bold">{t('stats.focusTime')}</span>
+              </div>
+              <span className="text-lg font-bold">{Math.floor(stats.totalFocusTimeSeconds / 60)} {t('common.minutes')}</span>
+            </div>
+            <div className="flex-1 bg-gray-800/50 px-4 py-3 rounded-2xl border border-white/5">
+              <div className="flex items-center gap-2 text-gray-400 mb-1">
+                <Target size={14} />
+                <span className="text-xs font-bold">{t('stats.distractions')}</span>
+              </div>
+              <span className="text-lg font-bold">{stats.distractionCount} {t('common.times')}</span>
+            </div>
+          </div>
+        )}
+
+        <div className="flex-1 bg-gray-800/40 backdrop-blur-sm rounded-2xl border border-white/5 overflow-hidden flex flex-col min-h-0">
+          <div className="flex items-center gap-2 px-4 py-2 bg-white/5 border-b border-white/5 shrink-0">
+            <History size={14} className="text-gray-400" />
+            <span className="text-xs font-bold text-gray-400 uppercase tracking-wider">{t('parent.recent')}</span>
+          </div>
+          <div className="flex-1 overflow-y-auto p-3 space-y-2 custom-scrollbar">
+            {logs.length === 0 ? (
+              <p className="text-center text-gray-600 text-xs mt-2 italic">{t('log.empty')}</p>
+            ) : (
+              logs.map(log => (
+                <div key={log.id} className="flex items-start gap-3 text-xs">
+                  <span className="font-mono text-gray-500 min-w-[50px]">
+                    {new Date(log.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' })}
+                  </span>
+                  <span className={`font-medium ${
+                    log.status === FocusStatus.DISTRACTED ? 'text-red-400' :
+                    log.status === FocusStatus.FOCUSED ? 'text-green-400' : 'text-gray-300'
+                  }`}>
+                    {log.message}
+                  </span>
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default ParentDashboard;
@@ -0,0 +1,71 @@
+import React, { useState } from 'react';
+import { Lock } from 'lucide-react';
+import { verifyPin, lockoutRemainingMs } from '../services/parentLock';
+import { t } from '../services/i18n';
+
+interface PinDialogProps {
+  title: string;
+  onGranted: () => void;
+  onDenied: () => void; // Cancelled, or gave up after a wrong PIN
+}
+
+const PinDialog: React.FC<PinDialogProps> = ({ title, onGranted, onDenied }) => {
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [checking, setChecking] = useState(false);
+
+  const submit = async () => {
+    if (!pin || checking) return;
+    setChecking(true);
+    const ok = await verifyPin(pin);
+    setChecking(false);
+    if (ok) {
+      onGranted();
+      return;
+    }
+    setPin('');
+    const lockedMs = lockoutRemainingMs();
+    setError(lockedMs > 0 ? t('pin.lockedOut', { seconds: Math.ceil(lockedMs / 1000) }) : t('pin.wrong'));
+  };
+
+  return (
+    <div className="absolute inset-0 z-[60] flex items-center justify-center bg-black/70 backdrop-blur-sm p-6 animate-in fade-in duration-200">
+      <div className="w-full bg-gray-800 rounded-3xl border border-white/10 shadow-2xl p-6 space-y-4">
+        <div className="flex flex-col items-center gap-2 text-center">
+          <div className="p-3 rounded-2xl bg-rose-500/20">
+            <Lock className="w-6 h-6 text-rose-400" />
+          </div>
+          <h3 className="font-bold text-gray-100">{title}</h3>
+          <p className="text-xs text-gray-400">{t('pin.prompt')}</p>
+        </div>
+
+        <input
+          autoFocus
+          type="password"
+          inputMode="numeric"
+          autoComplete="off"
+          value={pin}
+          onChange={(e) => { setPin(e.target.value.replace(/\D/g, '')); setError(null); }}
+          onKeyDown={(e) => e.key === 'Enter' && submit()}
+          className="w-full bg-black/30 rounded-xl border border-white/10 px-4 py-3 text-center text-2xl tracking-[0.5em] font-mono text-white focus:outline-none focus:border-rose-500/50"
+        />
+        {error && <p className="text-xs text-red-400 text-center">{error}</p>}
+
+        <div className="flex gap-2">
+          <button onClick={onDenied} className="flex-1 py-3 rounded-xl bg-black/20 border border-white/5 text-sm text-gray-400 hover:bg-white/5">
+            {t('common.cancel')}
+          </button>
+          <button
+            onClick={submit}
+            disabled={!pin || checking}
+            className="flex-1 py-3 rounded-xl bg-rose-600 hover:bg-rose-500 text-sm font-bold text-white disabled:opacity-40"
+          >
+            {t('common.ok')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PinDialog;
@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import App from '../App';
+import ProfilePicker from './ProfilePicker';
+import PinDialog from './PinDialog';
+import { ChildProfile } from '../types';
+import {
+  loadProfiles,
+  saveProfiles,
+  createProfile,
+  getActiveProfileId,
+  setActiveProfileId,
+  removeProfileSettings,
+} from '../services/profiles';
+import { deleteProfileData } from '../services/sessionStore';
+import { isPinSet, recordParentAction } from '../services/parentLock';
+import { t } from '../services/i18n';
+
+// Chooses whose data App works with. With several children on one device the picker is shown
+// on launch, so nobody starts a session under a sibling's profile by accident.
+const ProfileGate: React.FC = () => {
+  const [profiles, setProfiles] = useState<ChildProfile[]>(loadProfiles);
+  const [activeId, setActiveId] = useState(() => {
+    const saved = getActiveProfileId();
+    return profiles.some(p => p.id === saved) ? saved : profiles[0].id;
+  });
+  const [picking, setPicking] = useState(profiles.length > 1);
+  const [pinRequest, setPinRequest] = useState<{ title: string; onGranted: () => void } | null>(null);
+
+  const active = profiles.find(p => p.id === activeId) ?? profiles[0];
+
+  const updateProfiles = (next: ChildProfile[]) => {
+    setProfiles(next);
+    saveProfiles(next);
+  };
+
+  const select = (id: string) => {
+    setActiveProfileId(id);
+    setActiveId(id);
+    setPicking(false);
+  };
+
+  // Adding and deleting children is parent business, like resetting stats inside App
+  const requireParent = (title: string, onGranted: () => void) => {
+    if (!isPinSet()) {
+      onGranted();
+      return;
+    }
+    setPinRequest({ title, onGranted });
+  };
+
+  const handleCreate = (name: string, avatar: string) => requireParent(t('pinTitle.createProfile'), () => {
+    const profile = createProfile(name, avatar);
+    updateProfiles([...profiles, profile]);
+    recordParentAction('profile_created', profile.id);
+    select(profile.id);
+  });
+
+  const handleDelete = (id: string) => requireParent(t('pinTitle.deleteProfile'), () => {
+    const remaining = profiles.filter(p => p.id !== id);
+    if (remaining.length === 0) return;
+
+    deleteProfileData(id).catch(e => console.error("Failed to delete profile data", e));
+    removeProfileSettings(id);
+    updateProfiles(remaining);
+    recordParentAction('profile_deleted', id);
+    if (id === activeId) {
+      setActiveProfileId(remaining[0].id);
+      setActiveId(remaining[0].id);
+    }
+  });
+
+  if (picking) {
+    return (
+      <div className="relative h-full w-full max-w-md mx-auto">
+        <ProfilePicker
+          profiles={profiles}
+          activeId={active.id}
+          onSelect={select}
+          onCreate={handleCreate}
+          onDelete={handleDelete}
+          onCancel={profiles.some(p => p.id === activeId) ? () => setPicking(false) : undefined}
+        />
+        {pinRequest && (
+          <PinDialog
+            title={pinRequest.title}
+            onGranted={() => {
+              setPinRequest(null);
+              pinRequest.onGranted();
+            }}
+            onDenied={() => setPinRequest(null)}
+          />
+        )}
+      </div>
+    );
+  }
+
+  // Keyed so switching profiles remounts App and reloads every per-profile store
+  return <App key={active.id} profile={active} onSwitchProfile={() => setPicking(true)} />;
+};
+
+export default ProfileGate;
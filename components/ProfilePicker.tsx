@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { Activity, Plus, Trash2, X } from 'lucide-react';
+import { ChildProfile } from '../types';
+import { PROFILE_AVATARS } from '../services/profiles';
+import { t } from '../services/i18n';
+
+interface ProfilePickerProps {
+  profiles: ChildProfile[];
+  activeId: string;
+  onSelect: (id: string) => void;
+  onCreate: (name: string, avatar: string) => void;
+  onDelete: (id: string) => void;
+  onCancel?: () => void; // Absent on launch, when a profile must be picked
+}
+
+const ProfilePicker: React.FC<ProfilePickerProps> = ({ profiles, activeId, onSelect, onCreate, onDelete, onCancel }) => {
+  const [adding, setAdding] = useState(false);
+  const [name, setName] = useState('');
+  const [avatar, setAvatar] = useState(PROFILE_AVATARS[1]);
+
+  const submit = () => {
+    if (!name.trim()) return;
+    onCreate(name, avatar);
+    setAdding(false);
+    setName('');
+  };
+
+  const confirmDelete = (profile: ChildProfile) => {
+    if (window.confirm(t('profile.confirmDelete', { name: profile.name }))) {
+      onDelete(profile.id);
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-full w-full max-w-md mx-auto bg-gradient-to-b from-gray-900 via-blue-900/10 to-gray-900 overflow-hidden font-sans text-gray-100">
+      <header className="px-5 py-4 bg-gray-900/60 backdrop-blur-xl flex justify-between items-center border-b border-white/5 shrink-0">
+        <div className="flex items-center gap-2">
+          <div className="w-8 h-8 rounded-xl bg-gradient-to-br from-blue-500 to-indigo-600 flex items-center justify-center shadow-lg shadow-blue-500/20">
+            <Activity size={18} className="text-white" />
+          </div>
+          <h1 className="text-lg font-bold bg-gradient-to-r from-white to-gray-400 bg-clip-text text-transparent">{t('app.title')}</h1>
+        </div>
+        {onCancel && (
+          <button onClick={onCancel} className="p-2 rounded-full hover:bg-white/5 text-gray-400" title={t('common.back')}>
+            <X size={18} />
+          </button>
+        )}
+      </header>
+
+      <main className="flex-1 overflow-y-auto custom-scrollbar p-5 space-y-6">
+        <h2 className="text-2xl font-bold text-white text-center mt-4">{t('profile.whoIsStudying')}</h2>
+
+        <div className="grid grid-cols-2 gap-3">
+          {profiles.map(profile => (
+            <div key={profile.id} className="relative">
+              <button
+                onClick={() => onSelect(profile.id)}
+                className={`w-full p-5 rounded-2xl border flex flex-col items-center gap-2 transition-colors ${
+                  profile.id === activeId ? 'bg-blue-500/10 border-blue-500/40' : 'bg-gray-800/60 border-white/5 hover:bg-gray-800'
+                }`}
+              >
+                <span className="text-5xl">{profile.avatar}</span>
+                <span className="font-bold text-gray-100">{profile.name}</span>
+              </button>
+              {profiles.length > 1 && (
+                <button
+                  onClick={() => confirmDelete(profile)}
+                  className="absolute top-2 right-2 p-1.5 rounded-lg text-gray-600 hover:text-red-400 hover:bg-white/5"
+                  title={t('common.delete')}
+                >
+                  <Trash2 size={14} />
+                </button>
+              )}
+            </div>
+          ))}
+
+          {!adding && (
+            <button
+              onClick={() => setAdding(true)}
+              className="p-5 rounded-2xl border border-dashed border-white/10 flex flex-col items-center justify-center gap-2 text-gray-500 hover:text-gray-300 hover:bg-white/5"
+            >
+              <Plus size={32} />
+              <span className="text-sm font-bold">{t('profile.add')}</span>
+            </button>
+          )}
+        </div>
+
+        {adding && (
+          <div className="bg-gray-800/60 backdrop-blur-md p-5 rounded-2xl border border-white/5 shadow-lg space-y-3">
+            <input
+              autoFocus
+              value={name}
+              maxLength={20}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && submit()}
+              placeholder={t('profile.name')}
+              className="w-full bg-black/20 rounded-xl border border-white/5 px-3 py-2 text-sm text-gray-100 placeholder-gray-600 focus:outline-none focus:border-blue-500/40"
+            />
+            <div className="flex gap-1.5 flex-wrap">
+              {PROFILE_AVATARS.map(a => (
+                <button
+                  key={a}
+                  onClick={() => setAvatar(a)}
+                  className={`w-9 h-9 rounded-full text-lg border transition-colors ${
+                    a === avatar ? 'bg-blue-500/20 border-blue-500/50' : 'bg-black/20 border-white/5 hover:bg-white/5'
+                  }`}
+                >
+                  {a}
+                </button>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <button onClick={() => setAdding(false)} className="flex-1 py-2 rounded-xl bg-black/20 border border-white/5 text-sm text-gray-400 hover:bg-white/5">
+                {t('common.cancel')}
+              </button>
+              <button onClick={submit} disabled={!name.trim()} className="flex-1 py-2 rounded-xl bg-blue-600 hover:bg-blue-500 text-sm font-bold text-white disabled:opacity-40">
+                {t('profile.create')}
+              </button>
+            </div>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default ProfilePicker;
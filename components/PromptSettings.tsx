@@ -0,0 +1,200 @@
+import React, { useEffect, useState } from 'react';
+import { History, MessageCircleHeart, Plus, RotateCcw, Trash2 } from 'lucide-react';
+import { PromptConfig, PromptHistory } from '../types';
+import {
+  AGE_GROUPS, PERSONAS, MAX_HOUSE_RULES, MAX_RULE_LENGTH, MAX_CHARACTER_NAME_LENGTH,
+  activePrompt, buildPrompt, commitPrompt, rollbackPrompt, sampleMessages, validatePromptConfig,
+} from '../services/promptConfig';
+import { t } from '../services/i18n';
+
+interface PromptSettingsProps {
+  history: PromptHistory;
+  onChange: (history: PromptHistory) => void;
+  corrections: string[]; // Notes from parent feedback, shown in the preview as they will be sent
+}
+
+const sameConfig = (a: PromptConfig, b: PromptConfig) => JSON.stringify(a) === JSON.stringify(b);
+
+const PromptSettings: React.FC<PromptSettingsProps> = ({ history, onChange, corrections }) => {
+  const active = activePrompt(history);
+  // Edits stay a draft until saved as a new version
+  const [draft, setDraft] = useState<PromptConfig>(active);
+  const [newRule, setNewRule] = useState('');
+  const [showPrompt, setShowPrompt] = useState(false);
+
+  useEffect(() => setDraft(active), [history.activeVersion]);
+
+  const update = (patch: Partial<PromptConfig>) => setDraft(prev => ({ ...prev, ...patch }));
+  const errors = validatePromptConfig(draft);
+  const dirty = !sameConfig(draft, active);
+  const samples = sampleMessages(draft);
+  const preview = buildPrompt(draft, corrections);
+
+  const addRule = () => {
+    const rule = newRule.trim();
+    if (!rule) return;
+    update({ houseRules: [...draft.houseRules, rule] });
+    setNewRule('');
+  };
+
+  const save = () => {
+    try {
+      onChange(commitPrompt(history, draft));
+    } catch (e) {
+      console.warn("Prompt configuration rejected", e);
+    }
+  };
+
+  return (
+    <div className="bg-gray-800/60 backdrop-blur-md p-5 rounded-2xl border border-white/5 shadow-lg space-y-4">
+      <div className="space-y-1">
+        <h3 className="font-bold text-gray-100 flex items-center gap-2">
+          <div className="p-1.5 rounded-lg bg-fuchsia-500/20">
+            <MessageCircleHeart className="w-4 h-4 text-fuchsia-400" />
+          </div>
+          {t('prompt.title')}
+        </h3>
+        <p className="text-xs text-gray-400">{t('prompt.hint')}</p>
+      </div>
+
+      <div className="space-y-2">
+        <span className="text-[11px] text-gray-500 font-bold">{t('prompt.persona')}</span>
+        <div className="grid grid-cols-2 gap-2">
+          {PERSONAS.map(persona => (
+            <button
+              key={persona.id}
+              onClick={() => update({ persona: persona.id })}
+              className={`p-2 rounded-xl text-left border transition-colors ${
+                draft.persona === persona.id ? 'bg-fuchsia-500/20 border-fuchsia-500/40' : 'bg-black/20 border-white/5 hover:bg-white/5'
+              }`}
+            >
+              <p className={`text-xs font-bold ${draft.persona === persona.id ? 'text-fuchsia-300' : 'text-gray-200'}`}>{persona.label}</p>
+              <p className="text-[10px] text-gray-500">{persona.description}</p>
+            </button>
+          ))}
+        </div>
+        {draft.persona === 'cartoon' && (
+          <input
+            value={draft.characterName}
+            maxLength={MAX_CHARACTER_NAME_LENGTH}
+            onChange={(e) => update({ characterName: e.target.value })}
+            placeholder={t('prompt.characterPlaceholder')}
+            className="w-full bg-black/20 rounded-xl border border-white/5 px-3 py-2 text-sm text-gray-100 focus:outline-none focus:border-fuchsia-500/40"
+          />
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <span className="text-[11px] text-gray-500 font-bold">{t('prompt.age')}</span>
+        <div className="grid grid-cols-4 gap-2">
+          {AGE_GROUPS.map(age => (
+            <button
+              key={age.id}
+              onClick={() => update({ ageGroup: age.id })}
+              className={`py-1.5 rounded-full text-xs font-bold border transition-colors ${
+                draft.ageGroup === age.id ? 'bg-fuchsia-500/20 border-fuchsia-500/40 text-fuchsia-300' : 'bg-black/20 border-white/5 text-gray-400 hover:bg-white/5'
+              }`}
+            >
+              {age.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <span className="text-[11px] text-gray-500 font-bold">{t('prompt.houseRules')}</span>
+        {draft.houseRules.map((rule, i) => (
+          <div key={i} className="flex items-center gap-2 bg-black/20 rounded-xl border border-white/5 px-3 py-2">
+            <span className="flex-1 text-xs text-gray-200">{rule}</span>
+            <button
+              onClick={() => update({ houseRules: draft.houseRules.filter((_, j) => j !== i) })}
+              className="p-1 text-gray-500 hover:text-red-400"
+            >
+              <Trash2 size={12} />
+            </button>
+          </div>
+        ))}
+        {draft.houseRules.length < MAX_HOUSE_RULES && (
+          <div className="flex gap-2">
+            <input
+              value={newRule}
+              maxLength={MAX_RULE_LENGTH}
+              onChange={(e) => setNewRule(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && addRule()}
+              placeholder={t('prompt.addRule')}
+              className="flex-1 bg-black/20 rounded-xl border border-white/5 px-3 py-2 text-sm text-gray-100 focus:outline-none focus:border-fuchsia-500/40"
+            />
+            <button onClick={addRule} disabled={!newRule.trim()} className="p-2 rounded-xl bg-fuchsia-500/20 text-fuchsia-300 disabled:opacity-40">
+              <Plus size={16} />
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Preview */}
+      <div className="p-3 rounded-xl bg-fuchsia-500/5 border border-fuchsia-500/10 space-y-2">
+        <p className="text-[11px] text-gray-500 font-bold">{t('prompt.preview')}</p>
+        <ul className="text-xs text-gray-200 space-y-1">
+          <li><span className="text-green-400">{t('prompt.whenFocused')}</span> “{samples.focused}”</li>
+          <li><span className="text-red-400">{t('prompt.whenDistracted')}</span> “{samples.distracted}”</li>
+          <li><span className="text-yellow-400">{t('prompt.whenAbsent')}</span> “{samples.absent}”</li>
+        </ul>
+        <button onClick={() => setShowPrompt(!showPrompt)} className="text-[11px] text-fuchsia-300 hover:underline">
+          {showPrompt ? t('prompt.hidePrompt') : t('prompt.showPrompt')}
+        </button>
+        {showPrompt && (
+          <pre className="text-[10px] text-gray-400 whitespace-pre-wrap bg-black/30 rounded-lg p-2 max-h-60 overflow-y-auto custom-scrollbar">
+            {`${preview.systemInstruction}\n\n${preview.prompt}`}
+          </pre>
+        )}
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="text-[11px] text-red-400 space-y-0.5">
+          {errors.map(error => <li key={error}>{error}</li>)}
+        </ul>
+      )}
+
+      <div className="flex gap-2">
+        <button
+          onClick={() => setDraft(active)}
+          disabled={!dirty}
+          className="flex-1 py-2 rounded-xl bg-black/20 border border-white/5 text-sm text-gray-400 hover:bg-white/5 disabled:opacity-40"
+        >
+          {t('prompt.discard')}
+        </button>
+        <button
+          onClick={save}
+          disabled={!dirty || errors.length > 0}
+          className="flex-1 py-2 rounded-xl bg-fuchsia-600 hover:bg-fuchsia-500 text-sm font-bold text-white disabled:opacity-40"
+        >
+          {t('prompt.save')}
+        </button>
+      </div>
+
+      {history.versions.length > 1 && (
+        <div className="space-y-2 pt-2 border-t border-white/5">
+          <span className="text-[11px] text-gray-500 font-bold flex items-center gap-1"><History size={12} /> {t('prompt.history')}</span>
+          {[...history.versions].reverse().map(v => (
+            <div key={v.version} className="flex items-center justify-between gap-2 text-xs bg-black/20 rounded-xl border border-white/5 px-3 py-2">
+              <span className="text-gray-300">
+                v{v.version} · {PERSONAS.find(p => p.id === v.config.persona)?.label}
+                {v.config.houseRules.length > 0 && ` · ${t('prompt.ruleCount', { count: v.config.houseRules.length })}`}
+                <span className="ml-2 text-[10px] text-gray-500">{new Date(v.savedAt).toLocaleString([], { month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit' })}</span>
+              </span>
+              {v.version === history.activeVersion ? (
+                <span className="text-[10px] font-bold text-fuchsia-300">{t('prompt.inUse')}</span>
+              ) : (
+                <button onClick={() => onChange(rollbackPrompt(history, v.version))} className="flex items-center gap-1 text-[11px] font-bold text-gray-300 hover:text-fuchsia-300">
+                  <RotateCcw size={12} /> {t('prompt.restore')}
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PromptSettings;
@@ -0,0 +1,88 @@
+import React, { useState } from 'react';
+import { Radio, Copy, Check } from 'lucide-react';
+import { RelaySettings } from '../types';
+import { buildParentLink, RelayConnectionState } from '../services/relayClient';
+import { t } from '../services/i18n';
+
+interface RelaySettingsPanelProps {
+  value: RelaySettings;
+  onChange: (relay: RelaySettings) => void;
+  connection: RelayConnectionState;
+}
+
+const RelaySettingsPanel: React.FC<RelaySettingsPanelProps> = ({ value, onChange, connection }) => {
+  const [copied, setCopied] = useState(false);
+  const update = (patch: Partial<RelaySettings>) => onChange({ ...value, ...patch });
+  const parentLink = buildParentLink(value);
+
+  const copyLink = () => {
+    navigator.clipboard?.writeText(parentLink)
+      .then(() => {
+        setCopied(true);
+        setTimeout(() => setCopied(false), 2000);
+      })
+      .catch(e => console.error("Copy failed", e));
+  };
+
+  return (
+    <div className="bg-gray-800/60 backdrop-blur-md p-5 rounded-2xl border border-white/5 shadow-lg space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="space-y-1">
+          <h3 className="font-bold text-gray-100 flex items-center gap-2">
+            <div className="p-1.5 rounded-lg bg-teal-500/20">
+              <Radio className="w-4 h-4 text-teal-400" />
+            </div>
+            {t('relay.title')}
+          </h3>
+          <p className="text-xs text-gray-400">{t('relay.hint')}</p>
+        </div>
+        <button
+          onClick={() => update({ enabled: !value.enabled })}
+          className={`w-14 h-8 rounded-full transition-all duration-300 relative shrink-0 focus:outline-none focus:ring-2 focus:ring-teal-500/50 ${value.enabled ? 'bg-teal-600 shadow-inner' : 'bg-gray-700'}`}
+        >
+          <div className={`absolute top-1 w-6 h-6 bg-white rounded-full shadow-md transition-all duration-300 ${value.enabled ? 'left-7' : 'left-1'}`}></div>
+        </button>
+      </div>
+
+      {value.enabled && (
+        <div className="space-y-3 pt-2 border-t border-white/5">
+          <label className="block space-y-1">
+            <span className="text-[11px] text-gray-500 font-bold">{t('relay.url')}</span>
+            <input
+              value={value.url}
+              onChange={(e) => update({ url: e.target.value.trim() })}
+              className="w-full bg-black/20 rounded-xl border border-white/5 px-3 py-2 text-sm font-mono text-gray-100 focus:outline-none focus:border-teal-500/40"
+            />
+          </label>
+          <label className="block space-y-1">
+            <span className="text-[11px] text-gray-500 font-bold">{t('relay.room')}</span>
+            <input
+              value={value.room}
+              onChange={(e) => update({ room: e.target.value.trim() })}
+              className="w-full bg-black/20 rounded-xl border border-white/5 px-3 py-2 text-sm font-mono text-gray-100 focus:outline-none focus:border-teal-500/40"
+            />
+          </label>
+
+          <div className="flex items-center gap-2 text-xs">
+            <span className={`w-2 h-2 rounded-full ${connection === 'open' ? 'bg-teal-400' : connection === 'connecting' ? 'bg-yellow-400 animate-pulse' : 'bg-gray-600'}`} />
+            <span className="text-gray-400">
+              {connection === 'open' ? t('relay.connected') : connection === 'connecting' ? t('relay.connecting') : t('relay.disconnected')}
+            </span>
+          </div>
+
+          <div className="bg-black/30 rounded-xl border border-white/5 p-3 space-y-2">
+            <p className="text-[11px] text-gray-500">{t('relay.openLink')}</p>
+            <div className="flex items-center gap-2">
+              <code className="flex-1 min-w-0 text-[11px] text-teal-300 break-all">{parentLink}</code>
+              <button onClick={copyLink} className="p-2 rounded-lg hover:bg-white/5 text-gray-400 shrink-0" title={t('relay.copy')}>
+                {copied ? <Check size={14} className="text-teal-400" /> : <Copy size={14} />}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RelaySettingsPanel;
@@ -0,0 +1,125 @@
+import React from 'react';
+import { BellRing, Moon, Plus, Trash2 } from 'lucide-react';
+import { EscalationLevel, ReminderPolicyConfig } from '../types';
+import { DEFAULT_REMINDERS, ESCALATION_LEVELS } from '../services/reminderPolicy';
+import NumberField from './NumberField';
+import { t } from '../services/i18n';
+
+interface ReminderSettingsProps {
+  value: ReminderPolicyConfig;
+  onChange: (config: ReminderPolicyConfig) => void;
+  relayEnabled: boolean; // Parent notifications travel over the parent dashboard relay
+}
+
+const ReminderSettings: React.FC<ReminderSettingsProps> = ({ value, onChange, relayEnabled }) => {
+  const update = (patch: Partial<ReminderPolicyConfig>) => onChange({ ...value, ...patch });
+  const setLevel = (level: EscalationLevel, after: number | null) =>
+    update({ escalation: { ...value.escalation, [level]: after } });
+
+  return (
+    <div className="bg-gray-800/60 backdrop-blur-md p-5 rounded-2xl border border-white/5 shadow-lg space-y-4">
+      <div className="space-y-1">
+        <h3 className="font-bold text-gray-100 flex items-center gap-2">
+          <div className="p-1.5 rounded-lg bg-amber-500/20">
+            <BellRing className="w-4 h-4 text-amber-400" />
+          </div>
+          {t('reminders.title')}
+        </h3>
+        <p className="text-xs text-gray-400">{t('reminders.hint')}</p>
+      </div>
+
+      <div className="space-y-2">
+        {ESCALATION_LEVELS.map(({ id, label }) => {
+          const after = value.escalation[id];
+          return (
+            <div key={id} className={`flex items-center gap-3 bg-black/20 rounded-xl border border-white/5 px-3 py-2 ${after === null ? 'opacity-50' : ''}`}>
+              <input
+                type="checkbox"
+                checked={after !== null}
+                onChange={() => setLevel(id, after === null ? DEFAULT_REMINDERS.escalation[id] ?? 0 : null)}
+                className="w-4 h-4 accent-amber-500 shrink-0"
+              />
+              <span className="flex-1 text-sm font-bold text-gray-200">{label}</span>
+              {after !== null && (
+                <div className="flex items-baseline gap-1 shrink-0">
+                  <span className="text-[10px] text-gray-500">{t('reminders.after')}</span>
+                  <input
+                    type="number"
+                    min={0}
+                    max={1800}
+                    value={after}
+                    onChange={(e) => {
+                      const parsed = parseInt(e.target.value, 10);
+                      if (!isNaN(parsed)) setLevel(id, Math.min(1800, Math.max(0, parsed)));
+                    }}
+                    className="w-12 bg-transparent text-right text-sm text-gray-100 focus:outline-none"
+                  />
+                  <span className="text-[10px] text-gray-500">{t('reminders.secondsOff')}</span>
+                </div>
+              )}
+            </div>
+          );
+        })}
+        {value.escalation.notifyParent !== null && !relayEnabled && (
+          <p className="text-[11px] text-amber-300/80">{t('reminders.needsRelay')}</p>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <NumberField label={t('reminders.cooldown')} suffix={t('common.seconds')} value={value.cooldownSeconds} min={5} max={600} onChange={(v) => update({ cooldownSeconds: v })} />
+        <NumberField label={t('reminders.praiseEvery')} suffix={t('common.minutes')} value={value.praiseEveryMinutes} min={0} max={120} onChange={(v) => update({ praiseEveryMinutes: v })} />
+      </div>
+      <NumberField
+        label={t('reminders.postureEvery')}
+        suffix={t('common.minutes')}
+        value={value.postureEveryMinutes}
+        min={0}
+        max={60}
+        onChange={(v) => update({ postureEveryMinutes: v })}
+      />
+
+      <div className="space-y-2 pt-2 border-t border-white/5">
+        <div className="flex items-center justify-between">
+          <span className="text-sm font-bold text-gray-200 flex items-center gap-2">
+            <Moon size={14} className="text-amber-400" />
+            {t('reminders.quietHours')}
+          </span>
+          <button
+            onClick={() => update({ quietWindows: [...value.quietWindows, { start: '21:00', end: '07:00' }] })}
+            className="p-1.5 rounded-lg text-gray-400 hover:text-amber-300 hover:bg-amber-500/10 transition-colors"
+            title={t('common.add')}
+          >
+            <Plus size={16} />
+          </button>
+        </div>
+        {value.quietWindows.length === 0 && <p className="text-[11px] text-gray-500">{t('reminders.quietHint')}</p>}
+        {value.quietWindows.map((quiet, i) => (
+          <div key={i} className="flex items-center gap-2 bg-black/20 rounded-xl border border-white/5 px-3 py-2">
+            <input
+              type="time"
+              value={quiet.start}
+              onChange={(e) => update({ quietWindows: value.quietWindows.map((w, j) => (j === i ? { ...w, start: e.target.value } : w)) })}
+              className="bg-transparent text-sm text-gray-100 focus:outline-none [color-scheme:dark]"
+            />
+            <span className="text-xs text-gray-500">{t('reminders.to')}</span>
+            <input
+              type="time"
+              value={quiet.end}
+              onChange={(e) => update({ quietWindows: value.quietWindows.map((w, j) => (j === i ? { ...w, end: e.target.value } : w)) })}
+              className="bg-transparent text-sm text-gray-100 focus:outline-none [color-scheme:dark]"
+            />
+            <button
+              onClick={() => update({ quietWindows: value.quietWindows.filter((_, j) => j !== i) })}
+              className="ml-auto p-1.5 text-gray-500 hover:text-red-400 hover:bg-red-500/10 rounded-lg transition-colors"
+              title={t('common.delete')}
+            >
+              <Trash2 size={14} />
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ReminderSettings;
@@ -0,0 +1,268 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { BarChart3, CalendarDays, Clock, AlertTriangle, BookOpen, Smartphone, PersonStanding } from 'lucide-react';
+import { FocusStatus, LogEntry, SessionRecord, StudyTask } from '../types';
+import { listSessions, getLogsInRange, getSessionLogs } from '../services/sessionStore';
+import { buildTimeline, dailyTotals, distractionByHour, distractionsByReason, findDistractionPeaks, postureWarnings, totalsByTask } from '../services/reports';
+import { postureLabel, reasonLabel } from '../services/analysisDetails';
+import { getTaskName } from '../services/tasks';
+import { t } from '../services/i18n';
+
+const REPORT_DAYS = 7;
+
+const STATUS_COLORS: Partial<Record<FocusStatus, string>> = {
+  [FocusStatus.FOCUSED]: 'bg-green-500',
+  [FocusStatus.DISTRACTED]: 'bg-red-500',
+  [FocusStatus.ABSENT]: 'bg-yellow-500',
+};
+
+const formatClock = (date: Date) => date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+const formatMinutes = (seconds: number) => `${Math.round(seconds / 60)} ${t('common.minutes')}`;
+
+interface ReportsViewProps {
+  tasks: StudyTask[];
+}
+
+const ReportsView: React.FC<ReportsViewProps> = ({ tasks }) => {
+  const [sessions, setSessions] = useState<SessionRecord[]>([]);
+  const [weekLogs, setWeekLogs] = useState<LogEntry[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [sessionLogs, setSessionLogs] = useState<LogEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const now = new Date();
+    const from = new Date(now.getFullYear(), now.getMonth(), now.getDate() - (REPORT_DAYS - 1));
+
+    Promise.all([listSessions({ from }), getLogsInRange(from, now)])
+      .then(([recentSessions, logs]) => {
+        setSessions(recentSessions);
+        setWeekLogs(logs);
+        if (recentSessions.length > 0) setSelectedId(recentSessions[0].id);
+      })
+      .catch(e => console.error("Failed to load reports", e))
+      .finally(() => setLoading(false));
+  }, []);
+
+  useEffect(() => {
+    if (!selectedId) return;
+    getSessionLogs(selectedId)
+      .then(setSessionLogs)
+      .catch(e => console.error("Failed to load session logs", e));
+  }, [selectedId]);
+
+  const timeline = useMemo(() => buildTimeline(sessionLogs), [sessionLogs]);
+  const days = useMemo(() => dailyTotals(weekLogs, REPORT_DAYS), [weekLogs]);
+  const hours = useMemo(() => distractionByHour(weekLogs), [weekLogs]);
+  const peaks = useMemo(() => findDistractionPeaks(hours), [hours]);
+  const subjects = useMemo(() => totalsByTask(weekLogs), [weekLogs]);
+  const maxSubjectSeconds = Math.max(1, ...subjects.map(s => s.focusedSeconds));
+  const reasons = useMemo(() => distractionsByReason(weekLogs), [weekLogs]);
+  const reasonTotal = reasons.reduce((sum, r) => sum + r.count, 0);
+  const posture = useMemo(() => postureWarnings(weekLogs), [weekLogs]);
+
+  const maxDaySeconds = Math.max(1, ...days.map(d => d.focusedSeconds + d.distractedSeconds + d.absentSeconds));
+  const maxHourCount = Math.max(1, ...hours);
+
+  const timelineStart = timeline.length > 0 ? timeline[0].start.getTime() : 0;
+  const timelineEnd = timeline.length > 0 ? timeline[timeline.length - 1].end.getTime() : 0;
+  const timelineSpan = Math.max(1, timelineEnd - timelineStart);
+
+  if (loading) {
+    return <p className="text-center text-gray-500 text-sm mt-10">{t('common.loading')}</p>;
+  }
+
+  return (
+    <div className="p-5 space-y-8 animate-in slide-in-from-right duration-500 pb-24">
+      <h2 className="text-2xl font-bold text-white">{t('reports.title')}</h2>
+
+      {sessions.length === 0 && (
+        <p className="text-center text-gray-600 text-sm italic">{t('reports.empty', { days: REPORT_DAYS })}</p>
+      )}
+
+      {/* Session Timeline */}
+      {sessions.length > 0 && (
+        <div className="bg-gray-800/50 backdrop-blur-md rounded-3xl border border-white/5 p-5 shadow-lg space-y-4">
+          <h3 className="text-white font-bold flex items-center gap-2">
+            <div className="p-1.5 rounded-lg bg-blue-500/20">
+              <Clock className="text-blue-400" size={16} />
+            </div>
+            {t('reports.timeline')}
+          </h3>
+
+          <div className="flex gap-2 overflow-x-auto no-scrollbar">
+            {sessions.map(session => (
+              <button
+                key={session.id}
+                onClick={() => setSelectedId(session.id)}
+                className={`shrink-0 px-3 py-1.5 rounded-full text-[11px] font-bold border transition-colors ${
+                  session.id === selectedId
+                    ? 'bg-blue-500/20 border-blue-500/40 text-blue-300'
+                    : 'bg-black/20 border-white/5 text-gray-400 hover:bg-white/5'
+                }`}
+              >
+                {session.startedAt.toLocaleDateString([], { month: 'numeric', day: 'numeric' })} {formatClock(session.startedAt)}
+              </button>
+            ))}
+          </div>
+
+          {timeline.length === 0 ? (
+            <p className="text-xs text-gray-600 italic">{t('reports.timelineEmpty')}</p>
+          ) : (
+            <div>
+              <div className="relative h-8 w-full bg-black/30 rounded-lg overflow-hidden">
+                {timeline.map((segment, i) => (
+                  <div
+                    key={i}
+                    className={`absolute top-0 bottom-0 ${STATUS_COLORS[segment.status] ?? 'bg-gray-600'}`}
+                    style={{
+                      left: `${((segment.start.getTime() - timelineStart) / timelineSpan) * 100}%`,
+                      width: `${((segment.end.getTime() - segment.start.getTime()) / timelineSpan) * 100}%`
+                    }}
+                    title={`${formatClock(segment.start)} - ${formatClock(segment.end)}`}
+                  />
+                ))}
+              </div>
+              <div className="flex justify-between text-[10px] text-gray-500 font-mono mt-1">
+                <span>{formatClock(new Date(timelineStart))}</span>
+                <span>{formatClock(new Date(timelineEnd))}</span>
+              </div>
+              <div className="flex gap-4 mt-3 text-[10px] text-gray-400">
+                <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-sm bg-green-500" />{t('status.focused')}</span>
+                <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-sm bg-red-500" />{t('status.distracted')}</span>
+                <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-sm bg-yellow-500" />{t('status.absent')}</span>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Daily Totals */}
+      <div className="bg-gray-800/50 backdrop-blur-md rounded-3xl border border-white/5 p-5 shadow-lg">
+        <h3 className="text-white font-bold flex items-center gap-2 mb-4">
+          <div className="p-1.5 rounded-lg bg-indigo-500/20">
+            <CalendarDays className="text-indigo-400" size={16} />
+          </div>
+          {t('reports.lastDays', { days: REPORT_DAYS })}
+        </h3>
+        <div className="flex items-end justify-between gap-2 h-32">
+          {days.map(day => {
+            const total = day.focusedSeconds + day.distractedSeconds + day.absentSeconds;
+            return (
+              <div key={day.dateKey} className="flex-1 flex flex-col items-center gap-1 h-full" title={t('reports.dayTooltip', { focused: formatMinutes(day.focusedSeconds), count: day.distractionEvents })}>
+                <div className="flex-1 w-full flex flex-col justify-end">
+                  <div className="w-full rounded-t-md overflow-hidden flex flex-col-reverse" style={{ height: `${(total / maxDaySeconds) * 100}%` }}>
+                    <div className="bg-green-500" style={{ height: `${total ? (day.focusedSeconds / total) * 100 : 0}%` }} />
+                    <div className="bg-red-500" style={{ height: `${total ? (day.distractedSeconds / total) * 100 : 0}%` }} />
+                    <div className="bg-yellow-500" style={{ height: `${total ? (day.absentSeconds / total) * 100 : 0}%` }} />
+                  </div>
+                </div>
+                <span className="text-[10px] text-gray-500">{day.label}</span>
+              </div>
+            );
+          })}
+        </div>
+        <p className="text-xs text-gray-400 mt-4">
+          {t('reports.weekFocused')}<span className="font-bold text-white">{formatMinutes(days.reduce((sum, d) => sum + d.focusedSeconds, 0))}</span>
+          {t('reports.weekDistracted')}<span className="font-bold text-white">{days.reduce((sum, d) => sum + d.distractionEvents, 0)}</span>{t('reports.weekDistractedSuffix')}
+        </p>
+      </div>
+
+      {/* Subject Breakdown */}
+      {subjects.length > 0 && (
+        <div className="bg-gray-800/50 backdrop-blur-md rounded-3xl border border-white/5 p-5 shadow-lg">
+          <h3 className="text-white font-bold flex items-center gap-2 mb-4">
+            <div className="p-1.5 rounded-lg bg-purple-500/20">
+              <BookOpen className="text-purple-400" size={16} />
+            </div>
+            {t('reports.subjects')}
+          </h3>
+          <div className="space-y-3">
+            {subjects.map(subject => {
+              const task = tasks.find(t => t.id === subject.taskId);
+              return (
+                <div key={subject.taskId ?? 'none'} className="space-y-1">
+                  <div className="flex justify-between text-xs">
+                    <span className="text-gray-200 font-bold">{task?.icon} {getTaskName(tasks, subject.taskId)}</span>
+                    <span className="text-gray-400">{formatMinutes(subject.focusedSeconds)} · {t('reports.distractedTimes', { count: subject.distractionEvents })}</span>
+                  </div>
+                  <div className="h-2 w-full bg-black/30 rounded-full overflow-hidden">
+                    <div className="h-full bg-purple-500 rounded-full" style={{ width: `${(subject.focusedSeconds / maxSubjectSeconds) * 100}%` }} />
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {/* Distraction Reasons & Posture */}
+      {(reasons.length > 0 || posture.length > 0) && (
+        <div className="bg-gray-800/50 backdrop-blur-md rounded-3xl border border-white/5 p-5 shadow-lg space-y-4">
+          <h3 className="text-white font-bold flex items-center gap-2">
+            <div className="p-1.5 rounded-lg bg-orange-500/20">
+              <Smartphone className="text-orange-400" size={16} />
+            </div>
+            {t('reports.reasons')}
+          </h3>
+          {reasons.length > 0 && (
+            <>
+              <p className="text-xs text-gray-300">
+                {reasons[0].count / reasonTotal >= 0.5 ? t('reports.mostlyFrom') : t('reports.topReason')}
+                <span className="font-bold text-orange-300">{t('reports.quotedReason', { reason: reasonLabel(reasons[0].reason) })}</span>
+                {t('reports.percent', { percent: Math.round((reasons[0].count / reasonTotal) * 100) })}
+              </p>
+              <div className="space-y-2">
+                {reasons.map(({ reason, count }) => (
+                  <div key={reason} className="flex items-center gap-2 text-xs">
+                    <span className="w-16 shrink-0 text-gray-300">{reasonLabel(reason)}</span>
+                    <div className="flex-1 h-2 bg-black/30 rounded-full overflow-hidden">
+                      <div className="h-full bg-orange-500 rounded-full" style={{ width: `${(count / reasons[0].count) * 100}%` }} />
+                    </div>
+                    <span className="w-10 shrink-0 text-right text-gray-400">{count} {t('common.times')}</span>
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+          {posture.length > 0 && (
+            <p className="text-xs text-gray-400 flex items-start gap-2 pt-2 border-t border-white/5">
+              <PersonStanding size={14} className="shrink-0 mt-0.5 text-orange-400" />
+              <span>{t('reports.posture', { issues: posture.map(p => `${postureLabel(p.issue)} ${p.count} ${t('common.times')}`).join(t('common.listSeparator')) })}</span>
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* Distraction by Hour */}
+      <div className="bg-gray-800/50 backdrop-blur-md rounded-3xl border border-white/5 p-5 shadow-lg">
+        <h3 className="text-white font-bold flex items-center gap-2 mb-4">
+          <div className="p-1.5 rounded-lg bg-red-500/20">
+            <BarChart3 className="text-red-400" size={16} />
+          </div>
+          {t('reports.byHour')}
+        </h3>
+        <div className="flex items-end gap-0.5 h-20">
+          {hours.map((count, hour) => (
+            <div
+              key={hour}
+              className={`flex-1 rounded-t-sm ${peaks.includes(hour) ? 'bg-red-500' : 'bg-red-500/30'}`}
+              style={{ height: `${(count / maxHourCount) * 100}%` }}
+              title={`${hour}:00 - ${count} ${t('common.times')}`}
+            />
+          ))}
+        </div>
+        <div className="flex justify-between text-[10px] text-gray-500 font-mono mt-1">
+          {[0, 6, 12, 18, 23].map(hour => <span key={hour}>{t('reports.hour', { hour })}</span>)}
+        </div>
+        {peaks.length > 0 && (
+          <p className="text-xs text-red-300/80 mt-4 flex items-start gap-2">
+            <AlertTriangle size={14} className="shrink-0 mt-0.5" />
+            <span>{t('reports.peaks', { hours: peaks.map(h => `${h}:00-${h + 1}:00`).join(t('common.listSeparator')) })}</span>
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ReportsView;
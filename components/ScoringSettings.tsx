@@ -0,0 +1,58 @@
+import React from 'react';
+import { Gauge } from 'lucide-react';
+import { ScoringProfile } from '../types';
+import { SCORING_PRESETS } from '../services/scoring';
+import NumberField from './NumberField';
+import { t } from '../services/i18n';
+
+interface ScoringSettingsProps {
+  value: ScoringProfile;
+  onChange: (profile: ScoringProfile) => void;
+  plannedMinutes: number; // What the score is actually normalized by
+}
+
+const ScoringSettings: React.FC<ScoringSettingsProps> = ({ value, onChange, plannedMinutes }) => {
+  // Any manual change turns the profile into a custom one
+  const update = (patch: Partial<ScoringProfile>) => onChange({ ...value, ...patch, id: 'custom', name: t('scoring.custom') });
+
+  return (
+    <div className="bg-gray-800/60 backdrop-blur-md p-5 rounded-2xl border border-white/5 shadow-lg space-y-4">
+      <div className="space-y-1">
+        <h3 className="font-bold text-gray-100 flex items-center gap-2">
+          <div className="p-1.5 rounded-lg bg-indigo-500/20">
+            <Gauge className="w-4 h-4 text-indigo-400" />
+          </div>
+          {t('scoring.title')}
+        </h3>
+        <p className="text-xs text-gray-400">
+          {t('scoring.hint')}
+          {plannedMinutes !== value.targetMinutes && t('scoring.plannedHint', { minutes: plannedMinutes })}
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        {SCORING_PRESETS.map(preset => (
+          <button
+            key={preset.id}
+            onClick={() => onChange(preset)}
+            className={`py-1.5 rounded-full text-xs font-bold border transition-colors ${
+              preset.id === value.id ? 'bg-indigo-500/20 border-indigo-500/40 text-indigo-300' : 'bg-black/20 border-white/5 text-gray-400 hover:bg-white/5'
+            }`}
+          >
+            {preset.name}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <NumberField label={t('scoring.target')} suffix={t('common.minutes')} value={value.targetMinutes} min={5} max={240} onChange={(v) => update({ targetMinutes: v })} />
+        <NumberField label={t('scoring.perDistraction')} suffix={t('scoring.points')} value={value.distractionPenalty} min={0} max={20} step={0.5} onChange={(v) => update({ distractionPenalty: v })} />
+        <NumberField label={t('scoring.perAbsence')} suffix={t('scoring.points')} value={value.absencePenalty} min={0} max={20} step={0.5} onChange={(v) => update({ absencePenalty: v })} />
+        <NumberField label={t('scoring.glance')} suffix={t('scoring.pointsFrom')} value={value.glancePenalty} min={0} max={10} step={0.5} onChange={(v) => update({ glancePenalty: v })} />
+      </div>
+      <NumberField label={t('scoring.glanceSeconds')} suffix={t('common.seconds')} value={value.glanceSeconds} min={0} max={60} onChange={(v) => update({ glanceSeconds: v })} />
+    </div>
+  );
+};
+
+export default ScoringSettings;
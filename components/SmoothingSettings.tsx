@@ -0,0 +1,102 @@
+import React from 'react';
+import { Waves } from 'lucide-react';
+import { SmoothingConfig } from '../types';
+import { t } from '../services/i18n';
+
+interface SmoothingSettingsProps {
+  value: SmoothingConfig;
+  onChange: (config: SmoothingConfig) => void;
+}
+
+interface SliderRowProps {
+  label: string;
+  hint: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  format: (v: number) => string;
+  onChange: (v: number) => void;
+}
+
+const SliderRow: React.FC<SliderRowProps> = ({ label, hint, value, min, max, step, format, onChange }) => (
+  <div className="space-y-1.5">
+    <div className="flex justify-between items-baseline">
+      <span className="text-sm text-gray-200">{label}</span>
+      <span className="text-xs font-mono text-cyan-300">{format(value)}</span>
+    </div>
+    <input
+      type="range"
+      min={min}
+      max={max}
+      step={step}
+      value={value}
+      onChange={(e) => onChange(parseFloat(e.target.value))}
+      className="w-full accent-cyan-500"
+    />
+    <p className="text-[11px] text-gray-500 leading-snug">{hint}</p>
+  </div>
+);
+
+const SmoothingSettings: React.FC<SmoothingSettingsProps> = ({ value, onChange }) => {
+  const update = (patch: Partial<SmoothingConfig>) => onChange({ ...value, ...patch });
+
+  return (
+    <div className="bg-gray-800/60 backdrop-blur-md p-5 rounded-2xl border border-white/5 shadow-lg space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="space-y-1">
+          <h3 className="font-bold text-gray-100 flex items-center gap-2">
+            <div className="p-1.5 rounded-lg bg-cyan-500/20">
+              <Waves className="w-4 h-4 text-cyan-400" />
+            </div>
+            {t('smoothing.title')}
+          </h3>
+          <p className="text-xs text-gray-400">{t('smoothing.hint')}</p>
+        </div>
+        <button
+          onClick={() => update({ enabled: !value.enabled })}
+          className={`w-14 h-8 rounded-full transition-all duration-300 relative shrink-0 focus:outline-none focus:ring-2 focus:ring-cyan-500/50 ${value.enabled ? 'bg-cyan-600 shadow-inner' : 'bg-gray-700'}`}
+        >
+          <div className={`absolute top-1 w-6 h-6 bg-white rounded-full shadow-md transition-all duration-300 ${value.enabled ? 'left-7' : 'left-1'}`}></div>
+        </button>
+      </div>
+
+      {value.enabled && (
+        <div className="space-y-4 pt-2 border-t border-white/5">
+          <SliderRow
+            label={t('smoothing.distractEvidence')}
+            hint={t('smoothing.distractEvidenceHint')}
+            value={value.distractEvidence}
+            min={0.5}
+            max={4}
+            step={0.1}
+            format={(v) => t('smoothing.readings', { count: v.toFixed(1) })}
+            onChange={(v) => update({ distractEvidence: v })}
+          />
+          <SliderRow
+            label={t('smoothing.recoverEvidence')}
+            hint={t('smoothing.recoverEvidenceHint')}
+            value={value.recoverEvidence}
+            min={0.5}
+            max={3}
+            step={0.1}
+            format={(v) => t('smoothing.readings', { count: v.toFixed(1) })}
+            onChange={(v) => update({ recoverEvidence: v })}
+          />
+          <SliderRow
+            label={t('smoothing.minConfidence')}
+            hint={t('smoothing.minConfidenceHint')}
+            value={value.minConfidence}
+            min={0}
+            max={0.9}
+            step={0.05}
+            format={(v) => `${Math.round(v * 100)}%`}
+            onChange={(v) => update({ minConfidence: v })}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SmoothingSettings;
@@ -1,21 +1,74 @@
 
-import React from 'react';
-import { UserStats, Badge } from '../types';
-import { BADGES, getLeaderboard, calculateDailyScore } from '../services/gamification';
-import { Trophy, Star, Clock, Target, Lock, Medal } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { UserStats, ChildProfile, BadgeDefinition, StudyTask, LeaderboardRanking, LeaderboardSettings } from '../types';
+import { scoreLogs, ScoreBreakdown, ScoringContext } from '../services/scoring';
+import { getLevelInfo, currentDayStreak } from '../services/progression';
+import { taskName } from '../services/tasks';
+import { getBadgeProgress, isBadgeAvailable, isBadgeUnlocked, unlockedTiers, TIER_LABELS } from '../services/badges';
+import { LeaderboardClient, LOCAL_GROUP, groupLabel, submitTodayScore, getTodayLogs } from '../services/leaderboard';
+import { Trophy, Star, Clock, Target, Lock, Medal, BookOpen, Flame } from 'lucide-react';
+import { t } from '../services/i18n';
 
 interface StatsViewProps {
   stats: UserStats;
+  tasks: StudyTask[];
+  badges: BadgeDefinition[];
+  scoring: ScoringContext;
+  leaderboardClient: LeaderboardClient;
+  leaderboardSettings: LeaderboardSettings;
+  profile: ChildProfile;
 }
 
-const StatsView: React.FC<StatsViewProps> = ({ stats }) => {
-  const currentScore = calculateDailyScore(stats);
-  const leaderboard = getLeaderboard(currentScore);
-  const earnedBadgeIds = stats.badges;
+const StatsView: React.FC<StatsViewProps> = ({ stats, tasks, badges, scoring, leaderboardClient, leaderboardSettings, profile }) => {
+  const subjectRows = tasks.filter(t => stats.taskStats[t.id]);
+  const [breakdown, setBreakdown] = useState<ScoreBreakdown | null>(null);
+  const currentScore = breakdown?.score ?? 0;
+  const levelInfo = getLevelInfo(stats.xp);
+  const dayStreak = currentDayStreak(stats.dayStreak);
+  // Expired seasonal badges stay visible only if they were earned
+  const visibleBadges = badges.filter(b => isBadgeAvailable(b) || isBadgeUnlocked(b, stats.badges));
+  const unlockedCount = visibleBadges.filter(b => isBadgeUnlocked(b, stats.badges)).length;
+
+  const groups = leaderboardSettings.enabled && leaderboardSettings.groups.length > 0 ? leaderboardSettings.groups : [LOCAL_GROUP];
+  const [activeGroup, setActiveGroup] = useState(groups[0]);
+  const [ranking, setRanking] = useState<LeaderboardRanking | null>(null);
+  const [rankingError, setRankingError] = useState<string | null>(null);
+
+  // Today's score comes from today's logs, re-read whenever the live stats move
+  useEffect(() => {
+    let cancelled = false;
+    getTodayLogs()
+      .then(logs => { if (!cancelled) setBreakdown(scoreLogs(logs, scoring)); })
+      .catch(e => console.error("Failed to compute today's score", e));
+    return () => { cancelled = true; };
+  }, [stats, scoring]);
+
+  useEffect(() => {
+    if (!groups.includes(activeGroup)) setActiveGroup(groups[0]);
+  }, [groups.join('|')]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setRankingError(null);
+
+    // Submit today's score first so the ranking we fetch already includes it
+    submitTodayScore(leaderboardClient, leaderboardSettings, profile, scoring)
+      .catch(e => console.warn("Score submission failed", e))
+      .then(() => leaderboardClient.fetchRanking(activeGroup, profile.playerId))
+      .then(result => { if (!cancelled) setRanking(result); })
+      .catch(e => {
+        console.error("Failed to load leaderboard", e);
+        if (!cancelled) setRankingError(t("leaderboard.unreachable"));
+      });
+
+    return () => { cancelled = true; };
+  }, [leaderboardClient, activeGroup]);
+
+  const leaderboard = ranking?.entries ?? [];
 
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
-    return `${mins} 分钟`;
+    return `${mins} ${t('common.minutes')}`;
   };
 
   return (
@@ -29,8 +82,8 @@ const StatsView: React.FC<StatsViewProps> = ({ stats }) => {
         
         <div className="relative z-10">
           <div className="flex justify-between items-start mb-2">
-             <p className="text-indigo-200 text-xs font-bold uppercase tracking-widest">今日专注力评分</p>
-             <div className="bg-white/20 backdrop-blur-sm px-3 py-1 rounded-full text-[10px] font-bold">Level {Math.floor(stats.totalFocusTimeSeconds / 600) + 1}</div>
+             <p className="text-indigo-200 text-xs font-bold uppercase tracking-widest">{t('stats.todayScore')}</p>
+             <div className="bg-white/20 backdrop-blur-sm px-3 py-1 rounded-full text-[10px] font-bold">{levelInfo.rankIcon} Lv.{levelInfo.level} {levelInfo.rank}</div>
           </div>
           
           <div className="flex items-baseline gap-2 mt-2">
@@ -40,11 +93,21 @@ const StatsView: React.FC<StatsViewProps> = ({ stats }) => {
             <span className="text-xl font-medium text-indigo-300">/ 100</span>
           </div>
 
-          <div className="mt-8 flex gap-3">
+          <div className="mt-4 space-y-1">
+            <div className="flex justify-between text-[10px] font-bold text-indigo-200">
+              <span>{t('stats.xp')}</span>
+              <span className="font-mono">{levelInfo.xpIntoLevel} / {levelInfo.xpForNextLevel} XP</span>
+            </div>
+            <div className="h-1.5 w-full bg-black/20 rounded-full overflow-hidden">
+              <div className="h-full rounded-full bg-gradient-to-r from-yellow-300 to-orange-400" style={{ width: `${(levelInfo.xpIntoLevel / levelInfo.xpForNextLevel) * 100}%` }} />
+            </div>
+          </div>
+
+          <div className="mt-6 flex gap-3">
             <div className="flex-1 bg-black/20 backdrop-blur-md px-4 py-3 rounded-2xl flex flex-col justify-center border border-white/5">
               <div className="flex items-center gap-2 text-indigo-200 mb-1">
                 <Clock size={14} />
-                <span className="text-xs font-bold uppercase">专注时长</span>
+                <span className="text-xs font-bold uppercase">{t('stats.focusTime')}</span>
               </div>
               <span className="text-lg font-bold">{formatTime(stats.totalFocusTimeSeconds)}</span>
             </div>
@@ -52,14 +115,78 @@ const StatsView: React.FC<StatsViewProps> = ({ stats }) => {
             <div className="flex-1 bg-black/20 backdrop-blur-md px-4 py-3 rounded-2xl flex flex-col justify-center border border-white/5">
               <div className="flex items-center gap-2 text-indigo-200 mb-1">
                 <Target size={14} />
-                 <span className="text-xs font-bold uppercase">分心次数</span>
+                 <span className="text-xs font-bold uppercase">{t('stats.distractions')}</span>
               </div>
-              <span className="text-lg font-bold">{stats.distractionCount} 次</span>
+              <span className="text-lg font-bold">{stats.distractionCount} {t('common.times')}</span>
+            </div>
+          </div>
+
+          <div className="mt-3 bg-black/20 backdrop-blur-md px-4 py-3 rounded-2xl flex items-center justify-between border border-white/5">
+            <div className="flex items-center gap-2 text-indigo-200">
+              <Flame size={14} className={dayStreak > 0 ? 'text-orange-400' : ''} />
+              <span className="text-xs font-bold">{dayStreak > 0 ? t('stats.streak', { days: dayStreak }) : t('stats.streakStart')}</span>
             </div>
+            <span className="text-[10px] text-indigo-300">{t('stats.longestStreak', { days: stats.dayStreak.longest })}</span>
           </div>
         </div>
       </div>
 
+      {/* Score Breakdown */}
+      {breakdown && breakdown.items.length > 0 && (
+        <div className="bg-gray-800/50 rounded-2xl border border-white/5 p-4 space-y-2">
+          <div className="flex justify-between items-center mb-1">
+            <span className="text-xs font-bold text-gray-400">{t('stats.breakdown')}</span>
+            <span className="text-[10px] text-gray-500 bg-black/20 px-2 py-0.5 rounded-md">{breakdown.profileName}</span>
+          </div>
+          {breakdown.items.map(item => (
+            <div key={item.label} className="flex items-center justify-between text-xs">
+              <span className="text-gray-300">
+                {item.label}
+                {item.detail && <span className="text-gray-500"> · {item.detail}</span>}
+              </span>
+              <span className={`font-mono font-bold ${item.points < 0 ? 'text-red-400' : 'text-green-400'}`}>
+                {item.points > 0 ? '+' : ''}{item.points}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Subject Breakdown */}
+      {subjectRows.length > 0 && (
+        <div>
+          <h3 className="text-white font-bold text-lg flex items-center gap-2 mb-4 px-1">
+            <div className="p-1.5 rounded-lg bg-purple-500/20">
+              <BookOpen className="text-purple-400" size={16} />
+            </div>
+            {t('stats.subjects')}
+          </h3>
+          <div className="space-y-2">
+            {subjectRows.map(task => {
+              const taskStats = stats.taskStats[task.id];
+              const minutes = Math.floor(taskStats.focusSeconds / 60);
+              const progress = task.targetMinutes ? Math.min(1, minutes / task.targetMinutes) : null;
+              return (
+                <div key={task.id} className="bg-gray-800/50 rounded-2xl border border-white/5 p-3">
+                  <div className="flex justify-between items-center">
+                    <span className="text-sm font-bold text-gray-100">{task.icon} {taskName(task)}</span>
+                    <span className="text-xs text-gray-400">
+                      {task.targetMinutes ? `${minutes} / ${task.targetMinutes} ${t('common.minutes')}` : formatTime(taskStats.focusSeconds)}
+                      <span className="text-gray-600"> · {t('reports.distractedTimes', { count: taskStats.distractionCount })}</span>
+                    </span>
+                  </div>
+                  {progress !== null && (
+                    <div className="h-1.5 w-full bg-black/30 rounded-full overflow-hidden mt-2">
+                      <div className={`h-full rounded-full ${progress >= 1 ? 'bg-green-500' : 'bg-purple-500'}`} style={{ width: `${progress * 100}%` }} />
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
       {/* Badges Section */}
       <div>
         <div className="flex items-center justify-between mb-4 px-1">
@@ -67,16 +194,18 @@ const StatsView: React.FC<StatsViewProps> = ({ stats }) => {
              <div className="p-1.5 rounded-lg bg-yellow-500/20">
                <Star className="text-yellow-400" size={16} fill="currentColor" />
              </div>
-             成就徽章
+             {t('stats.badges')}
            </h3>
            <span className="text-xs text-gray-500 bg-gray-800 px-2 py-1 rounded-md">
-             {earnedBadgeIds.length} / {BADGES.length}
+             {unlockedCount} / {visibleBadges.length}
            </span>
         </div>
         
         <div className="grid grid-cols-2 gap-3">
-          {BADGES.map((badge) => {
-            const isUnlocked = earnedBadgeIds.includes(badge.id);
+          {visibleBadges.map((badge) => {
+            const isUnlocked = isBadgeUnlocked(badge, stats.badges);
+            const tiers = unlockedTiers(badge, stats.badges);
+            const progress = getBadgeProgress(badge, stats);
             return (
               <div 
                 key={badge.id}
@@ -91,6 +220,11 @@ const StatsView: React.FC<StatsViewProps> = ({ stats }) => {
                     {badge.icon}
                   </div>
                   {!isUnlocked && <Lock size={14} className="text-gray-600" />}
+                  {tiers.length > 0 && (
+                    <span className="text-[10px] font-bold text-yellow-400 bg-yellow-500/10 px-2 py-0.5 rounded-full">
+                      {TIER_LABELS[tiers[tiers.length - 1]]}
+                    </span>
+                  )}
                 </div>
                 
                 <div>
@@ -101,6 +235,17 @@ const StatsView: React.FC<StatsViewProps> = ({ stats }) => {
                     {badge.description}
                   </p>
                 </div>
+
+                {progress && (
+                  <div className="mt-3 space-y-1">
+                    <div className="h-1 w-full bg-black/30 rounded-full overflow-hidden">
+                      <div className="h-full rounded-full bg-yellow-500/70" style={{ width: `${progress.ratio * 100}%` }} />
+                    </div>
+                    <p className="text-[10px] text-gray-400 font-mono">
+                      {progress.nextTier && isUnlocked ? `${TIER_LABELS[progress.nextTier]} ` : ''}{progress.label}
+                    </p>
+                  </div>
+                )}
                 
                 {isUnlocked && (
                     <div className="absolute -bottom-4 -right-4 w-12 h-12 bg-yellow-500/20 blur-xl rounded-full"></div>
@@ -118,10 +263,31 @@ const StatsView: React.FC<StatsViewProps> = ({ stats }) => {
             <div className="p-1.5 rounded-lg bg-orange-500/20">
                <Medal className="text-orange-400" size={16} />
             </div>
-            好友排行
+            {t('leaderboard.title')}
           </h3>
-          <span className="text-[10px] font-bold text-gray-500 bg-black/20 px-2 py-1 rounded-md uppercase tracking-wide">Weekly</span>
+          <span className="text-[10px] font-bold text-gray-500 bg-black/20 px-2 py-1 rounded-md uppercase tracking-wide" title={t('leaderboard.weeklyReset')}>
+            {t('leaderboard.weekly')}{ranking ? ` · ${t('leaderboard.since', { date: ranking.weekStart.slice(5).replace('-', '/') })}` : ''}
+          </span>
         </div>
+        {groups.length > 1 && (
+          <div className="flex gap-2 px-5 py-3 border-b border-white/5 overflow-x-auto no-scrollbar">
+            {groups.map(group => (
+              <button
+                key={group}
+                onClick={() => setActiveGroup(group)}
+                className={`shrink-0 px-3 py-1 rounded-full text-[11px] font-bold border transition-colors ${
+                  group === activeGroup ? 'bg-orange-500/20 border-orange-500/40 text-orange-300' : 'bg-black/20 border-white/5 text-gray-400 hover:bg-white/5'
+                }`}
+              >
+                {groupLabel(group)}
+              </button>
+            ))}
+          </div>
+        )}
+        {rankingError && <p className="px-5 py-4 text-xs text-red-400">{rankingError}</p>}
+        {!leaderboardSettings.enabled && (
+          <p className="px-5 pt-4 text-[11px] text-gray-500">{t('leaderboard.joinHint')}</p>
+        )}
         <div className="divide-y divide-white/5">
           {leaderboard.map((entry, index) => (
             <div 
@@ -146,10 +312,10 @@ const StatsView: React.FC<StatsViewProps> = ({ stats }) => {
               
               <div className="flex-1 min-w-0">
                 <p className={`text-sm font-bold truncate ${entry.isCurrentUser ? 'text-indigo-300' : 'text-gray-200'}`}>
-                    {entry.name} {entry.isCurrentUser && '(我)'}
+                    {entry.name} {entry.isCurrentUser && t('leaderboard.me')}
                 </p>
                 <p className="text-[10px] text-gray-500">
-                    专注于 {Math.round(entry.score * 0.4)} 分钟
+                    {t('leaderboard.daysActive', { days: entry.daysActive ?? 0 })}
                 </p>
               </div>
               
@@ -1,15 +1,31 @@
 
 import React from 'react';
 import { FocusStatus } from '../types';
-import { CheckCircle2, AlertTriangle, UserX, Activity, BrainCircuit } from 'lucide-react';
+import { CheckCircle2, AlertTriangle, UserX, Activity, BrainCircuit, Coffee, CloudOff } from 'lucide-react';
+import { t } from '../services/i18n';
 
 interface StatusIndicatorProps {
   status: FocusStatus;
   message?: string;
+  onBreak?: boolean; // Study plan break: detection is paused
+  degraded?: string | null; // Analysis is failing; the status shown is the last good one
 }
 
-const StatusIndicator: React.FC<StatusIndicatorProps> = ({ status, message }) => {
+const StatusIndicator: React.FC<StatusIndicatorProps> = ({ status, message, onBreak, degraded }) => {
   const getStatusConfig = () => {
+    if (onBreak) {
+      return {
+        bg: 'bg-amber-500/10',
+        border: 'border-amber-500/30',
+        iconBg: 'bg-amber-500',
+        shadow: 'shadow-amber-500/20',
+        icon: <Coffee className="w-8 h-8 text-white" />,
+        label: t('status.onBreak'),
+        text: 'text-amber-400',
+        subtext: 'text-amber-200/60'
+      };
+    }
+
     switch (status) {
       case FocusStatus.FOCUSED:
         return {
@@ -18,7 +34,7 @@ const StatusIndicator: React.FC<StatusIndicatorProps> = ({ status, message }) =>
           iconBg: 'bg-green-500',
           shadow: 'shadow-green-500/20',
           icon: <CheckCircle2 className="w-8 h-8 text-white" />,
-          label: '专注中',
+          label: t('status.focused'),
           text: 'text-green-400',
           subtext: 'text-green-200/60'
         };
@@ -29,7 +45,7 @@ const StatusIndicator: React.FC<StatusIndicatorProps> = ({ status, message }) =>
           iconBg: 'bg-red-500',
           shadow: 'shadow-red-500/20',
           icon: <AlertTriangle className="w-8 h-8 text-white" />,
-          label: '分心了',
+          label: t('status.distracted'),
           text: 'text-red-400',
           subtext: 'text-red-200/60'
         };
@@ -40,7 +56,7 @@ const StatusIndicator: React.FC<StatusIndicatorProps> = ({ status, message }) =>
           iconBg: 'bg-yellow-500',
           shadow: 'shadow-yellow-500/20',
           icon: <UserX className="w-8 h-8 text-white" />,
-          label: '无人',
+          label: t('status.absent'),
           text: 'text-yellow-400',
           subtext: 'text-yellow-200/60'
         };
@@ -51,7 +67,7 @@ const StatusIndicator: React.FC<StatusIndicatorProps> = ({ status, message }) =>
           iconBg: 'bg-gray-600',
           shadow: 'shadow-gray-500/20',
           icon: <AlertTriangle className="w-8 h-8 text-white" />,
-          label: '连接错误',
+          label: t('status.error'),
           text: 'text-gray-400',
           subtext: 'text-gray-500'
         };
@@ -62,7 +78,7 @@ const StatusIndicator: React.FC<StatusIndicatorProps> = ({ status, message }) =>
           iconBg: 'bg-blue-600',
           shadow: 'shadow-blue-500/20',
           icon: <BrainCircuit className="w-8 h-8 text-white" />,
-          label: '等待开始',
+          label: t('status.idle'),
           text: 'text-blue-400',
           subtext: 'text-blue-200/60'
         };
@@ -85,13 +101,23 @@ const StatusIndicator: React.FC<StatusIndicatorProps> = ({ status, message }) =>
         <h2 className={`text-2xl font-bold tracking-tight ${config.text} transition-colors duration-300`}>
           {config.label}
         </h2>
-        {message ? (
+        {onBreak ? (
+          <p className={`mt-1 text-sm ${config.subtext}`}>
+            {t('status.breakHint')}
+          </p>
+        ) : message ? (
           <p className="mt-1 text-gray-300 text-sm opacity-90 truncate leading-relaxed">
             "{message}"
           </p>
         ) : (
           <p className={`mt-1 text-sm ${config.subtext}`}>
-            AI 正在监看中...
+            {t('status.watching')}
+          </p>
+        )}
+        {degraded && !onBreak && (
+          <p className="mt-1 text-[11px] text-amber-300/90 flex items-center gap-1 truncate">
+            <CloudOff size={12} className="shrink-0" />
+            {t('status.degraded', { reason: degraded })}
           </p>
         )}
       </div>
@@ -0,0 +1,68 @@
+import React from 'react';
+import { Timer } from 'lucide-react';
+import { StudyPlanConfig } from '../types';
+import { STUDY_PLAN_PRESETS } from '../services/studyPlan';
+import NumberField from './NumberField';
+import { t } from '../services/i18n';
+
+interface StudyPlanSettingsProps {
+  value: StudyPlanConfig;
+  onChange: (config: StudyPlanConfig) => void;
+  disabled?: boolean;
+}
+
+const StudyPlanSettings: React.FC<StudyPlanSettingsProps> = ({ value, onChange, disabled }) => {
+  const update = (patch: Partial<StudyPlanConfig>) => onChange({ ...value, ...patch });
+
+  return (
+    <div className={`bg-gray-800/60 backdrop-blur-md p-5 rounded-2xl border border-white/5 shadow-lg space-y-4 ${disabled ? 'opacity-60 pointer-events-none' : ''}`}>
+      <div className="flex items-center justify-between">
+        <div className="space-y-1">
+          <h3 className="font-bold text-gray-100 flex items-center gap-2">
+            <div className="p-1.5 rounded-lg bg-blue-500/20">
+              <Timer className="w-4 h-4 text-blue-400" />
+            </div>
+            {t('studyPlan.title')}
+          </h3>
+          <p className="text-xs text-gray-400">
+            {disabled ? t('common.lockedWhileMonitoringEdit') : t('studyPlan.hint')}
+          </p>
+        </div>
+        <button
+          onClick={() => update({ enabled: !value.enabled })}
+          className={`w-14 h-8 rounded-full transition-all duration-300 relative shrink-0 focus:outline-none focus:ring-2 focus:ring-blue-500/50 ${value.enabled ? 'bg-blue-600 shadow-inner' : 'bg-gray-700'}`}
+        >
+          <div className={`absolute top-1 w-6 h-6 bg-white rounded-full shadow-md transition-all duration-300 ${value.enabled ? 'left-7' : 'left-1'}`}></div>
+        </button>
+      </div>
+
+      {value.enabled && (
+        <div className="space-y-3 pt-2 border-t border-white/5">
+          <div className="flex gap-2">
+            {STUDY_PLAN_PRESETS.map((preset) => {
+              const isActive = preset.workMinutes === value.workMinutes && preset.breakMinutes === value.breakMinutes;
+              return (
+                <button
+                  key={preset.label}
+                  onClick={() => update({ workMinutes: preset.workMinutes, breakMinutes: preset.breakMinutes })}
+                  className={`flex-1 py-1.5 rounded-full text-xs font-bold border transition-colors ${
+                    isActive ? 'bg-blue-500/20 border-blue-500/40 text-blue-300' : 'bg-black/20 border-white/5 text-gray-400 hover:bg-white/5'
+                  }`}
+                >
+                  {preset.label}
+                </button>
+              );
+            })}
+          </div>
+          <div className="flex gap-2">
+            <NumberField label={t('studyPlan.work')} suffix={t('common.minutes')} value={value.workMinutes} min={1} max={120} onChange={(v) => update({ workMinutes: v })} />
+            <NumberField label={t('studyPlan.break')} suffix={t('common.minutes')} value={value.breakMinutes} min={1} max={60} onChange={(v) => update({ breakMinutes: v })} />
+            <NumberField label={t('studyPlan.rounds')} suffix={value.rounds === 0 ? t('studyPlan.unlimited') : t('studyPlan.roundUnit')} value={value.rounds} min={0} max={12} onChange={(v) => update({ rounds: v })} />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StudyPlanSettings;
@@ -0,0 +1,39 @@
+import React from 'react';
+import { Timer, Coffee } from 'lucide-react';
+import { PhaseState, formatCountdown } from '../services/studyPlan';
+import { t } from '../services/i18n';
+
+interface StudyTimerProps {
+  phase: PhaseState;
+}
+
+const StudyTimer: React.FC<StudyTimerProps> = ({ phase }) => {
+  const isBreak = phase.phase === 'break';
+  const duration = phase.phaseEndsAt - phase.phaseStartedAt;
+  const progress = duration > 0 && isFinite(duration) ? 1 - phase.remainingMs / duration : 1;
+
+  return (
+    <div className={`flex items-center gap-3 px-4 py-2.5 rounded-2xl border backdrop-blur-md ${
+      isBreak ? 'bg-amber-500/10 border-amber-500/30' : 'bg-black/40 border-white/10'
+    }`}>
+      {isBreak ? <Coffee size={16} className="text-amber-400 shrink-0" /> : <Timer size={16} className="text-blue-400 shrink-0" />}
+      <div className="flex-1 min-w-0">
+        <div className="flex justify-between items-baseline">
+          <span className={`text-[11px] font-bold tracking-wide ${isBreak ? 'text-amber-300' : 'text-gray-300'}`}>
+            {isBreak ? t('studyTimer.break') : t('studyTimer.work')}
+            {' · '}{phase.totalRounds > 0 ? t('studyTimer.roundOf', { round: phase.round, total: phase.totalRounds }) : t('studyTimer.round', { round: phase.round })}
+          </span>
+          <span className="font-mono text-lg font-bold text-white">{formatCountdown(phase.remainingMs)}</span>
+        </div>
+        <div className="h-1 w-full bg-white/10 rounded-full overflow-hidden mt-1">
+          <div
+            className={`h-full rounded-full transition-all duration-1000 ${isBreak ? 'bg-amber-400' : 'bg-blue-500'}`}
+            style={{ width: `${Math.min(100, progress * 100)}%` }}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StudyTimer;
@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { BookOpen, Plus, Trash2 } from 'lucide-react';
+import { StudyTask } from '../types';
+import { TASK_ICONS, createTaskId, taskName } from '../services/tasks';
+import { t } from '../services/i18n';
+
+interface TaskManagerProps {
+  tasks: StudyTask[];
+  onChange: (tasks: StudyTask[]) => void;
+}
+
+const TaskManager: React.FC<TaskManagerProps> = ({ tasks, onChange }) => {
+  const [newName, setNewName] = useState('');
+
+  const updateTask = (id: string, patch: Partial<StudyTask>) => {
+    onChange(tasks.map(t => (t.id === id ? { ...t, ...patch } : t)));
+  };
+
+  const cycleIcon = (task: StudyTask) => {
+    const next = TASK_ICONS[(TASK_ICONS.indexOf(task.icon) + 1) % TASK_ICONS.length];
+    updateTask(task.id, { icon: next });
+  };
+
+  const addTask = () => {
+    const name = newName.trim();
+    if (!name) return;
+    onChange([...tasks, { id: createTaskId(), name, icon: TASK_ICONS[tasks.length % TASK_ICONS.length] }]);
+    setNewName('');
+  };
+
+  return (
+    <div className="bg-gray-800/60 backdrop-blur-md p-5 rounded-2xl border border-white/5 shadow-lg space-y-4">
+      <div className="space-y-1">
+        <h3 className="font-bold text-gray-100 flex items-center gap-2">
+          <div className="p-1.5 rounded-lg bg-purple-500/20">
+            <BookOpen className="w-4 h-4 text-purple-400" />
+          </div>
+          {t('tasks.title')}
+        </h3>
+        <p className="text-xs text-gray-400">{t('tasks.hint')}</p>
+      </div>
+
+      <div className="space-y-2">
+        {tasks.map(task => (
+          <div key={task.id} className="flex items-center gap-2 bg-black/20 rounded-xl border border-white/5 p-2">
+            <button onClick={() => cycleIcon(task)} className="w-8 h-8 rounded-lg hover:bg-white/5 text-lg shrink-0" title={t('tasks.changeIcon')}>
+              {task.icon}
+            </button>
+            <input
+              value={taskName(task)}
+              onChange={(e) => updateTask(task.id, { name: e.target.value })}
+              className="flex-1 min-w-0 bg-transparent text-sm font-bold text-gray-100 focus:outline-none"
+            />
+            <div className="flex items-baseline gap-1 shrink-0">
+              <input
+                type="number"
+                min={0}
+                max={240}
+                placeholder={t('tasks.target')}
+                value={task.targetMinutes ?? ''}
+                onChange={(e) => {
+                  const parsed = parseInt(e.target.value, 10);
+                  updateTask(task.id, { targetMinutes: isNaN(parsed) || parsed <= 0 ? undefined : parsed });
+                }}
+                className="w-12 bg-transparent text-right text-sm text-gray-300 focus:outline-none"
+              />
+              <span className="text-[10px] text-gray-500">{t('common.minutes')}</span>
+            </div>
+            <button
+              onClick={() => onChange(tasks.filter(t => t.id !== task.id))}
+              className="p-1.5 text-gray-500 hover:text-red-400 hover:bg-red-500/10 rounded-lg transition-colors shrink-0"
+              title={t('common.delete')}
+            >
+              <Trash2 size={14} />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex gap-2">
+        <input
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && addTask()}
+          placeholder={t('tasks.newPlaceholder')}
+          className="flex-1 min-w-0 bg-black/20 rounded-xl border border-white/5 px-3 py-2 text-sm text-gray-100 placeholder-gray-600 focus:outline-none focus:border-purple-500/40"
+        />
+        <button
+          onClick={addTask}
+          disabled={!newName.trim()}
+          className="px-3 rounded-xl bg-purple-600/80 hover:bg-purple-500 text-white disabled:opacity-40"
+        >
+          <Plus size={18} />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default TaskManager;
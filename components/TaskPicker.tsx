@@ -0,0 +1,47 @@
+import React from 'react';
+import { StudyTask, TaskStats } from '../types';
+import { taskName } from '../services/tasks';
+
+interface TaskPickerProps {
+  tasks: StudyTask[];
+  activeTaskId: string | null;
+  onSelect: (id: string | null) => void;
+  taskStats: Record<string, TaskStats>;
+  locked?: boolean; // While monitoring the subject cannot change
+}
+
+const TaskPicker: React.FC<TaskPickerProps> = ({ tasks, activeTaskId, onSelect, taskStats, locked }) => {
+  if (tasks.length === 0) return null;
+
+  const visible = locked ? tasks.filter(t => t.id === activeTaskId) : tasks;
+  if (visible.length === 0) return null;
+
+  return (
+    <div className="flex gap-2 overflow-x-auto no-scrollbar justify-center">
+      {visible.map(task => {
+        const isActive = task.id === activeTaskId;
+        const focusMinutes = Math.floor((taskStats[task.id]?.focusSeconds ?? 0) / 60);
+        return (
+          <button
+            key={task.id}
+            disabled={locked}
+            onClick={() => onSelect(isActive ? null : task.id)}
+            className={`shrink-0 flex items-center gap-1.5 px-3 py-1.5 rounded-full text-xs font-bold border transition-colors ${
+              isActive
+                ? 'bg-blue-500/20 border-blue-500/40 text-blue-200'
+                : 'bg-black/20 border-white/5 text-gray-400 hover:bg-white/5'
+            }`}
+          >
+            <span>{task.icon}</span>
+            <span>{taskName(task)}</span>
+            {task.targetMinutes ? (
+              <span className="font-mono text-[10px] text-gray-500">{focusMinutes}/{task.targetMinutes}′</span>
+            ) : null}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+export default TaskPicker;
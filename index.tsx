@@ -1,7 +1,8 @@
 
 import React from 'react';
 import ReactDOM from 'react-dom/client';
-import App from './App';
+import ProfileGate from './components/ProfileGate';
+import ParentDashboard from './components/ParentDashboard';
 import './index.css';
 
 const rootElement = document.getElementById('root');
@@ -9,9 +10,15 @@ if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+// Parent devices open the link from settings (?parent=1&relay=...&room=...) and get the read-only dashboard
+const params = new URLSearchParams(window.location.search);
+const isParentView = params.has('parent') && params.get('relay') && params.get('room');
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    {isParentView
+      ? <ParentDashboard relayUrl={params.get('relay')!} room={params.get('room')!} />
+      : <ProfileGate />}
   </React.StrictMode>
 );
@@ -0,0 +1,186 @@
+// Reference leaderboard server for friend groups and classes. No dependencies.
+//
+//   npm run leaderboard                      # listens on 0.0.0.0:8788
+//   PORT=9001 DATA_FILE=/var/lib/fg.json npm run leaderboard
+//
+// POST /api/scores       { group, playerId, name, avatar, date: "YYYY-MM-DD", score: 0-100 }
+// GET  /api/leaderboard?group=<code>[&week=YYYY-MM-DD]
+//
+// Rankings reset every Monday: a player's weekly score is the sum of their best
+// score on each day of the week divided by 7, so missed days count as zero.
+
+import { createServer } from 'node:http';
+import { readFileSync, writeFileSync, renameSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { dirname, join } from 'node:path';
+
+const PORT = Number(process.env.PORT) || 8788;
+const DATA_FILE = process.env.DATA_FILE || join(dirname(fileURLToPath(import.meta.url)), 'leaderboard-data.json');
+const KEEP_WEEKS = 8;
+const MAX_BODY_BYTES = 4 * 1024;
+
+// Ids come from clients, so every keyed level is a prototype-less object
+const dict = () => Object.create(null);
+const RESERVED_KEYS = new Set(['__proto__', 'constructor', 'prototype']);
+const isSafeKey = (value) => typeof value === 'string' && value.length > 0 && !RESERVED_KEYS.has(value);
+
+// Drops reserved keys a hand-edited or older data file might contain
+const toDict = (value, depth) => {
+  const result = dict();
+  if (!value || typeof value !== 'object') return result;
+  for (const [key, child] of Object.entries(value)) {
+    if (isSafeKey(key)) result[key] = depth > 0 ? toDict(child, depth - 1) : child;
+  }
+  return result;
+};
+
+const loadPlayers = (players) => {
+  const result = toDict(players, 0);
+  for (const id of Object.keys(result)) {
+    const { name, avatar, days } = result[id] ?? {};
+    result[id] = { name: String(name ?? ''), avatar: String(avatar ?? ''), days: toDict(days, 0) };
+  }
+  return result;
+};
+
+// { [group]: { [weekStart]: { [playerId]: { name, avatar, days: { [date]: score } } } } }
+let data = dict();
+try {
+  const saved = toDict(JSON.parse(readFileSync(DATA_FILE, 'utf8')), 0);
+  for (const group of Object.keys(saved)) {
+    const weeks = toDict(saved[group], 0);
+    for (const week of Object.keys(weeks)) weeks[week] = loadPlayers(weeks[week]);
+    data[group] = weeks;
+  }
+} catch {
+  data = dict();
+}
+
+let saveTimer = null;
+const scheduleSave = () => {
+  if (saveTimer) return;
+  saveTimer = setTimeout(() => {
+    saveTimer = null;
+    // Write to a temp file first so a crash never leaves half a JSON document
+    writeFileSync(`${DATA_FILE}.tmp`, JSON.stringify(data));
+    renameSync(`${DATA_FILE}.tmp`, DATA_FILE);
+  }, 1000);
+};
+
+const pad = (n) => String(n).padStart(2, '0');
+const toDateKey = (d) => `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+
+const weekStartOf = (dateKey) => {
+  const [y, m, d] = dateKey.split('-').map(Number);
+  const date = new Date(y, m - 1, d);
+  const offset = (date.getDay() + 6) % 7; // 0 = Monday
+  return toDateKey(new Date(y, m - 1, d - offset));
+};
+
+const isDateKey = (value) => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(value));
+
+const pruneOldWeeks = (weeks) => {
+  Object.keys(weeks).sort().slice(0, -KEEP_WEEKS).forEach((week) => delete weeks[week]);
+};
+
+const recordScore = ({ group, playerId, name, avatar, date, score }) => {
+  const week = weekStartOf(date);
+  const weeks = (data[group] ??= dict());
+  const players = (weeks[week] ??= dict());
+  const player = (players[playerId] ??= { name, avatar, days: dict() });
+  player.name = name;
+  player.avatar = avatar;
+  player.days[date] = Math.max(player.days[date] ?? 0, score);
+  pruneOldWeeks(weeks);
+  scheduleSave();
+};
+
+const ranking = (group, week) => {
+  const players = data[group]?.[week] ?? dict();
+  return Object.entries(players)
+    .map(([id, p]) => {
+      const scores = Object.values(p.days);
+      return {
+        id,
+        name: p.name,
+        avatar: p.avatar,
+        score: Math.round(scores.reduce((sum, s) => sum + s, 0) / 7),
+        daysActive: scores.length,
+      };
+    })
+    .sort((a, b) => b.score - a.score);
+};
+
+const sendJson = (res, status, body) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json; charset=utf-8',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+};
+
+const readBody = (req) =>
+  new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', (chunk) => {
+      body += chunk;
+      if (body.length > MAX_BODY_BYTES) {
+        reject(new Error('Body too large'));
+        req.destroy();
+      }
+    });
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+
+const handleRequest = async (req, res) => {
+  const url = new URL(req.url ?? '/', 'http://leaderboard');
+
+  if (req.method === 'OPTIONS') return sendJson(res, 204);
+
+  if (req.method === 'POST' && url.pathname === '/api/scores') {
+    let submission;
+    try {
+      submission = JSON.parse(await readBody(req));
+    } catch {
+      return sendJson(res, 400, { error: 'Invalid JSON' });
+    }
+    const { group, playerId, name, avatar, date, score } = submission ?? {};
+    if (
+      typeof group !== 'string' || !isSafeKey(group.trim()) ||
+      !isSafeKey(playerId) ||
+      typeof name !== 'string' || typeof avatar !== 'string' ||
+      !isDateKey(date) ||
+      typeof score !== 'number' || score < 0 || score > 100
+    ) {
+      return sendJson(res, 400, { error: 'Invalid score submission' });
+    }
+    recordScore({ group: group.trim(), playerId, name: name.slice(0, 20), avatar: avatar.slice(0, 8), date, score: Math.round(score) });
+    return sendJson(res, 204);
+  }
+
+  if (req.method === 'GET' && url.pathname === '/api/leaderboard') {
+    const group = url.searchParams.get('group')?.trim();
+    if (!isSafeKey(group)) return sendJson(res, 400, { error: 'group is required' });
+    const requestedWeek = url.searchParams.get('week');
+    const week = isDateKey(requestedWeek) ? weekStartOf(requestedWeek) : weekStartOf(toDateKey(new Date()));
+    return sendJson(res, 200, { weekStart: week, entries: ranking(group, week) });
+  }
+
+  sendJson(res, 404, { error: 'Not found' });
+};
+
+// A bad request must never take the server down for everyone else
+const server = createServer((req, res) => {
+  handleRequest(req, res).catch((error) => {
+    console.error('Request failed', error);
+    if (res.headersSent) return res.destroy();
+    sendJson(res, 500, { error: 'Internal error' });
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`Focus Guardian leaderboard listening on http://0.0.0.0:${PORT} (data: ${DATA_FILE})`);
+});
@@ -0,0 +1,122 @@
+// Minimal LAN relay between the monitoring device and parent dashboards.
+//
+//   npm run relay               # listens on 0.0.0.0:8787
+//   PORT=9000 npm run relay
+//
+// Clients connect to ws://<host>:<port>/?room=<code>&role=publisher|viewer.
+// Publishers (the child's device) send RelayMessage JSON; the relay forwards it to
+// every viewer in the same room and keeps the latest state so late viewers get a snapshot.
+// Viewers are read-only: anything they send is ignored.
+
+import { WebSocketServer } from 'ws';
+
+const PORT = Number(process.env.PORT) || 8787;
+const MAX_LOGS = 50;
+const MAX_MESSAGE_BYTES = 64 * 1024;
+const SWEEP_INTERVAL_MS = 10 * 60 * 1000;
+// A room nobody is connected to keeps its last state this long for late viewers
+const STATE_TTL_MS = 24 * 60 * 60 * 1000;
+
+/** @type {Map<string, { viewers: Set<import('ws').WebSocket>, publishers: number, lastActivity: number, status: object | null, stats: object | null, logs: object[] }>} */
+const rooms = new Map();
+
+const getRoom = (code) => {
+  let room = rooms.get(code);
+  if (!room) {
+    room = { viewers: new Set(), publishers: 0, lastActivity: Date.now(), status: null, stats: null, logs: [] };
+    rooms.set(code, room);
+  }
+  return room;
+};
+
+const hasState = (room) => room.status !== null || room.stats !== null || room.logs.length > 0;
+
+const send = (socket, message) => {
+  if (socket.readyState === socket.OPEN) socket.send(JSON.stringify(message));
+};
+
+const remember = (room, message) => {
+  switch (message.type) {
+    case 'status': {
+      const { type, ...status } = message;
+      room.status = status;
+      return true;
+    }
+    case 'stats':
+      room.stats = message.stats;
+      return true;
+    case 'log':
+      room.logs = [message.entry, ...room.logs].slice(0, MAX_LOGS);
+      return true;
+    case 'alert':
+      return true; // Forwarded live only
+    default:
+      return false;
+  }
+};
+
+const wss = new WebSocketServer({ port: PORT, maxPayload: MAX_MESSAGE_BYTES });
+
+// Without a listener, a server error would be thrown and end the process
+wss.on('error', (error) => console.error('Relay server error', error));
+
+wss.on('connection', (socket, request) => {
+  // An oversized or malformed frame emits 'error' on its socket; only that client is dropped.
+  // 'close' still fires afterwards, so the room bookkeeping below runs as usual.
+  socket.on('error', (error) => {
+    console.warn(`Dropping relay client: ${error.message}`);
+    socket.terminate();
+  });
+
+  const params = new URL(request.url ?? '/', 'http://relay').searchParams;
+  const code = (params.get('room') ?? '').trim();
+  const role = params.get('role');
+
+  if (!code || (role !== 'publisher' && role !== 'viewer')) {
+    socket.close(1008, 'room and role are required');
+    return;
+  }
+
+  const room = getRoom(code);
+  room.lastActivity = Date.now();
+
+  if (role === 'viewer') {
+    room.viewers.add(socket);
+    send(socket, { type: 'snapshot', status: room.status, stats: room.stats, logs: room.logs });
+    socket.on('close', () => {
+      room.viewers.delete(socket);
+      room.lastActivity = Date.now();
+    });
+    return;
+  }
+
+  room.publishers += 1;
+  socket.on('close', () => {
+    room.publishers -= 1;
+    room.lastActivity = Date.now();
+  });
+
+  socket.on('message', (data) => {
+    let message;
+    try {
+      message = JSON.parse(data.toString());
+    } catch {
+      return;
+    }
+    if (!message || !remember(room, message)) return;
+    room.lastActivity = Date.now();
+    room.viewers.forEach((viewer) => send(viewer, message));
+  });
+});
+
+// Drop rooms nobody is connected to: straight away when there is nothing to replay, otherwise
+// once their state has gone stale, so a long-running relay does not accumulate rooms
+setInterval(() => {
+  const now = Date.now();
+  rooms.forEach((room, code) => {
+    if (room.viewers.size > 0 || room.publishers > 0) return;
+    if (!hasState(room) || now - room.lastActivity > STATE_TTL_MS) rooms.delete(code);
+  });
+}, SWEEP_INTERVAL_MS).unref();
+
+console.log(`Focus Guardian relay listening on ws://0.0.0.0:${PORT}`);
@@ -0,0 +1,53 @@
+import { AnalysisResult, DistractionReason, PostureIssue } from "../types";
+import { translated } from "./i18n";
+
+// The extra fields an analyzer may add to a reading, carried through to the log
+export type ReadingDetails = Pick<AnalysisResult, "reason" | "posture" | "materialsVisible">;
+
+export const DISTRACTION_REASONS: { id: DistractionReason; prompt: string }[] = [
+  { id: "phone", prompt: "using a phone or tablet" },
+  { id: "toy", prompt: "playing with a toy or other object" },
+  { id: "talking", prompt: "talking to someone" },
+  { id: "sleeping", prompt: "sleeping or resting the head with eyes closed" },
+  { id: "lookingAway", prompt: "looking away from the homework" },
+  { id: "leftSeat", prompt: "not at the desk" },
+  { id: "other", prompt: "anything else" },
+];
+
+export const POSTURE_ISSUES: { id: PostureIssue; prompt: string }[] = [
+  { id: "slouching", prompt: "lying on the desk or slouching heavily while writing" },
+  { id: "tooClose", prompt: "eyes much closer to the page than a forearm's length" },
+];
+
+const REASON_LABELS = translated<DistractionReason>({
+  phone: "reason.phone",
+  toy: "reason.toy",
+  talking: "reason.talking",
+  sleeping: "reason.sleeping",
+  lookingAway: "reason.lookingAway",
+  leftSeat: "reason.leftSeat",
+  other: "reason.other",
+});
+
+const POSTURE_LABELS = translated<PostureIssue>({
+  slouching: "posture.slouching",
+  tooClose: "posture.tooClose",
+});
+
+export const reasonLabel = (reason: DistractionReason) => REASON_LABELS[reason] ?? reason;
+
+export const postureLabel = (issue: PostureIssue) => POSTURE_LABELS[issue] ?? issue;
+
+const REASON_IDS = DISTRACTION_REASONS.map((r) => r.id);
+const POSTURE_IDS = POSTURE_ISSUES.map((p) => p.id);
+
+// Lenient on purpose: a bad optional field is dropped rather than failing the whole reading
+export const parseDetails = (data: Record<string, unknown>): ReadingDetails => {
+  const details: ReadingDetails = {};
+  if (REASON_IDS.includes(data.reason as DistractionReason)) details.reason = data.reason as DistractionReason;
+  if (Array.isArray(data.posture)) {
+    details.posture = [...new Set(data.posture.filter((p): p is PostureIssue => POSTURE_IDS.includes(p)))];
+  }
+  if (typeof data.materialsVisible === "boolean") details.materialsVisible = data.materialsVisible;
+  return details;
+};
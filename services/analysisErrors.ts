@@ -0,0 +1,105 @@
+import { AnalysisResult, FocusStatus } from "../types";
+import { parseDetails } from "./analysisDetails";
+import { t, translated } from "./i18n";
+
+export type AnalysisErrorKind =
+  | "missingKey" // No API key configured; retrying cannot help
+  | "auth" // Key rejected (401/403)
+  | "rateLimit" // Quota exhausted or too many requests (429)
+  | "network" // Offline, DNS, timeouts, 5xx
+  | "malformed" // Response was not valid JSON or did not match the schema
+  | "invalidFrame" // The camera handed over an empty frame; transient and not the API's fault
+  | "unknown";
+
+export const ANALYSIS_ERROR_LABELS = translated<AnalysisErrorKind>({
+  missingKey: "error.missingKey",
+  auth: "error.auth",
+  rateLimit: "error.rateLimit",
+  network: "error.network",
+  malformed: "error.malformed",
+  invalidFrame: "error.invalidFrame",
+  unknown: "error.unknown",
+});
+
+// Retrying with the same configuration is pointless for these
+const PERMANENT: AnalysisErrorKind[] = ["missingKey", "auth"];
+
+export class AnalysisError extends Error {
+  readonly kind: AnalysisErrorKind;
+  readonly retryAfterMs: number | null; // Server-suggested wait, when it sent one
+
+  constructor(kind: AnalysisErrorKind, message: string, retryAfterMs: number | null = null) {
+    super(message);
+    this.name = "AnalysisError";
+    this.kind = kind;
+    this.retryAfterMs = retryAfterMs;
+  }
+
+  get permanent(): boolean {
+    return PERMANENT.includes(this.kind);
+  }
+}
+
+// Gemini puts the suggested wait in the error body, e.g. "retryDelay": "37s"
+const parseRetryAfter = (message: string): number | null => {
+  const match = /retry(?:Delay"?:\s*"?| in )(\d+(?:\.\d+)?)s/i.exec(message);
+  return match ? Math.ceil(parseFloat(match[1]) * 1000) : null;
+};
+
+// Maps whatever the SDK or fetch threw onto a category the UI and the circuit breaker understand
+export const classifyError = (error: unknown): AnalysisError => {
+  if (error instanceof AnalysisError) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+  const status = typeof (error as { status?: unknown })?.status === "number" ? (error as { status: number }).status : null;
+
+  if (error instanceof SyntaxError) return new AnalysisError("malformed", message);
+  if (status === 401 || status === 403 || /API key not valid|PERMISSION_DENIED|UNAUTHENTICATED/i.test(message)) {
+    return new AnalysisError("auth", message);
+  }
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) {
+    return new AnalysisError("rateLimit", message, parseRetryAfter(message));
+  }
+  if ((status !== null && status >= 500) || /fetch failed|Failed to fetch|NetworkError|network|timed? ?out|ECONN|ENOTFOUND/i.test(message)) {
+    return new AnalysisError("network", message);
+  }
+  if (typeof navigator !== "undefined" && navigator.onLine === false) return new AnalysisError("network", message);
+  return new AnalysisError("unknown", message);
+};
+
+const MODEL_STATUSES = [FocusStatus.FOCUSED, FocusStatus.DISTRACTED, FocusStatus.ABSENT];
+
+// The schema is only a request to the model; check what actually came back
+export const validateAnalysisResult = (data: unknown): AnalysisResult => {
+  if (!data || typeof data !== "object") throw new AnalysisError("malformed", "Response is not an object");
+  const fields = data as Record<string, unknown>;
+  const { status, message, confidence } = fields;
+
+  if (!MODEL_STATUSES.includes(status as FocusStatus)) {
+    throw new AnalysisError("malformed", `Unexpected status: ${JSON.stringify(status)}`);
+  }
+  if (typeof message !== "string") throw new AnalysisError("malformed", "Missing message");
+  if (typeof confidence !== "number" || !Number.isFinite(confidence)) {
+    throw new AnalysisError("malformed", "Missing confidence");
+  }
+
+  const { reason, ...details } = parseDetails(fields);
+  return {
+    status: status as FocusStatus,
+    message: message.trim(),
+    confidence: Math.min(1, Math.max(0, confidence)),
+    ...details,
+    // A reason on a FOCUSED reading is noise
+    ...(reason && status !== FocusStatus.FOCUSED ? { reason } : {}),
+  };
+};
+
+// Shown under the last good status while analysis is unavailable
+export const describeOutage = (error: AnalysisError): string => {
+  const label = ANALYSIS_ERROR_LABELS[error.kind];
+  if (error.permanent) return t("error.checkSettings", { label });
+  if (error.retryAfterMs && error.retryAfterMs >= 60_000) {
+    return t("error.retryInMinutes", { label, minutes: Math.ceil(error.retryAfterMs / 60_000) });
+  }
+  return t("error.retrySoon", { label });
+};
@@ -0,0 +1,66 @@
+import { AnalysisProvider, AnalysisProviderId, PromptConfig } from "../types";
+import { AnalyzeOptions, createGeminiProvider } from "./monitorService";
+import { FeedbackHints } from "./feedback";
+import { createReplayProvider } from "./replayProvider";
+import { createLocalProvider, createHybridProvider } from "./localVision";
+import { t } from "./i18n";
+
+export interface AnalysisProviderOption {
+  id: AnalysisProviderId;
+  name: string;
+  description: string;
+  uploadsFrames: boolean;
+}
+
+export interface ProviderContext {
+  getFrame: (maxResolution: number) => HTMLCanvasElement | null; // Rotated and cropped to the desk region
+  getFeedbackHints: () => FeedbackHints; // Built from the parent's corrections
+  getPromptConfig: () => PromptConfig; // The active prompt version
+}
+
+const cloudOptions = (context: ProviderContext) => (): AnalyzeOptions => ({
+  prompt: context.getPromptConfig(),
+  hints: context.getFeedbackHints(),
+});
+
+export const ANALYSIS_PROVIDER_OPTIONS: AnalysisProviderOption[] = [
+  {
+    id: "gemini",
+    get name() { return t("provider.gemini.name"); },
+    get description() { return t("provider.gemini.description"); },
+    uploadsFrames: true,
+  },
+  {
+    id: "local",
+    get name() { return t("provider.local.name"); },
+    get description() { return t("provider.local.description"); },
+    uploadsFrames: false,
+  },
+  {
+    id: "hybrid",
+    get name() { return t("provider.hybrid.name"); },
+    get description() { return t("provider.hybrid.description"); },
+    uploadsFrames: true,
+  },
+  {
+    id: "replay",
+    get name() { return t("provider.replay.name"); },
+    get description() { return t("provider.replay.description"); },
+    uploadsFrames: false,
+  },
+];
+
+// Providers may hold state (e.g. the replay cursor), so callers get a fresh instance per selection.
+export const createAnalysisProvider = (id: AnalysisProviderId, context: ProviderContext): AnalysisProvider => {
+  switch (id) {
+    case "local":
+      return createLocalProvider(context.getFrame);
+    case "hybrid":
+      return createHybridProvider(createLocalProvider(context.getFrame), createGeminiProvider(cloudOptions(context)));
+    case "replay":
+      return createReplayProvider();
+    case "gemini":
+    default:
+      return createGeminiProvider(cloudOptions(context));
+  }
+};
@@ -0,0 +1,267 @@
+import { BadgeComparator, BadgeCondition, BadgeDefinition, BadgeMetric, BadgeTier, BadgeWindow, Language, UserStats } from "../types";
+import { toDateKey } from "./reports";
+import { startOfWeek } from "./leaderboard";
+import { currentDayStreak, getLevelInfo } from "./progression";
+import { getLanguage, LANGUAGES, t, translated } from "./i18n";
+import defaultBadges from "./defaultBadges.json";
+
+const CUSTOM_BADGES_KEY = "custom_badges";
+
+export const TIER_ORDER: BadgeTier[] = ["bronze", "silver", "gold"];
+
+export const TIER_LABELS = translated<BadgeTier>({
+  bronze: "badge.tier.bronze",
+  silver: "badge.tier.silver",
+  gold: "badge.tier.gold",
+});
+
+export const METRIC_UNITS = translated<BadgeMetric>({
+  focusMinutes: "badge.unit.minutes",
+  longestStreakMinutes: "badge.unit.minutes",
+  distractions: "badge.unit.times",
+  activeDays: "badge.unit.days",
+  level: "badge.unit.level",
+  dayStreak: "badge.unit.days",
+});
+
+const METRICS = new Set<string>(Object.keys(METRIC_UNITS));
+const WINDOWS = new Set<string>(["allTime", "today", "week"]);
+const COMPARATORS = new Set<string>([">=", ">", "<=", "<"]);
+const DATE_KEY = /^\d{4}-\d{2}-\d{2}$/;
+
+export interface BadgeUnlock {
+  key: string; // What gets stored in UserStats.badges
+  badge: BadgeDefinition;
+  tier?: BadgeTier;
+}
+
+export interface BadgeProgress {
+  current: number;
+  target: number;
+  ratio: number; // 0..1
+  label: string; // e.g. "12 / 20 分钟" / "12 / 20 min"
+  nextTier?: BadgeTier;
+}
+
+export const badgeKey = (id: string, tier?: BadgeTier) => (tier ? `${id}:${tier}` : id);
+
+const orderedTiers = (badge: BadgeDefinition): { tier: BadgeTier; threshold: number }[] =>
+  TIER_ORDER.filter((tier) => badge.tiers?.[tier] !== undefined).map((tier) => ({ tier, threshold: badge.tiers![tier]! }));
+
+export const metricValue = (stats: UserStats, metric: BadgeMetric, window: BadgeWindow = "allTime", now: Date = new Date()): number => {
+  if (metric === "level") return getLevelInfo(stats.xp).level;
+  if (metric === "dayStreak") return currentDayStreak(stats.dayStreak, now);
+
+  if (window === "allTime") {
+    switch (metric) {
+      case "focusMinutes": return Math.floor(stats.totalFocusTimeSeconds / 60);
+      case "longestStreakMinutes": return Math.floor(stats.longestStreakSeconds / 60);
+      case "distractions": return stats.distractionCount;
+      case "activeDays": return Object.values(stats.dailyStats).filter((d) => d.focusSeconds > 0).length;
+    }
+  }
+
+  const today = toDateKey(now);
+  const from = window === "today" ? today : toDateKey(startOfWeek(now));
+  const days = Object.entries(stats.dailyStats)
+    .filter(([key]) => key >= from && key <= today)
+    .map(([, day]) => day);
+
+  switch (metric) {
+    case "focusMinutes": return Math.floor(days.reduce((sum, d) => sum + d.focusSeconds, 0) / 60);
+    case "longestStreakMinutes": return Math.floor(Math.max(0, ...days.map((d) => d.longestStreakSeconds)) / 60);
+    case "distractions": return days.reduce((sum, d) => sum + d.distractionCount, 0);
+    case "activeDays": return days.filter((d) => d.focusSeconds > 0).length;
+  }
+};
+
+const compare = (value: number, comparator: BadgeComparator, threshold: number): boolean => {
+  switch (comparator) {
+    case ">=": return value >= threshold;
+    case ">": return value > threshold;
+    case "<=": return value <= threshold;
+    case "<": return value < threshold;
+  }
+};
+
+const meets = (stats: UserStats, condition: BadgeCondition, now: Date, threshold = condition.threshold) =>
+  compare(metricValue(stats, condition.metric, condition.window, now), condition.comparator, threshold);
+
+export const isBadgeAvailable = (badge: BadgeDefinition, now: Date = new Date()): boolean => {
+  const today = toDateKey(now);
+  return (!badge.availableFrom || today >= badge.availableFrom) && (!badge.availableUntil || today <= badge.availableUntil);
+};
+
+export const unlockedTiers = (badge: BadgeDefinition, earned: string[]): BadgeTier[] =>
+  orderedTiers(badge).map((t) => t.tier).filter((tier) => earned.includes(badgeKey(badge.id, tier)));
+
+export const isBadgeUnlocked = (badge: BadgeDefinition, earned: string[]): boolean =>
+  badge.tiers ? unlockedTiers(badge, earned).length > 0 : earned.includes(badge.id);
+
+// Every badge (or tier) that is newly earned with these stats; several can unlock on the same tick
+export const checkBadges = (badges: BadgeDefinition[], stats: UserStats, now: Date = new Date()): BadgeUnlock[] => {
+  const unlocks: BadgeUnlock[] = [];
+
+  badges.forEach((badge) => {
+    if (!isBadgeAvailable(badge, now)) return;
+    if (!(badge.requires ?? []).every((condition) => meets(stats, condition, now))) return;
+
+    if (badge.tiers) {
+      orderedTiers(badge).forEach(({ tier, threshold }) => {
+        const key = badgeKey(badge.id, tier);
+        if (!stats.badges.includes(key) && meets(stats, badge.rule, now, threshold)) {
+          unlocks.push({ key, badge, tier });
+        }
+      });
+    } else if (!stats.badges.includes(badge.id) && meets(stats, badge.rule, now)) {
+      unlocks.push({ key: badge.id, badge });
+    }
+  });
+
+  return unlocks;
+};
+
+// Progress towards the next unlock, measured on the first condition still unmet (the main rule
+// first, then `requires`). Null when fully unlocked or when that condition is an "at most" rule,
+// where progress would count the wrong way.
+export const getBadgeProgress = (badge: BadgeDefinition, stats: UserStats, now: Date = new Date()): BadgeProgress | null => {
+  let rule = badge.rule;
+  let nextTier: BadgeTier | undefined;
+  if (badge.tiers) {
+    const next = orderedTiers(badge).find((t) => !stats.badges.includes(badgeKey(badge.id, t.tier)));
+    if (!next) return null;
+    rule = { ...badge.rule, threshold: next.threshold };
+    nextTier = next.tier;
+  } else if (stats.badges.includes(badge.id)) {
+    return null;
+  }
+
+  const pending = [rule, ...(badge.requires ?? [])].find((c) => !meets(stats, c, now)) ?? rule;
+  if (pending.comparator === "<=" || pending.comparator === "<") return null;
+
+  // Metrics are whole numbers, so "> 5" needs 6
+  const target = pending.comparator === ">" ? pending.threshold + 1 : pending.threshold;
+  const current = metricValue(stats, pending.metric, pending.window, now);
+  const shown = Math.min(current, target);
+  return {
+    current,
+    target,
+    ratio: target > 0 ? shown / target : 1,
+    label: `${shown} / ${target} ${METRIC_UNITS[pending.metric]}`,
+    nextTier,
+  };
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => !!value && typeof value === "object";
+
+const parseCondition = (value: unknown, where: string): BadgeCondition => {
+  if (!isRecord(value)) throw new Error(t("badgePack.missingRule", { where }));
+  const { metric, comparator, threshold, window } = value;
+  if (typeof metric !== "string" || !METRICS.has(metric)) throw new Error(t("badgePack.badMetric", { where, value: String(metric) }));
+  if (typeof comparator !== "string" || !COMPARATORS.has(comparator)) {
+    throw new Error(t("badgePack.badComparator", { where, value: String(comparator) }));
+  }
+  if (typeof threshold !== "number" || threshold < 0) throw new Error(t("badgePack.badThreshold", { where }));
+  if (window !== undefined && (typeof window !== "string" || !WINDOWS.has(window))) {
+    throw new Error(t("badgePack.badWindow", { where, value: String(window) }));
+  }
+  return {
+    metric: metric as BadgeCondition["metric"],
+    comparator: comparator as BadgeCondition["comparator"],
+    threshold,
+    window: window as BadgeCondition["window"],
+  };
+};
+
+const parseTranslations = (value: unknown, where: string): BadgeDefinition["translations"] => {
+  if (!isRecord(value)) throw new Error(t("badgePack.badTranslations", { where }));
+  const translations: BadgeDefinition["translations"] = {};
+  Object.entries(value).forEach(([language, text]) => {
+    const option = LANGUAGES.find((l) => l.id === language);
+    if (!option) throw new Error(t("badgePack.badLanguage", { where, value: language }));
+    if (!isRecord(text) || typeof text.name !== "string" || typeof text.description !== "string") {
+      throw new Error(t("badgePack.missingTranslation", { where, language: option.label }));
+    }
+    translations[option.id] = { name: text.name, description: text.description };
+  });
+  return translations;
+};
+
+// Validates a badge pack (an array of BadgeDefinition). Throws with a user-facing message.
+export const parseBadgePack = (data: unknown): BadgeDefinition[] => {
+  if (!Array.isArray(data)) throw new Error(t("badgePack.notArray"));
+
+  const ids = new Set<string>();
+  return data.map((item: unknown, i) => {
+    const where = t("badgePack.where", { index: i + 1 });
+    if (!isRecord(item) || typeof item.id !== "string" || !item.id.trim()) throw new Error(t("badgePack.missingId", { where }));
+    if (item.id.includes(":")) throw new Error(t("badgePack.colonInId", { where }));
+    if (ids.has(item.id)) throw new Error(t("badgePack.duplicateId", { id: item.id }));
+    ids.add(item.id);
+    if (typeof item.name !== "string" || typeof item.description !== "string" || typeof item.icon !== "string") {
+      throw new Error(t("badgePack.missingText", { where }));
+    }
+
+    const badge: BadgeDefinition = {
+      id: item.id,
+      name: item.name,
+      description: item.description,
+      icon: item.icon,
+      rule: parseCondition(item.rule, where),
+    };
+
+    if (item.requires !== undefined) {
+      if (!Array.isArray(item.requires)) throw new Error(t("badgePack.requiresNotArray", { where }));
+      badge.requires = item.requires.map((c: unknown) => parseCondition(c, where));
+    }
+    if (item.tiers !== undefined) {
+      const tiers = item.tiers;
+      if (!isRecord(tiers) || Object.keys(tiers).some((tier) => !TIER_ORDER.includes(tier as BadgeTier))) {
+        throw new Error(t("badgePack.badTier", { where }));
+      }
+      if (Object.values(tiers).some((value) => typeof value !== "number" || value < 0)) throw new Error(t("badgePack.badTierThreshold", { where }));
+      badge.tiers = tiers as BadgeDefinition["tiers"];
+    }
+    for (const field of ["availableFrom", "availableUntil"] as const) {
+      const value = item[field];
+      if (value === undefined) continue;
+      if (typeof value !== "string" || !DATE_KEY.test(value)) throw new Error(t("badgePack.badDate", { where }));
+      badge[field] = value;
+    }
+    if (item.translations !== undefined) badge.translations = parseTranslations(item.translations, where);
+    return badge;
+  });
+};
+
+export const DEFAULT_BADGES: BadgeDefinition[] = parseBadgePack(defaultBadges);
+
+export const loadCustomBadges = (): BadgeDefinition[] => {
+  try {
+    const raw = localStorage.getItem(CUSTOM_BADGES_KEY);
+    return raw ? parseBadgePack(JSON.parse(raw)) : [];
+  } catch (e) {
+    console.warn("Failed to read custom badges, ignoring them", e);
+    return [];
+  }
+};
+
+export const saveCustomBadges = (badges: BadgeDefinition[]) => {
+  if (badges.length > 0) localStorage.setItem(CUSTOM_BADGES_KEY, JSON.stringify(badges));
+  else localStorage.removeItem(CUSTOM_BADGES_KEY);
+};
+
+// Custom badges replace built-in ones with the same id
+export const mergeBadges = (builtIn: BadgeDefinition[], custom: BadgeDefinition[]): BadgeDefinition[] => {
+  const customIds = new Set(custom.map((b) => b.id));
+  return [...builtIn.filter((b) => !customIds.has(b.id)), ...custom];
+};
+
+// Swaps in the name and description for the language when the badge carries them
+export const localizeBadges = (badges: BadgeDefinition[], language: Language = getLanguage()): BadgeDefinition[] =>
+  badges.map((badge) => {
+    const text = badge.translations?.[language];
+    return text ? { ...badge, ...text } : badge;
+  });
+
+export const describeUnlock = (unlock: BadgeUnlock): string =>
+  unlock.tier ? t("badge.withTier", { name: unlock.badge.name, tier: TIER_LABELS[unlock.tier] }) : unlock.badge.name;
@@ -0,0 +1,60 @@
+import { CameraConfig, CameraRotation, RegionOfInterest } from "../types";
+import { t } from "./i18n";
+
+export const DEFAULT_CAMERA: CameraConfig = {
+  deviceId: null,
+  rotation: 0,
+  mirrored: false,
+  roi: null,
+};
+
+export const ROTATIONS: CameraRotation[] = [0, 90, 180, 270];
+
+// Smallest ROI side, as a fraction of the frame, so a stray tap cannot select a sliver
+export const MIN_ROI_SIZE = 0.15;
+
+export interface CameraDevice {
+  deviceId: string;
+  label: string;
+}
+
+// Labels stay empty until the page has been granted camera access once
+export const listCameras = async (): Promise<CameraDevice[]> => {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices
+    .filter((d) => d.kind === "videoinput")
+    .map((d, i) => ({ deviceId: d.deviceId, label: d.label || t("camera.fallbackLabel", { index: i + 1 }) }));
+};
+
+// Size of the frame after rotation
+export const orientedSize = (width: number, height: number, rotation: CameraRotation) =>
+  rotation % 180 === 0 ? { width, height } : { width: height, height: width };
+
+export const clampRoi = (roi: RegionOfInterest): RegionOfInterest => {
+  const width = Math.min(1, Math.max(MIN_ROI_SIZE, roi.width));
+  const height = Math.min(1, Math.max(MIN_ROI_SIZE, roi.height));
+  return {
+    x: Math.min(1 - width, Math.max(0, roi.x)),
+    y: Math.min(1 - height, Math.max(0, roi.y)),
+    width,
+    height,
+  };
+};
+
+/**
+ * Draws the video rotated and mirrored, with the ROI (or the whole frame) stretched over the
+ * full canvas. Mirroring happens before rotation, matching the CSS transform on the preview.
+ */
+export const drawFrame = (ctx: CanvasRenderingContext2D, video: HTMLVideoElement, config: Pick<CameraConfig, "rotation" | "mirrored">, roi: RegionOfInterest | null) => {
+  const { width, height } = orientedSize(video.videoWidth, video.videoHeight, config.rotation);
+  const region = roi ?? { x: 0, y: 0, width: 1, height: 1 };
+
+  ctx.save();
+  ctx.scale(ctx.canvas.width / (region.width * width), ctx.canvas.height / (region.height * height));
+  ctx.translate(-region.x * width + width / 2, -region.y * height + height / 2);
+  ctx.rotate((config.rotation * Math.PI) / 180);
+  if (config.mirrored) ctx.scale(-1, 1);
+  ctx.drawImage(video, -video.videoWidth / 2, -video.videoHeight / 2);
+  ctx.restore();
+};
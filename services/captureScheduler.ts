@@ -0,0 +1,92 @@
+import { CaptureConfig, FocusStatus } from "../types";
+
+export const DEFAULT_CAPTURE: CaptureConfig = {
+  adaptive: true,
+  minIntervalSeconds: 5,
+  maxIntervalSeconds: 30,
+  skipUnchanged: true,
+  changeThreshold: 0.02,
+  maxResolution: 640,
+};
+
+export const RESOLUTION_OPTIONS = [320, 480, 640, 1280];
+
+// Each stable focused check stretches the interval by this factor, up to maxIntervalSeconds
+const GROWTH = 1.5;
+// An unchanged scene is still uploaded at least this often, so slow changes are not missed forever
+export const MAX_SKIP_SECONDS = 60;
+
+// Size of the grayscale thumbnail compared between frames
+export const SIGNATURE_WIDTH = 32;
+export const SIGNATURE_HEIGHT = 24;
+
+export interface CaptureScheduler {
+  // Delay before the next check, given the debounced status just read
+  next: (status: FocusStatus, changed: boolean) => number;
+  // True when the frame is too similar to the last uploaded one; otherwise it becomes the new reference
+  shouldSkip: (signature: Uint8Array, now: number) => boolean;
+  configure: (config: CaptureConfig) => void;
+  reset: () => void;
+}
+
+// Mean absolute difference of two grayscale signatures, 0..1
+export const frameDifference = (a: Uint8Array, b: Uint8Array): number => {
+  if (a.length !== b.length || a.length === 0) return 1;
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += Math.abs(a[i] - b[i]);
+  return sum / a.length / 255;
+};
+
+/**
+ * Spaces checks by how settled the child is: every change (or any non-focused reading) snaps
+ * the interval back to the minimum, and each stable focused reading lengthens it. Between
+ * checks a tiny grayscale signature decides whether the frame is worth uploading at all.
+ */
+export const createCaptureScheduler = (initialConfig: CaptureConfig = DEFAULT_CAPTURE): CaptureScheduler => {
+  let config = initialConfig;
+  let intervalSeconds = config.minIntervalSeconds;
+  let reference: Uint8Array | null = null;
+  let referenceAt = 0;
+
+  const next = (status: FocusStatus, changed: boolean): number => {
+    if (!config.adaptive || changed || status !== FocusStatus.FOCUSED) {
+      intervalSeconds = config.minIntervalSeconds;
+    } else {
+      intervalSeconds = Math.min(config.maxIntervalSeconds, intervalSeconds * GROWTH);
+    }
+    return Math.round(intervalSeconds * 1000);
+  };
+
+  const shouldSkip = (signature: Uint8Array, now: number): boolean => {
+    const stale = now - referenceAt >= MAX_SKIP_SECONDS * 1000;
+    if (config.skipUnchanged && reference && !stale && frameDifference(reference, signature) < config.changeThreshold) {
+      return true;
+    }
+    reference = signature;
+    referenceAt = now;
+    return false;
+  };
+
+  const configure = (nextConfig: CaptureConfig) => {
+    config = nextConfig;
+    intervalSeconds = Math.min(Math.max(intervalSeconds, config.minIntervalSeconds), config.maxIntervalSeconds);
+  };
+
+  const reset = () => {
+    intervalSeconds = config.minIntervalSeconds;
+    reference = null;
+    referenceAt = 0;
+  };
+
+  return { next, shouldSkip, configure, reset };
+};
+
+export interface CallEstimate {
+  busiest: number; // Calls per hour while the state keeps changing
+  steady: number; // Calls per hour during long stable focus, before skipping unchanged frames
+}
+
+export const estimateCallsPerHour = (config: CaptureConfig): CallEstimate => ({
+  busiest: Math.round(3600 / config.minIntervalSeconds),
+  steady: Math.round(3600 / (config.adaptive ? config.maxIntervalSeconds : config.minIntervalSeconds)),
+});
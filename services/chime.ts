@@ -0,0 +1,49 @@
+let context: AudioContext | null = null;
+
+/**
+ * Creates or resumes the shared context. Mobile browsers only allow that during a user gesture,
+ * and reminders fire from timers, so the Start button calls this first.
+ */
+export const unlockChime = () => {
+  try {
+    context ??= new AudioContext();
+    if (context.state === "suspended") context.resume().catch((e) => console.warn("Audio stays locked", e));
+  } catch (e) {
+    console.error("Audio unavailable", e);
+  }
+};
+
+const ring = (audio: AudioContext) => {
+  const start = audio.currentTime;
+  [880, 1318.5].forEach((frequency, i) => {
+    const at = start + i * 0.18;
+    const oscillator = audio.createOscillator();
+    const gain = audio.createGain();
+    oscillator.type = "sine";
+    oscillator.frequency.value = frequency;
+    gain.gain.setValueAtTime(0.0001, at);
+    gain.gain.exponentialRampToValueAtTime(0.25, at + 0.02);
+    gain.gain.exponentialRampToValueAtTime(0.0001, at + 0.6);
+    oscillator.connect(gain).connect(audio.destination);
+    oscillator.start(at);
+    oscillator.stop(at + 0.65);
+  });
+};
+
+// A soft two-note chime synthesized on the fly, the gentlest reminder level
+export const playChime = () => {
+  try {
+    const audio = (context ??= new AudioContext());
+    // Suspended again (e.g. the tab was in the background); if resuming is refused, this chime is
+    // skipped rather than reported
+    if (audio.state === "suspended") {
+      audio.resume()
+        .then(() => ring(audio), () => {})
+        .catch((e) => console.error("Chime failed", e));
+      return;
+    }
+    ring(audio);
+  } catch (e) {
+    console.error("Chime failed", e);
+  }
+};
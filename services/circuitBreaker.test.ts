@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import { AnalysisError, ANALYSIS_ERROR_LABELS, classifyError, describeOutage } from "./analysisErrors";
+import { BACKOFF_MAX_MS, createCircuitBreaker, FAILURE_THRESHOLD, OPEN_MS } from "./circuitBreaker";
+import { t } from "./i18n";
+
+// No jitter: random() of 0.5 scales the backoff by exactly 1
+const steadyBreaker = () => createCircuitBreaker(() => 0.5);
+const network = () => new AnalysisError("network", "fetch failed");
+
+describe("createCircuitBreaker", () => {
+  it("backs off exponentially while closed", () => {
+    const breaker = steadyBreaker();
+    const waits = [1, 2, 3, 4].map(() => {
+      breaker.recordFailure(network(), 0);
+      return breaker.retryInMs(0);
+    });
+    expect(waits).toEqual([5_000, 10_000, 20_000, 40_000]);
+    expect(breaker.canAttempt(39_999)).toBe(false);
+    expect(breaker.canAttempt(40_000)).toBe(true);
+  });
+
+  it("never backs off longer than the cap, unless the server asks", () => {
+    const breaker = steadyBreaker();
+    breaker.recordFailure(new AnalysisError("rateLimit", "slow down", BACKOFF_MAX_MS * 2), 0);
+    expect(breaker.retryInMs(0)).toBe(BACKOFF_MAX_MS * 2);
+  });
+
+  it("opens after FAILURE_THRESHOLD failures and allows a single trial afterwards", () => {
+    const breaker = steadyBreaker();
+    for (let i = 0; i < FAILURE_THRESHOLD; i++) breaker.recordFailure(network(), 0);
+    expect(breaker.retryInMs(0)).toBe(OPEN_MS);
+    expect(breaker.canAttempt(OPEN_MS - 1)).toBe(false);
+
+    // Half-open: the trial fails, so the circuit opens again for the full period
+    expect(breaker.canAttempt(OPEN_MS)).toBe(true);
+    breaker.recordFailure(network(), OPEN_MS);
+    expect(breaker.retryInMs(OPEN_MS)).toBe(OPEN_MS);
+  });
+
+  it("closes again after a successful trial", () => {
+    const breaker = steadyBreaker();
+    for (let i = 0; i < FAILURE_THRESHOLD; i++) breaker.recordFailure(network(), 0);
+    breaker.recordSuccess();
+    expect(breaker.canAttempt(0)).toBe(true);
+    expect(breaker.lastError()).toBeNull();
+
+    breaker.recordFailure(network(), 0);
+    expect(breaker.retryInMs(0)).toBe(5_000);
+  });
+
+  it("stays open on a permanent error until reset", () => {
+    const breaker = steadyBreaker();
+    breaker.recordFailure(new AnalysisError("auth", "API key not valid"), 0);
+    expect(breaker.retryInMs(0)).toBe(Infinity);
+    breaker.reset();
+    expect(breaker.canAttempt(0)).toBe(true);
+  });
+});
+
+describe("classifyError", () => {
+  it.each([
+    [Object.assign(new Error("denied"), { status: 403 }), "auth"],
+    [new Error("API key not valid. Please pass a valid API key."), "auth"],
+    [Object.assign(new Error("busy"), { status: 429 }), "rateLimit"],
+    [Object.assign(new Error("oops"), { status: 503 }), "network"],
+    [new TypeError("Failed to fetch"), "network"],
+    [new SyntaxError("Unexpected token"), "malformed"],
+    [new Error("something else"), "unknown"],
+  ] as const)("classifies %s as %s", (error, kind) => {
+    expect(classifyError(error).kind).toBe(kind);
+  });
+
+  it("reads the server's suggested wait", () => {
+    const error = classifyError(new Error('RESOURCE_EXHAUSTED {"retryDelay": "37s"}'));
+    expect(error).toMatchObject({ kind: "rateLimit", retryAfterMs: 37_000 });
+  });
+
+  it("passes an AnalysisError through", () => {
+    const error = new AnalysisError("invalidFrame", "empty");
+    expect(classifyError(error)).toBe(error);
+  });
+});
+
+describe("describeOutage", () => {
+  it("asks to check the settings for a permanent error", () => {
+    const label = ANALYSIS_ERROR_LABELS.missingKey;
+    expect(describeOutage(new AnalysisError("missingKey", ""))).toBe(t("error.checkSettings", { label }));
+  });
+
+  it("shows the wait in minutes once the circuit is open", () => {
+    const breaker = steadyBreaker();
+    for (let i = 0; i < FAILURE_THRESHOLD; i++) breaker.recordFailure(network(), 0);
+    const label = ANALYSIS_ERROR_LABELS.network;
+    expect(describeOutage(new AnalysisError("network", "", breaker.retryInMs(0)))).toBe(t("error.retryInMinutes", { label, minutes: 5 }));
+  });
+
+  it("says it will retry soon during a short backoff", () => {
+    const label = ANALYSIS_ERROR_LABELS.network;
+    expect(describeOutage(new AnalysisError("network", "", 5_000))).toBe(t("error.retrySoon", { label }));
+  });
+});
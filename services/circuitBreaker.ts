@@ -0,0 +1,61 @@
+import { AnalysisError } from "./analysisErrors";
+
+export const BACKOFF_BASE_MS = 5_000;
+export const BACKOFF_MAX_MS = 2 * 60_000;
+// After this many consecutive failures the circuit opens and calls stop for OPEN_MS
+export const FAILURE_THRESHOLD = 5;
+export const OPEN_MS = 5 * 60_000;
+// Callers poll at least this often while waiting, so a recovered connection (or a permanent
+// error's hint) shows up without restarting monitoring
+export const MAX_RETRY_DELAY_MS = 60_000;
+
+export interface CircuitBreaker {
+  // False while waiting out a backoff or an open circuit
+  canAttempt: (now: number) => boolean;
+  recordSuccess: () => void;
+  recordFailure: (error: AnalysisError, now: number) => void;
+  // Milliseconds until the next call is allowed; Infinity when only a reset can help
+  retryInMs: (now: number) => number;
+  lastError: () => AnalysisError | null;
+  reset: () => void;
+}
+
+/**
+ * Consecutive failures back off exponentially (5 s, 10 s, 20 s ... up to 2 min, or longer when
+ * the server asks for it). At FAILURE_THRESHOLD the circuit opens for OPEN_MS; the first call
+ * after that is a single trial that either closes the circuit or opens it again. Permanent
+ * errors (missing or rejected key) keep it open until reset.
+ */
+export const createCircuitBreaker = (random: () => number = Math.random): CircuitBreaker => {
+  let failures = 0;
+  let retryAt = 0;
+  let lastError: AnalysisError | null = null;
+
+  const canAttempt = (now: number) => now >= retryAt;
+
+  const recordSuccess = () => {
+    failures = 0;
+    retryAt = 0;
+    lastError = null;
+  };
+
+  const recordFailure = (error: AnalysisError, now: number) => {
+    failures++;
+    lastError = error;
+    if (error.permanent) {
+      retryAt = Infinity;
+      return;
+    }
+    if (failures >= FAILURE_THRESHOLD) {
+      retryAt = now + Math.max(OPEN_MS, error.retryAfterMs ?? 0);
+      return;
+    }
+    // ±20% jitter so several devices on one key don't retry in lockstep
+    const backoff = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** (failures - 1)) * (0.8 + random() * 0.4);
+    retryAt = now + Math.max(backoff, error.retryAfterMs ?? 0);
+  };
+
+  const retryInMs = (now: number) => Math.max(0, retryAt - now);
+
+  return { canAttempt, recordSuccess, recordFailure, retryInMs, lastError: () => lastError, reset: recordSuccess };
+};
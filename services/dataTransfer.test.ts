@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { parseExportBundle } from "./dataTransfer";
+import { DEFAULT_SETTINGS } from "./settings";
+
+const STATS = { totalFocusTimeSeconds: 0, currentStreakSeconds: 0, longestStreakSeconds: 0, distractionCount: 0, badges: [] };
+
+const parse = (extra: Record<string, unknown>) =>
+  parseExportBundle(JSON.stringify({ format: "focus-guardian", version: 1, stats: STATS, badges: [], settings: {}, sessions: [], ...extra }));
+
+describe("parseExportBundle settings", () => {
+  it("has a range for every numeric setting", () => {
+    const huge: Record<string, Record<string, number>> = {};
+    Object.entries(DEFAULT_SETTINGS).forEach(([key, section]) => {
+      if (!section || typeof section !== "object") return;
+      Object.entries(section).forEach(([field, value]) => {
+        if (typeof value === "number") (huge[key] ??= {})[field] = value;
+      });
+    });
+    const settings = parse({ settings: huge }).settings as Record<string, Record<string, unknown>>;
+    Object.entries(huge).forEach(([key, fields]) => {
+      Object.keys(fields).forEach((field) => expect(settings[key]?.[field], `${key}.${field}`).toBeDefined());
+    });
+  });
+
+  it("clamps numbers to what the settings inputs allow", () => {
+    const { settings } = parse({
+      settings: {
+        capture: { minIntervalSeconds: 0, maxIntervalSeconds: 999, maxResolution: 0 },
+        smoothing: { minConfidence: 5 },
+        studyPlan: { workMinutes: 0 },
+        camera: { roi: { x: 0.9, y: 0, width: 0.5, height: 0.5 } },
+      },
+    });
+    expect(settings.capture).toEqual({ minIntervalSeconds: 2, maxIntervalSeconds: 120 });
+    expect(settings.smoothing?.minConfidence).toBe(0.9);
+    expect(settings.studyPlan?.workMinutes).toBe(1);
+    expect(settings.camera?.roi).toEqual({ x: 0.5, y: 0, width: 0.5, height: 0.5 });
+  });
+
+  it("drops fields of the wrong type", () => {
+    const { settings } = parse({ settings: { analysisProvider: "other", audioEnabled: "yes", reminders: { quietWindows: [{ start: "25:00", end: "07:00" }] } } });
+    expect(settings).toEqual({});
+  });
+});
+
+describe("parseExportBundle logs", () => {
+  const session = (log: Record<string, unknown>) => ({
+    id: "s1",
+    startedAt: "2026-10-19T08:00:00.000Z",
+    endedAt: null,
+    logs: [{ id: "l1", timestamp: "2026-10-19T08:00:05.000Z", status: "DISTRACTED", message: "", ...log }],
+  });
+
+  it("keeps a parent's correction", () => {
+    const feedback = { actualStatus: "FOCUSED", markedAt: "2026-10-19T09:00:00.000Z" };
+    expect(parse({ sessions: [session({ feedback })] }).sessions[0].logs[0].feedback).toEqual(feedback);
+  });
+
+  it("drops a malformed correction and unknown details", () => {
+    const [log] = parse({ sessions: [session({ feedback: { actualStatus: "BORED" }, reason: "hacking", posture: ["slouching", "x"] })] }).sessions[0].logs;
+    expect(log.feedback).toBeUndefined();
+    expect(log.reason).toBeUndefined();
+    expect(log.posture).toEqual(["slouching"]);
+  });
+});
@@ -0,0 +1,419 @@
+import { AppSettings, CameraRotation, DistractionReason, EscalationLevel, FocusStatus, LogEntry, PostureIssue, SessionRecord, StudyTask, UserStats } from "../types";
+import { listSessions, getAllLogs, importSessions } from "./sessionStore";
+import { buildTimeline, effectiveStatus, toDateKey, totalsByTask } from "./reports";
+import { createEmptyDailyStats } from "./gamification";
+import { XP_PER_FOCUS_MINUTE } from "./progression";
+import { DEFAULT_SETTINGS } from "./settings";
+import { parseDetails } from "./analysisDetails";
+import { REVIEWABLE_STATUSES } from "./feedback";
+import { ANALYSIS_PROVIDER_OPTIONS } from "./analysisProviders";
+import { RESOLUTION_OPTIONS } from "./captureScheduler";
+import { RETENTION_OPTIONS } from "./evidence";
+import { clampRoi } from "./cameraSetup";
+import { normalizeTask, taskName } from "./tasks";
+import { t } from "./i18n";
+
+export const EXPORT_FORMAT = "focus-guardian";
+export const EXPORT_VERSION = 1;
+
+export interface ExportedLog {
+  id: string;
+  timestamp: string; // ISO 8601
+  status: FocusStatus;
+  message: string;
+  taskId?: string;
+  intervalMs?: number;
+  reason?: DistractionReason;
+  posture?: PostureIssue[];
+  materialsVisible?: boolean;
+  feedback?: { actualStatus: FocusStatus; markedAt: string }; // A parent's correction
+}
+
+export interface ExportedSession {
+  id: string;
+  startedAt: string;
+  endedAt: string | null;
+  finalStats: UserStats | null;
+  badgesEarned: string[];
+  taskId?: string;
+  logs: ExportedLog[];
+}
+
+export interface ExportBundle {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  settings: AppSettings;
+  stats: UserStats;
+  badges: string[];
+  tasks?: StudyTask[]; // Added after version 1 shipped; older files omit it
+  sessions: ExportedSession[];
+}
+
+// What parseExportBundle returns: settings keep only the fields that passed validation
+export interface ImportedBundle extends Omit<ExportBundle, "settings"> {
+  settings: Partial<AppSettings>;
+}
+
+export interface ImportSummary {
+  sessionsAdded: number;
+  sessionsSkipped: number;
+  stats: UserStats; // Current stats with the imported sessions merged in
+  settings: AppSettings;
+  tasks: StudyTask[]; // Imported subjects the device did not know yet
+}
+
+const toExportedLog = (log: LogEntry): ExportedLog => ({
+  id: log.id,
+  timestamp: log.timestamp.toISOString(),
+  status: log.status,
+  message: log.message,
+  taskId: log.taskId,
+  intervalMs: log.intervalMs,
+  reason: log.reason,
+  posture: log.posture,
+  materialsVisible: log.materialsVisible,
+  feedback: log.feedback && { actualStatus: log.feedback.actualStatus, markedAt: new Date(log.feedback.markedAt).toISOString() },
+});
+
+export const buildExportBundle = async (
+  settings: AppSettings,
+  stats: UserStats,
+  tasks: StudyTask[]
+): Promise<ExportBundle> => {
+  const [sessions, logs] = await Promise.all([listSessions(), getAllLogs()]);
+
+  const logsBySession = new Map<string, ExportedLog[]>();
+  logs.forEach((log) => {
+    if (!log.sessionId) return;
+    const list = logsBySession.get(log.sessionId) ?? [];
+    list.push(toExportedLog(log));
+    logsBySession.set(log.sessionId, list);
+  });
+
+  return {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    settings,
+    stats,
+    badges: stats.badges,
+    tasks,
+    sessions: sessions.map((s) => ({
+      id: s.id,
+      startedAt: s.startedAt.toISOString(),
+      endedAt: s.endedAt ? s.endedAt.toISOString() : null,
+      finalStats: s.finalStats,
+      badgesEarned: s.badgesEarned,
+      taskId: s.taskId,
+      logs: logsBySession.get(s.id) ?? [],
+    })),
+  };
+};
+
+const escapeCsv = (value: string) => (/[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+export const bundleToCsv = (bundle: ExportBundle): string => {
+  const taskNames = new Map((bundle.tasks ?? []).map((task) => [task.id, taskName(task)]));
+  const rows = [["session_id", "log_id", "timestamp", "status", "task", "message"]];
+  bundle.sessions.forEach((session) => {
+    session.logs.forEach((log) => {
+      const task = log.taskId ? taskNames.get(log.taskId) ?? log.taskId : "";
+      rows.push([session.id, log.id, log.timestamp, log.status, task, log.message]);
+    });
+  });
+  // BOM so Excel opens the Chinese messages as UTF-8
+  return "\uFEFF" + rows.map((row) => row.map(escapeCsv).join(",")).join("\r\n");
+};
+
+const VALID_STATUSES = new Set<string>(Object.values(FocusStatus));
+const CAMERA_ROTATIONS: CameraRotation[] = [0, 90, 180, 270];
+const ESCALATION_LEVELS: EscalationLevel[] = ["chime", "spoken", "parentClip", "notifyParent"];
+const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const isRecord = (value: unknown): value is Record<string, unknown> => !!value && typeof value === "object" && !Array.isArray(value);
+
+const isIsoDate = (value: unknown): value is string => typeof value === "string" && !isNaN(Date.parse(value));
+
+const isNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value);
+
+const isStringArray = (value: unknown): value is string[] => Array.isArray(value) && value.every((v) => typeof v === "string");
+
+const isStats = (value: unknown): value is UserStats =>
+  isRecord(value) &&
+  isNumber(value.totalFocusTimeSeconds) &&
+  isNumber(value.currentStreakSeconds) &&
+  isNumber(value.longestStreakSeconds) &&
+  isNumber(value.distractionCount) &&
+  isStringArray(value.badges);
+
+// Returns the value to keep, or undefined to drop the field
+type FieldParser = (value: unknown) => unknown;
+
+// Numbers are clamped to the range the settings inputs allow
+const inRange = (min: number, max: number): FieldParser => (v) => (isNumber(v) ? Math.min(max, Math.max(min, v)) : undefined);
+const oneOf = (options: readonly unknown[]): FieldParser => (v) => (options.includes(v) ? v : undefined);
+const when = (check: (value: unknown) => boolean): FieldParser => (v) => (check(v) ? v : undefined);
+
+const isRoi = (v: unknown): v is Record<"x" | "y" | "width" | "height", number> =>
+  isRecord(v) && ["x", "y", "width", "height"].every((k) => isNumber(v[k]));
+
+// Settings fields whose type cannot be read off the default value. Every number needs an entry;
+// numbers without one are dropped.
+const SETTINGS_FIELDS: { [K in keyof AppSettings]?: Record<string, FieldParser> } = {
+  smoothing: { distractEvidence: inRange(0.5, 4), recoverEvidence: inRange(0.5, 3), minConfidence: inRange(0, 0.9) },
+  studyPlan: { workMinutes: inRange(1, 120), breakMinutes: inRange(1, 60), rounds: inRange(0, 12) },
+  scoring: {
+    targetMinutes: inRange(5, 240),
+    distractionPenalty: inRange(0, 20),
+    absencePenalty: inRange(0, 20),
+    glancePenalty: inRange(0, 10),
+    glanceSeconds: inRange(0, 60),
+  },
+  reminders: {
+    cooldownSeconds: inRange(5, 600),
+    praiseEveryMinutes: inRange(0, 120),
+    postureEveryMinutes: inRange(0, 60),
+    escalation: (v) => {
+      if (!isRecord(v) || !ESCALATION_LEVELS.every((level) => v[level] === null || isNumber(v[level]))) return undefined;
+      return Object.fromEntries(ESCALATION_LEVELS.map((level) => [level, v[level] === null ? null : inRange(0, 1800)(v[level])]));
+    },
+    quietWindows: when((v) => Array.isArray(v) && v.every((w) => isRecord(w) && TIME_OF_DAY.test(String(w.start)) && TIME_OF_DAY.test(String(w.end)))),
+  },
+  // maxIntervalSeconds is also kept at or above minIntervalSeconds; see applyImportedSettings
+  capture: {
+    minIntervalSeconds: inRange(2, 60),
+    maxIntervalSeconds: inRange(2, 120),
+    changeThreshold: inRange(0.005, 0.1),
+    maxResolution: oneOf(RESOLUTION_OPTIONS),
+  },
+  camera: {
+    deviceId: when((v) => v === null || typeof v === "string"),
+    rotation: oneOf(CAMERA_ROTATIONS),
+    roi: (v) => (v === null ? null : isRoi(v) ? clampRoi(v) : undefined),
+  },
+  evidence: { retentionDays: oneOf(RETENTION_OPTIONS), maxSnapshots: inRange(10, 1000) },
+  leaderboard: { groups: when(isStringArray) },
+  relay: { room: when((v) => typeof v === "string" && v.trim() !== "") },
+};
+
+// Without a dedicated parser, a field survives when it has the same (non-numeric) type as its default
+const parseField = (value: unknown, fallback: unknown, parser?: FieldParser): unknown => {
+  if (parser) return parser(value);
+  if (typeof fallback === "number") return undefined;
+  return typeof value === typeof fallback && Array.isArray(value) === Array.isArray(fallback) ? value : undefined;
+};
+
+// Keeps the recognised, well-formed fields of imported settings; anything else is dropped so the
+// current value stays
+const sanitizeSettings = (data: Record<string, unknown>): Partial<AppSettings> => {
+  const settings: Record<string, unknown> = {};
+  (Object.keys(DEFAULT_SETTINGS) as (keyof AppSettings)[]).forEach((key) => {
+    const fallback: unknown = DEFAULT_SETTINGS[key];
+    const value = data[key];
+    if (key === "analysisProvider") {
+      if (ANALYSIS_PROVIDER_OPTIONS.some((o) => o.id === value)) settings[key] = value;
+    } else if (isRecord(fallback)) {
+      if (!isRecord(value)) return;
+      const parsers = SETTINGS_FIELDS[key] ?? {};
+      const fields = Object.fromEntries(
+        Object.keys(fallback)
+          .filter((field) => field in value)
+          .map((field) => [field, parseField(value[field], fallback[field], parsers[field])])
+          .filter(([, parsed]) => parsed !== undefined)
+      );
+      if (Object.keys(fields).length > 0) settings[key] = fields;
+    } else if (parseField(value, fallback) !== undefined) {
+      settings[key] = value;
+    }
+  });
+  return settings as Partial<AppSettings>;
+};
+
+// Required fields fail the import; a malformed optional field is dropped
+const parseLog = (data: unknown, sessionId: string): ExportedLog => {
+  if (!isRecord(data) || typeof data.id !== "string" || !isIsoDate(data.timestamp) || !VALID_STATUSES.has(data.status as string) || typeof data.message !== "string") {
+    throw new Error(t("import.badLog", { id: sessionId }));
+  }
+  return {
+    id: data.id,
+    timestamp: data.timestamp,
+    status: data.status as FocusStatus,
+    message: data.message,
+    ...(typeof data.taskId === "string" ? { taskId: data.taskId } : {}),
+    ...(isNumber(data.intervalMs) && data.intervalMs > 0 ? { intervalMs: data.intervalMs } : {}),
+    ...parseDetails(data),
+    ...(isRecord(data.feedback) && REVIEWABLE_STATUSES.includes(data.feedback.actualStatus as FocusStatus) && isIsoDate(data.feedback.markedAt)
+      ? { feedback: { actualStatus: data.feedback.actualStatus as FocusStatus, markedAt: data.feedback.markedAt } }
+      : {}),
+  };
+};
+
+const parseSession = (data: unknown, index: number): ExportedSession => {
+  if (!isRecord(data) || typeof data.id !== "string" || !isIsoDate(data.startedAt)) {
+    throw new Error(t("import.badSession", { index }));
+  }
+  if (data.endedAt !== null && !isIsoDate(data.endedAt)) throw new Error(t("import.badSessionEnd", { index }));
+  if (!Array.isArray(data.logs)) throw new Error(t("import.missingLogs", { index }));
+  const id = data.id;
+  return {
+    id,
+    startedAt: data.startedAt,
+    endedAt: data.endedAt,
+    finalStats: isStats(data.finalStats) ? data.finalStats : null,
+    badgesEarned: isStringArray(data.badgesEarned) ? data.badgesEarned : [],
+    ...(typeof data.taskId === "string" ? { taskId: data.taskId } : {}),
+    logs: data.logs.map((log) => parseLog(log, id)),
+  };
+};
+
+const parseTask = (data: unknown): StudyTask | null => {
+  if (!isRecord(data) || typeof data.id !== "string" || typeof data.name !== "string" || typeof data.icon !== "string") return null;
+  return normalizeTask({
+    id: data.id,
+    name: data.name,
+    icon: data.icon,
+    ...(isNumber(data.targetMinutes) && data.targetMinutes > 0 ? { targetMinutes: data.targetMinutes } : {}),
+  });
+};
+
+// Throws with a user-facing message describing the first problem found. The bundle returned holds
+// only validated fields, so nothing malformed reaches storage.
+export const parseExportBundle = (text: string): ImportedBundle => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error(t("import.notJson"));
+  }
+
+  if (!isRecord(data) || data.format !== EXPORT_FORMAT) throw new Error(t("import.wrongFormat"));
+  if (typeof data.version !== "number" || data.version > EXPORT_VERSION) {
+    throw new Error(t("import.tooNew"));
+  }
+  if (!isStats(data.stats)) throw new Error(t("import.badStats"));
+  if (!Array.isArray(data.sessions)) throw new Error(t("import.missingSessions"));
+  if (!isStringArray(data.badges)) throw new Error(t("import.badBadges"));
+  if (!isRecord(data.settings)) throw new Error(t("import.missingSettings"));
+  if (data.tasks !== undefined && !Array.isArray(data.tasks)) throw new Error(t("import.badTasks"));
+
+  return {
+    format: EXPORT_FORMAT,
+    version: data.version,
+    exportedAt: typeof data.exportedAt === "string" ? data.exportedAt : "",
+    settings: sanitizeSettings(data.settings),
+    stats: data.stats,
+    badges: data.badges,
+    tasks: data.tasks?.map(parseTask).filter((task): task is StudyTask => task !== null),
+    sessions: data.sessions.map((session, i) => parseSession(session, i + 1)),
+  };
+};
+
+// Imported settings may be partial; each section is laid over the device's current one
+const applyImportedSettings = (current: AppSettings, imported: Partial<AppSettings>): AppSettings => {
+  const merged: Record<string, unknown> = { ...current };
+  (Object.keys(imported) as (keyof AppSettings)[]).forEach((key) => {
+    const value: unknown = imported[key];
+    merged[key] = isRecord(value) ? { ...(current[key] as object), ...value } : value;
+  });
+  const settings = merged as unknown as AppSettings;
+  // Either bound may come from the file and the other from this device
+  const { minIntervalSeconds, maxIntervalSeconds } = settings.capture;
+  if (maxIntervalSeconds < minIntervalSeconds) settings.capture = { ...settings.capture, maxIntervalSeconds: minIntervalSeconds };
+  return settings;
+};
+
+// Adds only the imported sessions that were new, so importing the same file twice changes nothing.
+export const importBundle = async (
+  bundle: ImportedBundle,
+  currentStats: UserStats,
+  currentSettings: AppSettings,
+  currentTasks: StudyTask[],
+  applySettings: boolean
+): Promise<ImportSummary> => {
+  const records = bundle.sessions.map((s) => ({
+    session: {
+      id: s.id,
+      startedAt: new Date(s.startedAt),
+      endedAt: s.endedAt ? new Date(s.endedAt) : null,
+      finalStats: s.finalStats,
+      badgesEarned: Array.isArray(s.badgesEarned) ? s.badgesEarned : [],
+      taskId: s.taskId,
+    } as SessionRecord,
+    logs: s.logs.map((log): LogEntry => ({
+      ...log,
+      timestamp: new Date(log.timestamp),
+      sessionId: s.id,
+      feedback: log.feedback && { actualStatus: log.feedback.actualStatus, markedAt: new Date(log.feedback.markedAt) },
+    })),
+  }));
+
+  const added = new Set(await importSessions(records));
+
+  let focusSeconds = 0;
+  let distractions = 0;
+  const dailyStats = { ...currentStats.dailyStats };
+  const day = (date: Date) => {
+    const key = toDateKey(date);
+    return (dailyStats[key] = { ...(dailyStats[key] ?? createEmptyDailyStats()) });
+  };
+  const addedRecords = records.filter((r) => added.has(r.session.id));
+  addedRecords.forEach(({ session, logs }) => {
+    buildTimeline(logs).forEach((segment) => {
+      if (segment.status === FocusStatus.FOCUSED) {
+        const seconds = (segment.end.getTime() - segment.start.getTime()) / 1000;
+        focusSeconds += seconds;
+        day(segment.start).focusSeconds += Math.floor(seconds);
+      }
+    });
+    logs.forEach((l) => {
+      const status = effectiveStatus(l);
+      if (status !== FocusStatus.DISTRACTED && status !== FocusStatus.ABSENT) return;
+      distractions += 1;
+      day(l.timestamp).distractionCount += 1;
+    });
+  });
+
+  const taskStats = { ...currentStats.taskStats };
+  totalsByTask(addedRecords.flatMap((r) => r.logs)).forEach((total) => {
+    if (!total.taskId) return;
+    const prev = taskStats[total.taskId] ?? { focusSeconds: 0, distractionCount: 0 };
+    taskStats[total.taskId] = {
+      focusSeconds: prev.focusSeconds + Math.floor(total.focusedSeconds),
+      distractionCount: prev.distractionCount + total.distractionEvents,
+    };
+  });
+
+  const knownTaskIds = new Set(currentTasks.map((t) => t.id));
+  const newTasks = (bundle.tasks ?? []).filter((t) => !knownTaskIds.has(t.id));
+
+  const stats: UserStats = {
+    ...currentStats,
+    totalFocusTimeSeconds: currentStats.totalFocusTimeSeconds + Math.floor(focusSeconds),
+    longestStreakSeconds: Math.max(currentStats.longestStreakSeconds, bundle.stats.longestStreakSeconds),
+    distractionCount: currentStats.distractionCount + distractions,
+    badges: Array.from(new Set([...currentStats.badges, ...bundle.badges])),
+    taskStats,
+    dailyStats,
+    xp: currentStats.xp + Math.floor(focusSeconds / 60) * XP_PER_FOCUS_MINUTE,
+  };
+
+  return {
+    sessionsAdded: added.size,
+    sessionsSkipped: records.length - added.size,
+    stats,
+    settings: applySettings ? applyImportedSettings(currentSettings, bundle.settings) : currentSettings,
+    tasks: newTasks,
+  };
+};
+
+export const downloadFile = (filename: string, content: string, mimeType: string) => {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,27 @@
+import { EvidenceConfig, EvidenceSnapshot, FocusStatus } from "../types";
+
+export const DEFAULT_EVIDENCE: EvidenceConfig = {
+  enabled: false,
+  retentionDays: 7,
+  maxSnapshots: 200,
+};
+
+export const RETENTION_OPTIONS = [1, 3, 7, 14, 30];
+
+// Longest side of a stored thumbnail, in pixels; enough to tell a book from a phone
+export const THUMBNAIL_RESOLUTION = 240;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Only the start of an off-task episode is kept, not every reading while it lasts
+export const shouldKeepSnapshot = (config: EvidenceConfig, status: FocusStatus, changed: boolean): boolean =>
+  config.enabled && changed && (status === FocusStatus.DISTRACTED || status === FocusStatus.ABSENT);
+
+// IDs of snapshots past the retention period or beyond the count limit (oldest go first)
+export const expiredSnapshots = (snapshots: EvidenceSnapshot[], config: EvidenceConfig, now: Date): string[] => {
+  const cutoff = now.getTime() - config.retentionDays * DAY_MS;
+  const newestFirst = [...snapshots].sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+  return newestFirst
+    .filter((s, i) => s.timestamp.getTime() < cutoff || i >= config.maxSnapshots)
+    .map((s) => s.id);
+};
@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { FocusStatus, LogEntry } from "../types";
+import { applyCorrection } from "./feedback";
+import { createEmptyStats } from "./gamification";
+import { buildTimeline } from "./reports";
+
+const reading = (seconds: number, status: FocusStatus, intervalMs: number): LogEntry => ({
+  id: String(seconds),
+  timestamp: new Date(2026, 9, 19, 16, 0, seconds),
+  status,
+  message: "",
+  sessionId: "s1",
+  intervalMs,
+});
+
+describe("applyCorrection", () => {
+  // The interval scheduled after `previous` bounds the entry's time, not the entry's own interval
+  const previous = reading(0, FocusStatus.FOCUSED, 8000);
+  const entry = reading(8, FocusStatus.DISTRACTED, 30000);
+
+  it("moves the time the reports credit the reading with", () => {
+    const stats = applyCorrection(createEmptyStats(), entry, previous, FocusStatus.FOCUSED);
+    const corrected = { ...entry, feedback: { actualStatus: FocusStatus.FOCUSED, markedAt: new Date() } };
+    const [segment] = buildTimeline([previous, corrected]).filter(s => s.start.getTime() !== s.end.getTime());
+    expect(stats.totalFocusTimeSeconds).toBe(8);
+    expect((segment.end.getTime() - segment.start.getTime()) / 1000).toBe(8);
+  });
+
+  it("moves no time for a session's first reading", () => {
+    const stats = applyCorrection(createEmptyStats(), entry, null, FocusStatus.FOCUSED);
+    expect(stats.totalFocusTimeSeconds).toBe(0);
+  });
+
+  it("takes the distraction back", () => {
+    const stats = applyCorrection({ ...createEmptyStats(), distractionCount: 1 }, entry, previous, FocusStatus.FOCUSED);
+    expect(stats.distractionCount).toBe(0);
+  });
+});
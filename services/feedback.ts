@@ -0,0 +1,184 @@
+import { FeedbackRecord, FocusStatus, LogEntry, UserStats } from "../types";
+import { updateDailyStats } from "./gamification";
+import { XP_PER_FOCUS_MINUTE } from "./progression";
+import { PROFILE_KEYS, scopedKey } from "./profiles";
+import { effectiveStatus, readingCreditMs, toDateKey } from "./reports";
+import { translated } from "./i18n";
+
+// Statuses the analyzer can report, and so the ones a parent can correct to
+export const REVIEWABLE_STATUSES = [FocusStatus.FOCUSED, FocusStatus.DISTRACTED, FocusStatus.ABSENT];
+
+export const STATUS_LABELS = translated<FocusStatus>({
+  [FocusStatus.IDLE]: "statusLabel.idle",
+  [FocusStatus.FOCUSED]: "statusLabel.focused",
+  [FocusStatus.DISTRACTED]: "statusLabel.distracted",
+  [FocusStatus.ABSENT]: "statusLabel.absent",
+  [FocusStatus.ERROR]: "statusLabel.error",
+});
+
+const MAX_RECORDS = 500;
+// Corrections older than this window no longer shape the prompt, so fixed problems fade out
+const HINT_WINDOW = 100;
+// Images go with every cloud request, so only a few of the latest mistakes keep theirs
+export const MAX_IMAGE_EXAMPLES = 3;
+
+export const loadFeedback = (): FeedbackRecord[] => {
+  try {
+    const raw = localStorage.getItem(scopedKey(PROFILE_KEYS.feedback));
+    return raw ? JSON.parse(raw) : [];
+  } catch (e) {
+    console.warn("Failed to read analysis feedback", e);
+    return [];
+  }
+};
+
+export const saveFeedback = (records: FeedbackRecord[]) => {
+  try {
+    localStorage.setItem(scopedKey(PROFILE_KEYS.feedback), JSON.stringify(records));
+  } catch (e) {
+    console.error("Failed to save analysis feedback", e);
+  }
+};
+
+// Newest first. Replaces an earlier verdict on the same reading and strips images from all but
+// the newest MAX_IMAGE_EXAMPLES misclassifications.
+export const addFeedback = (records: FeedbackRecord[], record: FeedbackRecord): FeedbackRecord[] => {
+  let withImages = 0;
+  return [record, ...records.filter((r) => r.logId !== record.logId)].slice(0, MAX_RECORDS).map((r) => {
+    if (!r.image) return r;
+    if (r.predicted !== r.actual && withImages < MAX_IMAGE_EXAMPLES) {
+      withImages++;
+      return r;
+    }
+    const { image: _, ...rest } = r;
+    return rest;
+  });
+};
+
+// Correction images are copies of evidence snapshots (same id as the log entry). Once the
+// snapshot is deleted or purged, its copy must stop being stored and sent to the cloud too.
+export const dropDeletedImages = (records: FeedbackRecord[], snapshotIds: Set<string>): FeedbackRecord[] => {
+  if (!records.some((r) => r.image && !snapshotIds.has(r.logId))) return records;
+  return records.map((r) => {
+    if (!r.image || snapshotIds.has(r.logId)) return r;
+    const { image: _, ...rest } = r;
+    return rest;
+  });
+};
+
+const isOffTask = (status: FocusStatus) => status === FocusStatus.DISTRACTED || status === FocusStatus.ABSENT;
+
+/**
+ * Moves one reading's contribution from what it currently counts as to `actual`: focus time
+ * (and the XP for whole minutes), the distraction count, and the matching day and subject.
+ * The time moved is what the reports credit the reading with, so `previous` is the reading taken
+ * just before it. Streaks and badges already earned are left alone, since they cannot be replayed
+ * reliably.
+ */
+export const applyCorrection = (stats: UserStats, entry: LogEntry, previous: LogEntry | null, actual: FocusStatus): UserStats => {
+  const from = effectiveStatus(entry);
+  const seconds = Math.floor(readingCreditMs(entry, previous) / 1000);
+  const focusDelta = (actual === FocusStatus.FOCUSED ? seconds : 0) - (from === FocusStatus.FOCUSED ? seconds : 0);
+  const distractionDelta = (isOffTask(actual) ? 1 : 0) - (isOffTask(from) ? 1 : 0);
+  if (focusDelta === 0 && distractionDelta === 0) return stats;
+
+  const totalFocusTimeSeconds = Math.max(0, stats.totalFocusTimeSeconds + focusDelta);
+  const xpDelta = (Math.floor(totalFocusTimeSeconds / 60) - Math.floor(stats.totalFocusTimeSeconds / 60)) * XP_PER_FOCUS_MINUTE;
+  const next: UserStats = {
+    ...stats,
+    totalFocusTimeSeconds,
+    distractionCount: Math.max(0, stats.distractionCount + distractionDelta),
+    xp: Math.max(0, stats.xp + xpDelta),
+  };
+
+  const task = entry.taskId ? stats.taskStats[entry.taskId] : undefined;
+  if (entry.taskId && task) {
+    next.taskStats = {
+      ...stats.taskStats,
+      [entry.taskId]: {
+        focusSeconds: Math.max(0, task.focusSeconds + focusDelta),
+        distractionCount: Math.max(0, task.distractionCount + distractionDelta),
+      },
+    };
+  }
+
+  // Days past the retention window are gone; there is nothing left to adjust
+  if (stats.dailyStats[toDateKey(entry.timestamp)]) {
+    next.dailyStats = updateDailyStats(stats.dailyStats, entry.timestamp, (day) => ({
+      ...day,
+      focusSeconds: Math.max(0, day.focusSeconds + focusDelta),
+      distractionCount: Math.max(0, day.distractionCount + distractionDelta),
+    }));
+  }
+  return next;
+};
+
+export interface AccuracySummary {
+  reviewed: number;
+  correct: number;
+  accuracy: number | null; // 0..1, null before anything was reviewed
+  mistakes: { predicted: FocusStatus; actual: FocusStatus; count: number }[]; // Most frequent first
+}
+
+export const summarizeAccuracy = (records: FeedbackRecord[]): AccuracySummary => {
+  const correct = records.filter((r) => r.predicted === r.actual).length;
+  const counts = new Map<string, { predicted: FocusStatus; actual: FocusStatus; count: number }>();
+  records
+    .filter((r) => r.predicted !== r.actual)
+    .forEach((r) => {
+      const key = `${r.predicted}>${r.actual}`;
+      const entry = counts.get(key) ?? { predicted: r.predicted, actual: r.actual, count: 0 };
+      entry.count++;
+      counts.set(key, entry);
+    });
+  return {
+    reviewed: records.length,
+    correct,
+    accuracy: records.length > 0 ? correct / records.length : null,
+    mistakes: [...counts.values()].sort((a, b) => b.count - a.count),
+  };
+};
+
+export interface FeedbackExample {
+  image: string;
+  predicted: FocusStatus;
+  actual: FocusStatus;
+}
+
+// Extra prompt material derived from the parent's corrections; see analyzeFrame
+export interface FeedbackHints {
+  instructions: string[];
+  examples: FeedbackExample[];
+}
+
+export const EMPTY_HINTS: FeedbackHints = { instructions: [], examples: [] };
+
+// What the model most likely missed for each kind of mistake
+const MISTAKE_GUIDANCE: Partial<Record<`${FocusStatus}>${FocusStatus}`, string>> = {
+  [`${FocusStatus.DISTRACTED}>${FocusStatus.FOCUSED}`]:
+    "Reading material placed off to the side, pausing to think or glancing up briefly still counts as FOCUSED.",
+  [`${FocusStatus.FOCUSED}>${FocusStatus.DISTRACTED}`]:
+    "Sitting at the desk is not enough: if the eyes and hands are on something unrelated to the homework, it is DISTRACTED.",
+  [`${FocusStatus.ABSENT}>${FocusStatus.FOCUSED}`]:
+    "A child who is only partly in frame (arms, top of the head) is still present.",
+  [`${FocusStatus.ABSENT}>${FocusStatus.DISTRACTED}`]:
+    "A child who is only partly in frame (arms, top of the head) is still present.",
+  [`${FocusStatus.FOCUSED}>${FocusStatus.ABSENT}`]:
+    "An empty chair is ABSENT even when books are open on the desk.",
+  [`${FocusStatus.DISTRACTED}>${FocusStatus.ABSENT}`]:
+    "An empty chair is ABSENT, not DISTRACTED.",
+};
+
+export const buildFeedbackHints = (records: FeedbackRecord[]): FeedbackHints => {
+  const recent = records.slice(0, HINT_WINDOW);
+  const { mistakes } = summarizeAccuracy(recent);
+  const instructions = mistakes.map(({ predicted, actual, count }) => {
+    const guidance = MISTAKE_GUIDANCE[`${predicted}>${actual}`];
+    return `Parents corrected ${count} earlier reading(s) from ${predicted} to ${actual}.${guidance ? ` ${guidance}` : ""}`;
+  });
+  const examples = recent
+    .filter((r): r is FeedbackRecord & { image: string } => !!r.image && r.predicted !== r.actual)
+    .slice(0, MAX_IMAGE_EXAMPLES)
+    .map(({ image, predicted, actual }) => ({ image, predicted, actual }));
+  return { instructions, examples };
+};
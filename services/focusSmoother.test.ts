@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { FocusStatus } from "../types";
+import { createFocusSmoother, DEFAULT_SMOOTHING } from "./focusSmoother";
+
+const reading = (status: FocusStatus, confidence = 0.9) => ({ status, message: status, confidence });
+
+// Starts in FOCUSED: the first reading is taken as is
+const focusedSmoother = (config = DEFAULT_SMOOTHING) => {
+  const smoother = createFocusSmoother(config);
+  smoother.push(reading(FocusStatus.FOCUSED));
+  return smoother;
+};
+
+describe("createFocusSmoother", () => {
+  it("takes the first reading as the state", () => {
+    const result = createFocusSmoother().push(reading(FocusStatus.DISTRACTED, 0.1));
+    expect(result).toMatchObject({ status: FocusStatus.DISTRACTED, changed: true });
+  });
+
+  it("needs distractEvidence to leave FOCUSED", () => {
+    const smoother = focusedSmoother();
+    expect(smoother.push(reading(FocusStatus.DISTRACTED))).toMatchObject({ status: FocusStatus.FOCUSED, pending: FocusStatus.DISTRACTED, evidence: 0.9 });
+    expect(smoother.push(reading(FocusStatus.DISTRACTED))).toMatchObject({ status: FocusStatus.DISTRACTED, changed: true });
+  });
+
+  it("needs only recoverEvidence to come back", () => {
+    const smoother = focusedSmoother();
+    smoother.push(reading(FocusStatus.DISTRACTED));
+    smoother.push(reading(FocusStatus.DISTRACTED));
+    expect(smoother.push(reading(FocusStatus.FOCUSED, 0.8))).toMatchObject({ status: FocusStatus.FOCUSED, changed: true });
+  });
+
+  it("ignores readings below minConfidence", () => {
+    const smoother = focusedSmoother();
+    for (let i = 0; i < 5; i++) {
+      expect(smoother.push(reading(FocusStatus.DISTRACTED, 0.3))).toMatchObject({ status: FocusStatus.FOCUSED, evidence: 0 });
+    }
+  });
+
+  it("weights evidence by confidence", () => {
+    const smoother = focusedSmoother();
+    smoother.push(reading(FocusStatus.DISTRACTED, 0.5));
+    smoother.push(reading(FocusStatus.DISTRACTED, 0.5));
+    expect(smoother.push(reading(FocusStatus.DISTRACTED, 0.5)).status).toBe(FocusStatus.DISTRACTED);
+  });
+
+  it("starts over when a reading agrees with the current state", () => {
+    const smoother = focusedSmoother();
+    smoother.push(reading(FocusStatus.DISTRACTED));
+    smoother.push(reading(FocusStatus.FOCUSED));
+    expect(smoother.push(reading(FocusStatus.DISTRACTED)).status).toBe(FocusStatus.FOCUSED);
+  });
+
+  it("pools distracted and absent evidence when leaving FOCUSED", () => {
+    const smoother = focusedSmoother();
+    smoother.push(reading(FocusStatus.ABSENT));
+    expect(smoother.push(reading(FocusStatus.DISTRACTED, 0.7))).toMatchObject({ status: FocusStatus.ABSENT, changed: true });
+  });
+
+  it("never moves on errors", () => {
+    const smoother = focusedSmoother();
+    expect(smoother.push(reading(FocusStatus.ERROR))).toMatchObject({ status: FocusStatus.FOCUSED, changed: false });
+  });
+
+  it("passes every reading through when disabled", () => {
+    const smoother = focusedSmoother({ ...DEFAULT_SMOOTHING, enabled: false });
+    expect(smoother.push(reading(FocusStatus.DISTRACTED, 0.1))).toMatchObject({ status: FocusStatus.DISTRACTED, changed: true });
+  });
+});
@@ -0,0 +1,119 @@
+import { AnalysisResult, FocusStatus, SmoothingConfig } from "../types";
+import { translated } from "./i18n";
+
+export const DEFAULT_SMOOTHING: SmoothingConfig = {
+  enabled: true,
+  distractEvidence: 1.5, // About two confident readings (~10 s) before leaving FOCUSED
+  recoverEvidence: 0.8, // One confident reading is enough to come back
+  minConfidence: 0.4,
+};
+
+export interface SmoothedReading {
+  status: FocusStatus; // The debounced state the UI should show
+  message: string;
+  changed: boolean; // True when this reading switched the debounced state
+  pending: FocusStatus | null; // Challenger state currently gathering evidence
+  evidence: number; // Evidence gathered for the challenger so far
+}
+
+export interface FocusSmoother {
+  push: (result: AnalysisResult) => SmoothedReading;
+  configure: (config: SmoothingConfig) => void;
+  reset: () => void;
+}
+
+const DEFAULT_MESSAGES: Partial<Record<FocusStatus, string>> = translated({
+  [FocusStatus.FOCUSED]: "speech.focused",
+  [FocusStatus.DISTRACTED]: "speech.distracted",
+  [FocusStatus.ABSENT]: "speech.absent",
+});
+
+const isOffTask = (status: FocusStatus) => status === FocusStatus.DISTRACTED || status === FocusStatus.ABSENT;
+
+/**
+ * Debounces single-frame results with confidence-weighted evidence and asymmetric hysteresis.
+ * Each reading that disagrees with the current state adds its confidence to that challenger;
+ * a reading that agrees clears all challengers, so evidence must arrive consecutively.
+ * DISTRACTED and ABSENT pool their evidence when leaving FOCUSED, so alternating
+ * "looking away" / "left the seat" readings still count as one off-task episode.
+ */
+export const createFocusSmoother = (initialConfig: SmoothingConfig = DEFAULT_SMOOTHING): FocusSmoother => {
+  let config = initialConfig;
+  let current: FocusStatus = FocusStatus.IDLE;
+  let evidence = new Map<FocusStatus, number>();
+  const lastMessages = new Map<FocusStatus, string>();
+
+  const messageFor = (status: FocusStatus) => lastMessages.get(status) ?? DEFAULT_MESSAGES[status] ?? "";
+
+  const switchTo = (status: FocusStatus): SmoothedReading => {
+    current = status;
+    evidence = new Map();
+    return { status, message: messageFor(status), changed: true, pending: null, evidence: 0 };
+  };
+
+  const steady = (): SmoothedReading => {
+    let pending: FocusStatus | null = null;
+    let best = 0;
+    evidence.forEach((value, status) => {
+      if (value > best) {
+        best = value;
+        pending = status;
+      }
+    });
+    return { status: current, message: messageFor(current), changed: false, pending, evidence: best };
+  };
+
+  return {
+    push: (result) => {
+      // Errors never move the debounced state; callers handle them separately
+      if (result.status === FocusStatus.ERROR || result.status === FocusStatus.IDLE) return steady();
+
+      lastMessages.set(result.status, result.message);
+
+      if (!config.enabled || current === FocusStatus.IDLE) return switchTo(result.status);
+      if (result.confidence < config.minConfidence) return steady();
+
+      if (result.status === current) {
+        evidence = new Map();
+        return steady();
+      }
+
+      const weight = Math.min(1, Math.max(0, result.confidence));
+      evidence.set(result.status, (evidence.get(result.status) ?? 0) + weight);
+
+      if (result.status === FocusStatus.FOCUSED) {
+        // Any off-task challenger is interrupted by a focused reading
+        evidence.delete(FocusStatus.DISTRACTED);
+        evidence.delete(FocusStatus.ABSENT);
+        return evidence.get(FocusStatus.FOCUSED)! >= config.recoverEvidence ? switchTo(FocusStatus.FOCUSED) : steady();
+      }
+
+      evidence.delete(FocusStatus.FOCUSED);
+
+      if (current === FocusStatus.FOCUSED) {
+        const distracted = evidence.get(FocusStatus.DISTRACTED) ?? 0;
+        const absent = evidence.get(FocusStatus.ABSENT) ?? 0;
+        if (distracted + absent >= config.distractEvidence) {
+          return switchTo(absent > distracted ? FocusStatus.ABSENT : FocusStatus.DISTRACTED);
+        }
+        return steady();
+      }
+
+      // Moving between the two off-task states
+      if (isOffTask(current)) {
+        const other = evidence.get(result.status) ?? 0;
+        return other >= config.distractEvidence ? switchTo(result.status) : steady();
+      }
+
+      return steady();
+    },
+    configure: (next) => {
+      config = next;
+    },
+    reset: () => {
+      current = FocusStatus.IDLE;
+      evidence = new Map();
+      lastMessages.clear();
+    },
+  };
+};
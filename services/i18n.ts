@@ -0,0 +1,97 @@
+import { Language } from "../types";
+import { zh, MessageKey } from "./locales/zh";
+import { en } from "./locales/en";
+
+export type { MessageKey };
+
+// Device-wide rather than per child: the profile picker and the parent dashboard are shown
+// before any profile is loaded
+const LANGUAGE_KEY = "app_language";
+
+export interface LanguageOption {
+  id: Language;
+  label: string; // Written in the language itself so it can be found whatever is selected
+  speechLang: string; // BCP 47 tag for speech synthesis
+  modelName: string; // How the prompt names the language the model should reply in
+  preferredVoices: string[]; // Name fragments of voices that sound better than the default robot
+}
+
+export const LANGUAGES: LanguageOption[] = [
+  { id: "zh", label: "中文", speechLang: "zh-CN", modelName: "Chinese (Mandarin, simplified characters)", preferredVoices: ["Google", "Microsoft", "Siri", "Tingting"] },
+  { id: "en", label: "English", speechLang: "en-US", modelName: "English", preferredVoices: ["Google", "Microsoft", "Siri", "Samantha"] },
+];
+
+const BUNDLES: Record<Language, Record<MessageKey, string>> = { zh, en };
+
+const isLanguage = (value: unknown): value is Language => LANGUAGES.some((l) => l.id === value);
+
+const readLanguage = (): Language => {
+  try {
+    const saved = localStorage.getItem(LANGUAGE_KEY);
+    if (isLanguage(saved)) return saved;
+  } catch {
+    // Storage unavailable; fall through to the default
+  }
+  // Installs from before the setting existed were Chinese-only
+  return "zh";
+};
+
+export const languageOption = (language: Language = current): LanguageOption =>
+  LANGUAGES.find((l) => l.id === language) ?? LANGUAGES[0];
+
+// Lets the browser pick fonts and hyphenation for the language on screen
+const applyDocumentLanguage = (language: Language) => {
+  if (typeof document !== "undefined") document.documentElement.lang = languageOption(language).speechLang;
+};
+
+let current: Language = readLanguage();
+applyDocumentLanguage(current);
+
+export const getLanguage = (): Language => current;
+
+// Callers re-render afterwards; t() reads the language on every call
+export const setLanguage = (language: Language) => {
+  current = language;
+  localStorage.setItem(LANGUAGE_KEY, language);
+  applyDocumentLanguage(language);
+};
+
+// The key's text in every bundle, for recognising a value saved while another language was active
+export const allTranslations = (key: MessageKey): string[] => Object.values(BUNDLES).map((bundle) => bundle[key]);
+
+export type TranslateVars = Record<string, string | number>;
+
+// Looks the key up in the current bundle; {placeholders} without a value are left as written
+export const t = (key: MessageKey, vars: TranslateVars = {}): string =>
+  (BUNDLES[current][key] ?? zh[key]).replace(/\{(\w+)\}/g, (match, name: string) =>
+    vars[name] !== undefined ? String(vars[name]) : match
+  );
+
+// A label table whose values follow the current language, so module-level lookups such as
+// STATUS_LABELS[status] keep working unchanged
+export const translated = <K extends string>(keys: Record<K, MessageKey>): Record<K, string> => {
+  const record = {} as Record<K, string>;
+  (Object.keys(keys) as K[]).forEach((k) => {
+    Object.defineProperty(record, k, { get: () => t(keys[k]), enumerable: true });
+  });
+  return record;
+};
+
+/**
+ * Picks a speech voice for the language: a well-known voice in the exact locale first, then any
+ * well-known voice in the language, then whatever the browser has for it.
+ */
+export const pickVoice = (voices: SpeechSynthesisVoice[], language: Language = current): SpeechSynthesisVoice | undefined => {
+  const { speechLang, preferredVoices } = languageOption(language);
+  const base = speechLang.split("-")[0];
+  // Android reports tags like "zh_CN"
+  const normalized = (voice: SpeechSynthesisVoice) => voice.lang.replace("_", "-").toLowerCase();
+  const matching = voices.filter((v) => normalized(v).split("-")[0] === base);
+  const preferred = matching.filter((v) => preferredVoices.some((name) => v.name.includes(name)));
+  return (
+    preferred.find((v) => normalized(v) === speechLang.toLowerCase()) ??
+    preferred[0] ??
+    matching.find((v) => normalized(v) === speechLang.toLowerCase()) ??
+    matching[0]
+  );
+};
@@ -0,0 +1,131 @@
+import { ChildProfile, DailyScoreSubmission, LeaderboardEntry, LeaderboardRanking, LeaderboardSettings, LogEntry } from "../types";
+import { scoreLogs, ScoringContext } from "./scoring";
+import { toDateKey } from "./reports";
+import { getLogsInRange } from "./sessionStore";
+import { t } from "./i18n";
+
+const REQUEST_TIMEOUT_MS = 8000;
+
+// Stands in for the group list until a group has been joined
+export const LOCAL_GROUP = "本机";
+
+export const groupLabel = (group: string): string => (group === LOCAL_GROUP ? t("leaderboard.localGroup") : group);
+
+export const DEFAULT_LEADERBOARD: LeaderboardSettings = {
+  enabled: false,
+  endpoint: "http://192.168.1.2:8788",
+  groups: [],
+};
+
+export interface LeaderboardClient {
+  submitDailyScore: (submission: DailyScoreSubmission) => Promise<void>;
+  fetchRanking: (group: string, playerId: string) => Promise<LeaderboardRanking>;
+}
+
+// Weeks start on Monday, matching the school week
+export const startOfWeek = (date: Date): Date => {
+  const day = (date.getDay() + 6) % 7; // 0 = Monday
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() - day);
+};
+
+// Missing days count as zero, so steady daily practice beats one perfect evening
+export const weeklyScore = (dailyScores: number[]): number =>
+  Math.round(dailyScores.reduce((sum, s) => sum + s, 0) / 7);
+
+export const getTodayLogs = (now: Date = new Date()): Promise<LogEntry[]> =>
+  getLogsInRange(new Date(now.getFullYear(), now.getMonth(), now.getDate()), now);
+
+const request = async <T>(url: string, init?: RequestInit): Promise<T> => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+  try {
+    const response = await fetch(url, {
+      ...init,
+      signal: controller.signal,
+      headers: { "Content-Type": "application/json", ...init?.headers },
+    });
+    if (!response.ok) throw new Error(`Leaderboard server returned ${response.status}`);
+    return response.status === 204 ? (undefined as T) : ((await response.json()) as T);
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+export const createHttpLeaderboardClient = (endpoint: string): LeaderboardClient => {
+  const base = endpoint.replace(/\/+$/, "");
+  return {
+    submitDailyScore: async (submission) => {
+      await request<void>(`${base}/api/scores`, { method: "POST", body: JSON.stringify(submission) });
+    },
+    fetchRanking: async (group, playerId) => {
+      const data = await request<{ weekStart: string; entries: Omit<LeaderboardEntry, "isCurrentUser">[] }>(
+        `${base}/api/leaderboard?group=${encodeURIComponent(group)}`
+      );
+      return {
+        group,
+        weekStart: data.weekStart,
+        entries: data.entries
+          .map((e) => ({ ...e, isCurrentUser: e.id === playerId }))
+          .sort((a, b) => b.score - a.score),
+      };
+    },
+  };
+};
+
+// Offline fallback: ranks only the active profile's own week, computed from local history.
+export const createLocalLeaderboardClient = (profile: ChildProfile, scoring: ScoringContext): LeaderboardClient => ({
+  submitDailyScore: async () => {},
+  fetchRanking: async (group) => {
+    const now = new Date();
+    const weekStart = startOfWeek(now);
+    const logs = await getLogsInRange(weekStart, now);
+
+    const byDay = new Map<string, LogEntry[]>();
+    logs.forEach((log) => {
+      const key = toDateKey(log.timestamp);
+      byDay.set(key, [...(byDay.get(key) ?? []), log]);
+    });
+    const dailyScores = Array.from(byDay.values()).map((dayLogs) => scoreLogs(dayLogs, scoring).score);
+
+    return {
+      group,
+      weekStart: toDateKey(weekStart),
+      entries: [
+        {
+          id: profile.playerId,
+          name: profile.name,
+          avatar: profile.avatar,
+          score: weeklyScore(dailyScores),
+          daysActive: byDay.size,
+          isCurrentUser: true,
+        },
+      ],
+    };
+  },
+});
+
+export const createLeaderboardClient = (settings: LeaderboardSettings, profile: ChildProfile, scoring: ScoringContext): LeaderboardClient =>
+  settings.enabled && settings.endpoint ? createHttpLeaderboardClient(settings.endpoint) : createLocalLeaderboardClient(profile, scoring);
+
+export const submitTodayScore = async (
+  client: LeaderboardClient,
+  settings: LeaderboardSettings,
+  profile: ChildProfile,
+  scoring: ScoringContext
+): Promise<void> => {
+  if (!settings.enabled || settings.groups.length === 0) return;
+  const { score } = scoreLogs(await getTodayLogs(), scoring);
+  const date = toDateKey(new Date());
+  await Promise.all(
+    settings.groups.map((group) =>
+      client.submitDailyScore({
+        group,
+        playerId: profile.playerId,
+        name: profile.name,
+        avatar: profile.avatar,
+        date,
+        score,
+      })
+    )
+  );
+};
@@ -0,0 +1,165 @@
+import { AnalysisProvider, AnalysisResult, FocusStatus } from "../types";
+import { AnalysisError } from "./analysisErrors";
+import { t } from "./i18n";
+
+// Frames are reduced to a tiny grayscale/skin map; nothing here leaves the browser.
+const SAMPLE_WIDTH = 64;
+const SAMPLE_HEIGHT = 48;
+
+// Tuned by hand against a side-on desk setup (see the placement tip in settings)
+const ABSENT_SKIN_RATIO = 0.015;
+const PRESENT_SKIN_RATIO = 0.05;
+const STILL_MOTION = 0.008;
+const FIDGET_MOTION = 0.12;
+const LOOK_AWAY_YAW = 0.18;
+
+// Frames handed to the heuristics; plenty for a 64x48 sample and the FaceDetector
+export const LOCAL_FRAME_RESOLUTION = 320;
+
+// Results below this confidence are "ambiguous" and may be escalated in hybrid mode
+export const ESCALATION_CONFIDENCE = 0.7;
+
+// Minimal typing for the Shape Detection API, which is not in the TS DOM lib yet
+interface DetectedFace {
+  boundingBox: DOMRectReadOnly;
+  landmarks?: { type: string; locations: { x: number; y: number }[] }[];
+}
+interface FaceDetectorLike {
+  detect: (source: CanvasImageSource) => Promise<DetectedFace[]>;
+}
+type FaceDetectorCtor = new (options?: { fastMode?: boolean; maxDetectedFaces?: number }) => FaceDetectorLike;
+
+export interface FrameFeatures {
+  skinRatio: number; // Share of sampled pixels that look like skin
+  motion: number; // Mean absolute luminance change since the previous frame (0..1)
+  faceCount: number | null; // null when the browser has no FaceDetector
+  yaw: number | null; // Horizontal offset of the eyes from the face centre, -1..1
+}
+
+const isSkin = (r: number, g: number, b: number) => {
+  // Classic YCbCr skin box; robust enough across lighting for a presence signal
+  const cb = 128 - 0.168736 * r - 0.331264 * g + 0.5 * b;
+  const cr = 128 + 0.5 * r - 0.418688 * g - 0.081312 * b;
+  return cb >= 77 && cb <= 127 && cr >= 133 && cr <= 173;
+};
+
+const estimateYaw = (face: DetectedFace): number | null => {
+  const eyes = face.landmarks?.filter((l) => l.type === "eye").flatMap((l) => l.locations) ?? [];
+  if (eyes.length < 2) return null;
+  const eyeCenterX = eyes.reduce((sum, p) => sum + p.x, 0) / eyes.length;
+  const box = face.boundingBox;
+  return (eyeCenterX - (box.x + box.width / 2)) / (box.width / 2);
+};
+
+export const classifyFeatures = (features: FrameFeatures): AnalysisResult => {
+  const { skinRatio, motion, faceCount, yaw } = features;
+
+  if (faceCount === 0 && skinRatio < ABSENT_SKIN_RATIO) {
+    return { status: FocusStatus.ABSENT, message: t("speech.absent"), confidence: motion < STILL_MOTION ? 0.9 : 0.75 };
+  }
+  if (faceCount === null && skinRatio < ABSENT_SKIN_RATIO) {
+    return { status: FocusStatus.ABSENT, message: t("speech.absent"), confidence: motion < STILL_MOTION ? 0.8 : 0.55 };
+  }
+  if (yaw !== null && Math.abs(yaw) > LOOK_AWAY_YAW) {
+    return { status: FocusStatus.DISTRACTED, message: t("speech.distracted"), confidence: Math.min(0.9, 0.6 + Math.abs(yaw)) };
+  }
+  if (motion > FIDGET_MOTION) {
+    // Lots of movement is usually play, but could also be turning a page
+    return { status: FocusStatus.DISTRACTED, message: t("speech.distracted"), confidence: motion > FIDGET_MOTION * 2 ? 0.75 : 0.55 };
+  }
+
+  // Someone is at the desk and mostly still: the usual head-down writing pose
+  const confidence = skinRatio >= PRESENT_SKIN_RATIO ? 0.8 : 0.6;
+  return { status: FocusStatus.FOCUSED, message: t("speech.focused"), confidence };
+};
+
+// getFrame returns the rotated, cropped camera frame, or null while the camera is not ready
+export const createLocalProvider = (getFrame: (maxResolution: number) => HTMLCanvasElement | null): AnalysisProvider => {
+  const canvas = document.createElement("canvas");
+  canvas.width = SAMPLE_WIDTH;
+  canvas.height = SAMPLE_HEIGHT;
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+
+  const Detector = (window as unknown as { FaceDetector?: FaceDetectorCtor }).FaceDetector;
+  const faceDetector = Detector ? new Detector({ fastMode: true, maxDetectedFaces: 1 }) : null;
+
+  let previousLuma: Float32Array | null = null;
+
+  const extractFeatures = async (frame: HTMLCanvasElement): Promise<FrameFeatures> => {
+    if (!ctx) throw new Error("Canvas 2D context unavailable");
+    ctx.drawImage(frame, 0, 0, SAMPLE_WIDTH, SAMPLE_HEIGHT);
+    const { data } = ctx.getImageData(0, 0, SAMPLE_WIDTH, SAMPLE_HEIGHT);
+
+    const pixelCount = SAMPLE_WIDTH * SAMPLE_HEIGHT;
+    const luma = new Float32Array(pixelCount);
+    let skinPixels = 0;
+    let diffSum = 0;
+
+    for (let i = 0; i < pixelCount; i++) {
+      const r = data[i * 4], g = data[i * 4 + 1], b = data[i * 4 + 2];
+      luma[i] = (0.299 * r + 0.587 * g + 0.114 * b) / 255;
+      if (isSkin(r, g, b)) skinPixels++;
+      if (previousLuma) diffSum += Math.abs(luma[i] - previousLuma[i]);
+    }
+
+    const motion = previousLuma ? diffSum / pixelCount : 0;
+    previousLuma = luma;
+
+    let faceCount: number | null = null;
+    let yaw: number | null = null;
+    if (faceDetector) {
+      try {
+        const faces = await faceDetector.detect(frame);
+        faceCount = faces.length;
+        if (faces.length > 0) yaw = estimateYaw(faces[0]);
+      } catch (e) {
+        console.warn("FaceDetector failed, using pixel heuristics only", e);
+      }
+    }
+
+    return { skinRatio: skinPixels / pixelCount, motion, faceCount, yaw };
+  };
+
+  return {
+    id: "local",
+    get name() { return t("provider.local.name"); },
+    analyze: async () => {
+      const frame = getFrame(LOCAL_FRAME_RESOLUTION);
+      if (!frame) {
+        throw new AnalysisError("invalidFrame", "Invalid frame captured (empty data)");
+      }
+      return classifyFeatures(await extractFeatures(frame));
+    },
+    reset: () => {
+      previousLuma = null;
+    },
+  };
+};
+
+// Runs the local heuristics first and only sends the frame to the cloud when they are unsure.
+export const createHybridProvider = (
+  local: AnalysisProvider,
+  cloud: AnalysisProvider,
+  threshold: number = ESCALATION_CONFIDENCE
+): AnalysisProvider => ({
+  id: "hybrid",
+  get name() { return t("provider.hybrid.name"); },
+  analyze: async (base64Image: string) => {
+    const localResult = await local.analyze(base64Image);
+    if (localResult.confidence >= threshold) return localResult;
+
+    // Keep the local guess rather than surfacing a connection error; the cloud provider's own
+    // circuit breaker keeps it from being hammered while it is down
+    try {
+      const cloudResult = await cloud.analyze(base64Image);
+      return cloudResult.status === FocusStatus.ERROR ? localResult : cloudResult;
+    } catch (error) {
+      console.warn("Cloud analysis unavailable, using the local result", error);
+      return localResult;
+    }
+  },
+  reset: () => {
+    local.reset?.();
+    cloud.reset?.();
+  },
+});
@@ -0,0 +1,509 @@
+import { MessageKey } from "./zh";
+
+export const en: Record<MessageKey, string> = {
+  "error.missingKey": "No API key configured",
+  "error.auth": "API key rejected",
+  "error.rateLimit": "Request limit reached",
+  "error.network": "Network connection failed",
+  "error.malformed": "The AI's reply could not be read",
+  "error.invalidFrame": "Camera picture not ready",
+  "error.unknown": "AI analysis failed",
+  "error.checkSettings": "{label}. Check the settings, then start monitoring again",
+  "error.retryInMinutes": "{label}. Retrying automatically in about {minutes} min",
+  "error.retrySoon": "{label}. Retrying automatically shortly",
+
+  "reason.phone": "On a phone",
+  "reason.toy": "Playing with a toy",
+  "reason.talking": "Chatting",
+  "reason.sleeping": "Dozing off",
+  "reason.lookingAway": "Looking around",
+  "reason.leftSeat": "Left the seat",
+  "reason.other": "Other",
+
+  "posture.slouching": "Slouching",
+  "posture.tooClose": "Too close to the page",
+
+  "provider.gemini.name": "Cloud AI",
+  "provider.gemini.description": "Gemini analyzes the picture; needs a network connection and an API key",
+  "provider.local.name": "On-device",
+  "provider.local.description": "Decides on this device; the picture is never uploaded",
+  "provider.hybrid.name": "Hybrid",
+  "provider.hybrid.description": "Decides on the device first and asks the cloud AI only when unsure",
+  "provider.replay.name": "Demo",
+  "provider.replay.description": "Replays a recorded session offline without calling any AI",
+
+  "statusLabel.idle": "Not started",
+  "statusLabel.focused": "Focused",
+  "statusLabel.distracted": "Distracted",
+  "statusLabel.absent": "Away",
+  "statusLabel.error": "Error",
+
+  "parentAction.stop_attempt": "Tried to stop monitoring early",
+  "parentAction.stop_denied": "Stop refused (wrong PIN or cancelled)",
+  "parentAction.session_stopped": "Parent stopped monitoring",
+  "parentAction.settings_unlocked": "Parent opened the settings",
+  "parentAction.stats_reset": "Parent reset the stats",
+  "parentAction.pin_set": "Parent PIN set",
+  "parentAction.pin_removed": "Parent PIN removed",
+  "parentAction.log_corrected": "Parent corrected a reading",
+  "parentAction.profile_created": "A parent added a child",
+  "parentAction.profile_deleted": "A parent deleted a child and their data",
+
+  "pin.tooShort": "The PIN needs at least {min} digits",
+  "pin.lockedOut": "Too many wrong tries. Try again in {seconds} s",
+  "pin.wrong": "Wrong PIN",
+  "pin.prompt": "Parent PIN required",
+
+  "escalation.chime": "Chime",
+  "escalation.spoken": "Spoken reminder",
+  "escalation.parentClip": "Parent's recording",
+  "escalation.notifyParent": "Notify parent",
+
+  "studyPlan.toBreak": "Round {round} done. Take a {minutes}-minute break",
+  "studyPlan.toWork": "Break's over. Round {round} starts now, you can do it",
+  "studyPlan.done": "Today's study plan is complete. Amazing work",
+  "studyPlan.title": "Pomodoro study plan",
+  "studyPlan.hint": "Alternate study and break time; checks pause during breaks",
+  "studyPlan.work": "Study",
+  "studyPlan.break": "Break",
+  "studyPlan.rounds": "Rounds",
+  "studyPlan.unlimited": "no limit",
+  "studyPlan.roundUnit": "rounds",
+
+  "speech.focused": "Great job, keep it up",
+  "speech.distracted": "Let's focus on the homework",
+  "speech.absent": "Where did you go?",
+  "speech.returned": "You're back, well done",
+
+  "replay.empty": "The replay script is empty",
+
+  "weekday.today": "Today",
+  "weekday.0": "Sun",
+  "weekday.1": "Mon",
+  "weekday.2": "Tue",
+  "weekday.3": "Wed",
+  "weekday.4": "Thu",
+  "weekday.5": "Fri",
+  "weekday.6": "Sat",
+
+  "camera.fallbackLabel": "Camera {index}",
+  "camera.accessDenied": "Can't open the camera. Check the permission settings.",
+
+  "rank.apprentice": "Apprentice",
+  "rank.risingStar": "Rising Star",
+  "rank.handyLearner": "Handy Learner",
+  "rank.focusPro": "Focus Pro",
+  "rank.topStudent": "Top Student",
+  "rank.focusMaster": "Focus Master",
+
+  "scoring.preset.lower": "Lower primary (6-8)",
+  "scoring.preset.middle": "Middle primary (9-10)",
+  "scoring.preset.upper": "Upper primary (11-12)",
+  "scoring.preset.secondary": "Secondary (13+)",
+  "scoring.item.focus": "Focus time",
+  "scoring.item.base": "Base points",
+  "scoring.item.distracted": "Distractions",
+  "scoring.item.absent": "Away from desk",
+  "scoring.item.glances": "Brief glances",
+  "scoring.detail.minutes": "{focusMinutes} / {plannedMinutes} min",
+  "scoring.detail.times": "{count} × {penalty}",
+  "scoring.detail.glances": "{count}, each costing less",
+  "scoring.custom": "Custom",
+  "scoring.title": "Scoring",
+  "scoring.hint": "Daily goal and penalties by age.",
+  "scoring.plannedHint": " The study plan is on, so the goal is its {minutes} minutes.",
+  "scoring.target": "Daily goal",
+  "scoring.perDistraction": "Per distraction",
+  "scoring.perAbsence": "Per absence",
+  "scoring.points": "points off",
+  "scoring.glance": "Brief glance",
+  "scoring.pointsFrom": "points off, from",
+  "scoring.glanceSeconds": "Shorter than this counts as a brief glance (each costs less)",
+
+  "task.math": "Maths",
+  "task.chinese": "Chinese",
+  "task.english": "English",
+  "task.unassigned": "Unassigned",
+
+  "profile.defaultName": "Kiddo",
+  "profile.confirmDelete": "Delete {name}? Their study history, badges and settings will be removed for good.",
+  "profile.whoIsStudying": "Who's studying?",
+  "profile.add": "Add a child",
+  "profile.name": "Name",
+  "profile.create": "Create",
+
+  "badge.tier.bronze": "Bronze",
+  "badge.tier.silver": "Silver",
+  "badge.tier.gold": "Gold",
+  "badge.unit.minutes": "min",
+  "badge.unit.times": "times",
+  "badge.unit.days": "days",
+  "badge.unit.level": "lvl",
+  "badge.withTier": "{name} ({tier})",
+
+  "badgePack.notArray": "A badge file must be an array",
+  "badgePack.where": "Badge {index}",
+  "badgePack.missingRule": "{where} has no rule",
+  "badgePack.badMetric": "{where} has an invalid metric \"{value}\"",
+  "badgePack.badComparator": "{where} has an invalid comparator \"{value}\"",
+  "badgePack.badThreshold": "{where} needs a threshold of zero or more",
+  "badgePack.badWindow": "{where} has an invalid window \"{value}\"",
+  "badgePack.missingId": "{where} has no id",
+  "badgePack.colonInId": "{where} has a colon in its id",
+  "badgePack.duplicateId": "Badge id \"{id}\" is used twice",
+  "badgePack.missingText": "{where} is missing a name, description or icon",
+  "badgePack.requiresNotArray": "{where} needs \"requires\" to be an array",
+  "badgePack.badTier": "{where} can only use the tiers bronze / silver / gold",
+  "badgePack.badTierThreshold": "{where} needs tier thresholds of zero or more",
+  "badgePack.badDate": "{where} needs dates as YYYY-MM-DD",
+  "badgePack.badTranslations": "{where} needs \"translations\" to be an object",
+  "badgePack.badLanguage": "{where} uses an unsupported language \"{value}\"",
+  "badgePack.missingTranslation": "{where} is missing the {language} name or description",
+  "badgePack.invalidJson": "The file isn't valid JSON",
+  "badgePack.imported": "Imported {count} badges",
+  "badgePack.title": "Custom badges",
+  "badgePack.hint": "Import a badge pack (JSON) made by a teacher, such as holiday or seasonal badges",
+  "badgePack.import": "Import badge pack",
+
+  "import.notJson": "The file is not valid JSON",
+  "import.wrongFormat": "This is not a Focus Guardian export",
+  "import.tooNew": "The file comes from a newer version. Update the app first",
+  "import.badStats": "The stats in the file are incomplete",
+  "import.missingSessions": "The file has no study sessions",
+  "import.badBadges": "The badge data in the file is incomplete",
+  "import.missingSettings": "The file has no settings",
+  "import.badTasks": "The subjects in the file are malformed",
+  "import.badSession": "Study session {index} is malformed",
+  "import.badSessionEnd": "Study session {index} has an invalid end time",
+  "import.missingLogs": "Study session {index} has no log",
+  "import.badLog": "Study session {id} has an invalid log entry",
+
+  "persona.gentle.label": "Gentle",
+  "persona.gentle.description": "Patient and warm, lots of praise",
+  "persona.strict.label": "Strict teacher",
+  "persona.strict.description": "Brief and serious, no jokes",
+  "persona.playful.label": "Playful",
+  "persona.playful.description": "Light-hearted, like a game",
+  "persona.cartoon.label": "Cartoon character",
+  "persona.cartoon.description": "Talks like a character the child loves",
+
+  "ageGroup.preschool": "3-6",
+  "ageGroup.lowerPrimary": "6-9",
+  "ageGroup.upperPrimary": "9-12",
+  "ageGroup.teen": "12+",
+
+  "prompt.defaultCharacter": "Teddy",
+  "prompt.error.persona": "Choose a speaking style",
+  "prompt.error.ageGroup": "Choose the child's age group",
+  "prompt.error.characterMissing": "Enter the cartoon character's name",
+  "prompt.error.characterTooLong": "The character's name can be at most {max} characters",
+  "prompt.error.tooManyRules": "At most {max} house rules",
+  "prompt.error.emptyRule": "House rules cannot be empty",
+  "prompt.error.ruleTooLong": "Each house rule can be at most {max} characters",
+  "prompt.title": "How the AI talks",
+  "prompt.hint": "Tone, wording and house rules for the cloud AI. Every save keeps a version you can go back to",
+  "prompt.persona": "Style",
+  "prompt.characterPlaceholder": "Character name, e.g. Teddy",
+  "prompt.age": "Child's age",
+  "prompt.houseRules": "House rules (the AI follows them, e.g. \"music is fine\")",
+  "prompt.addRule": "Add a house rule",
+  "prompt.preview": "Preview: roughly what the AI will say",
+  "prompt.whenFocused": "Focused",
+  "prompt.whenDistracted": "Distracted",
+  "prompt.whenAbsent": "Away",
+  "prompt.hidePrompt": "Hide the full prompt",
+  "prompt.showPrompt": "Show the full prompt sent to the AI",
+  "prompt.discard": "Discard changes",
+  "prompt.save": "Save as new version",
+  "prompt.history": "Versions",
+  "prompt.ruleCount": "{count} house rules",
+  "prompt.inUse": "In use",
+  "prompt.restore": "Restore",
+
+  "messageCategory.distracted": "Distracted",
+  "messageCategory.absent": "Away from desk",
+  "messageCategory.encouragement": "Encouragement",
+  "messageCategory.badge": "Badge earned",
+  "messageCategory.sessionStart": "Session start",
+  "messageCategory.sessionEnd": "Session end",
+  "messageCategory.slouching": "Slouching",
+  "messageCategory.tooClose": "Too close to the page",
+
+  "messages.legacyRecording": "My recording",
+  "messages.storageFull": "Out of storage space. Delete some recordings and try again",
+  "messages.random": "Shuffle",
+  "messages.roundRobin": "In turn",
+  "messages.recordingLabel": "Recording {n}",
+  "messages.title": "Reminder library",
+  "messages.hint": "Prepare several sentences or recordings for each occasion; the app rotates them so they don't get old",
+  "messages.useModel": "Include AI reminders",
+  "messages.useModelHint": "When distracted, away or doing well, what the AI says about the picture takes a turn too",
+  "messages.empty": "Nothing here yet; the app stays quiet on this occasion",
+  "messages.disable": "Disable",
+  "messages.preview": "Preview",
+  "messages.placeholder": "Type a sentence, e.g. {name}, sit up nicely",
+  "messages.placeholderHint": "Sentences can use {placeholders} for the child's name, the badge and the current subject. A parent's recording sounds friendlier than the robot voice.",
+  "messages.sampleBadge": "Focus Rookie",
+  "messages.sampleTask": "Math",
+
+  "status.onBreak": "On a break",
+  "status.focused": "Focused",
+  "status.distracted": "Distracted",
+  "status.absent": "Nobody here",
+  "status.error": "Connection error",
+  "status.idle": "Ready to start",
+  "status.breakHint": "Checks are paused during the break. Have a drink of water",
+  "status.watching": "The AI is watching...",
+  "status.degraded": "Offline for now: {reason}",
+
+  "common.lockedWhileMonitoring": "Monitoring is running. Stop it to change this",
+  "common.lockedWhileMonitoringEdit": "Monitoring is running. Stop it to make changes",
+  "common.cancel": "Cancel",
+  "common.ok": "OK",
+  "common.minutes": "min",
+  "common.seconds": "s",
+  "common.times": "times",
+  "common.enable": "Enable",
+  "common.delete": "Delete",
+  "common.save": "Save",
+  "common.close": "Close",
+  "common.loading": "Loading...",
+  "common.add": "Add",
+  "common.saveFailed": "Could not save",
+  "common.listSeparator": ", ",
+  "common.sentenceSeparator": "; ",
+  "common.back": "Back",
+
+  "analysisMode.title": "Analysis mode",
+
+  "studyTimer.break": "Break",
+  "studyTimer.work": "Studying",
+  "studyTimer.roundOf": "Round {round}/{total}",
+  "studyTimer.round": "Round {round}",
+
+  "recorder.accessDenied": "Can't open the microphone. Allow access in the browser settings.",
+  "recorder.stop": "Stop recording",
+  "recorder.start": "Record a message",
+
+  "capture.title": "Photo frequency",
+  "capture.hint": "Takes fewer photos while focus is steady and speeds up as soon as anything changes, which cuts cloud AI calls a lot",
+  "capture.adaptive": "Adjust the interval automatically",
+  "capture.adaptiveHint": "Gradually lengthen the interval during steady focus",
+  "capture.minInterval": "Shortest interval",
+  "capture.interval": "Check interval",
+  "capture.maxInterval": "Longest interval",
+  "capture.skipUnchanged": "Don't upload unchanged pictures",
+  "capture.skipUnchangedHint": "Compares pictures on the device first and reuses the last result when almost nothing moved",
+  "capture.changeThreshold": "Change needed before uploading (smaller is more sensitive)",
+  "capture.maxResolution": "Largest upload size",
+  "capture.estimateBefore": "About ",
+  "capture.estimateAfter": " calls per hour",
+  "capture.estimateAdaptive": " (near the low end while focus is steady)",
+  "capture.estimateSkip": "Fewer still when the picture doesn't change",
+  "capture.estimateHybrid": "Hybrid mode only uploads when the device is unsure, so the real number is far lower",
+  "capture.noUploads": "The current analysis mode uploads no pictures and makes no API calls",
+
+  "smoothing.title": "False-alarm filter",
+  "smoothing.hint": "Only switches state after several matching readings, so a quick glance doesn't trigger a reminder",
+  "smoothing.distractEvidence": "Readings before \"distracted\"",
+  "smoothing.distractEvidenceHint": "Higher means fewer false alarms but later reminders (about 5 s per reading)",
+  "smoothing.recoverEvidence": "Readings before \"focused\" again",
+  "smoothing.recoverEvidenceHint": "Confirmations needed to return to focused; usually fewer than for distracted",
+  "smoothing.readings": "≈ {count} readings",
+  "smoothing.minConfidence": "Minimum confidence",
+  "smoothing.minConfidenceHint": "Readings the AI is less sure about are ignored",
+
+  "reminders.title": "Reminders",
+  "reminders.hint": "The longer the distraction, the stronger the reminder: a chime, then a spoken reminder, then the parent's recording, and finally a note to the parent",
+  "reminders.after": "after",
+  "reminders.secondsOff": "s off task",
+  "reminders.needsRelay": "Notifying the parent needs \"Parent remote view\" below to be on",
+  "reminders.cooldown": "Minimum gap between reminders",
+  "reminders.praiseEvery": "Praise after this much focus (0 = off)",
+  "reminders.postureEvery": "Minimum gap between posture reminders (slouching, too close to the page; 0 = off, cloud AI only)",
+  "reminders.quietHours": "Quiet hours",
+  "reminders.quietHint": "E.g. while a younger sibling naps. Reminders are muted but recording continues",
+  "reminders.to": "to",
+
+  "cameraSettings.title": "Camera",
+  "cameraSettings.hint": "With the phone to the side, use the back or an external camera and rotate the picture upright",
+  "cameraSettings.device": "Camera in use",
+  "cameraSettings.defaultDevice": "Default (front camera)",
+  "cameraSettings.missing": "The camera chosen before isn't connected; using the default for now",
+  "cameraSettings.rotation": "Rotation",
+  "cameraSettings.mirror": "Mirror",
+  "cameraSettings.roiOn": "Only the desk region is analyzed (about {percent}% of the picture)",
+  "cameraSettings.roiOff": "The whole picture is analyzed. Tap the crop button at the top right of the camera view on the home screen to keep just the desk",
+  "cameraSettings.clearRoi": "Clear region",
+
+  "evidence.title": "Distraction snapshots",
+  "evidence.hint": "Saves a small picture whenever the child is distracted or leaves the desk, so a parent can check the log for misreadings",
+  "evidence.privacy": "Snapshots are photos of the child. They stay on this device and are never uploaded, synced or exported. While on, the home screen always shows \"Snapshots on\".",
+  "evidence.retention": "Keep for (deleted automatically afterwards)",
+  "evidence.days": "{days} d",
+  "evidence.maxSnapshots": "Keep at most",
+  "evidence.photos": "photos",
+  "evidence.count": "{count} snapshots saved",
+  "evidence.deleteAll": "Delete all",
+
+  "gallery.absent": "Left the desk",
+  "gallery.distracted": "Distracted",
+  "gallery.back": "Back to list",
+  "gallery.review": "Mark right or wrong",
+  "gallery.empty": "No snapshots yet. Turn on \"Distraction snapshots\" in the settings.",
+
+  "review.title": "Was this reading right?",
+  "review.predicted": "The AI said ",
+  "review.correct": "Right",
+  "review.actually": "Wrong, it was actually:",
+  "review.hint": "A correction adjusts the stats and is shown to the AI as an example from now on",
+
+  "accuracy.title": "Reading accuracy",
+  "accuracy.hint": "Tap a log entry on the home screen, or a snapshot, to mark it right or wrong. Corrections adjust the stats and are given to the cloud AI as examples",
+  "accuracy.imagesUploaded": "When a corrected reading has a snapshot, the latest {max} are uploaded to the AI with every cloud check as examples ({count} right now). Deleting a snapshot deletes its example too.",
+  "accuracy.empty": "Nothing marked yet. This device's accuracy shows up here once you do.",
+  "accuracy.summary": "{reviewed} marked on this device, {correct} of them right",
+  "accuracy.mistake": "Read as {predicted}, actually {actual}",
+  "accuracy.count": "{count}×",
+  "accuracy.clear": "Clear marks",
+
+  "parent.pinMismatch": "The two PINs don't match",
+  "parent.confirmRemovePin": "Without a PIN the child can change settings and stop monitoring. Turn it off?",
+  "parent.title": "Parental controls",
+  "parent.pinOnHint": "On: opening settings or stopping early needs the parent PIN",
+  "parent.pinOffHint": "With a PIN set, the child can't change settings or stop early",
+  "parent.newPin": "New PIN (at least {min} digits)",
+  "parent.confirmPin": "Enter it again",
+  "parent.changePin": "Change PIN",
+  "parent.setPin": "Set a parent PIN",
+  "parent.removePin": "Turn off PIN",
+  "parent.resetStats": "Reset stats and badges",
+  "parent.recent": "Recent activity",
+
+  "dashboard.title": "Parent view",
+  "dashboard.room": "Room {room}",
+  "dashboard.connected": "Connected",
+  "dashboard.connecting": "Connecting",
+  "dashboard.disconnected": "Disconnected",
+  "dashboard.alertHint": "You may want to check in",
+  "dashboard.notMonitoring": "Monitoring hasn't started on the child's device",
+
+  "stats.focusTime": "Focus time",
+  "stats.distractions": "Distractions",
+  "stats.todayScore": "Today's focus score",
+  "stats.xp": "XP",
+  "stats.streak": "{days}-day study streak",
+  "stats.streakStart": "Start a new streak today",
+  "stats.longestStreak": "Best {days} days",
+  "stats.breakdown": "Score breakdown",
+  "stats.subjects": "Focus by subject",
+  "stats.badges": "Badges",
+
+  "log.empty": "No entries yet...",
+  "log.noMaterials": "no homework in view",
+
+  "reports.title": "Study report",
+  "reports.empty": "No study sessions in the last {days} days",
+  "reports.timeline": "Focus timeline",
+  "reports.timelineEmpty": "No readings were recorded this time",
+  "reports.lastDays": "Last {days} days",
+  "reports.dayTooltip": "Focused {focused}, distracted {count} times",
+  "reports.weekFocused": "Focused this week: ",
+  "reports.weekDistracted": ", distracted ",
+  "reports.weekDistractedSuffix": " times",
+  "reports.subjects": "By subject",
+  "reports.distractedTimes": "distracted {count} times",
+  "reports.reasons": "Why attention slipped",
+  "reports.mostlyFrom": "Most distractions came from ",
+  "reports.topReason": "The most common cause was ",
+  "reports.quotedReason": "\"{reason}\"",
+  "reports.percent": " ({percent}%)",
+  "reports.posture": "Posture: {issues}",
+  "reports.byHour": "Distractions by hour",
+  "reports.hour": "{hour}h",
+  "reports.peaks": "Easily distracted at: {hours}",
+
+  "leaderboard.unreachable": "Can't reach the leaderboard right now",
+  "leaderboard.title": "Friends leaderboard",
+  "leaderboard.weeklyReset": "Resets every Monday",
+  "leaderboard.weekly": "Weekly",
+  "leaderboard.localGroup": "This device",
+  "leaderboard.since": "from {date}",
+  "leaderboard.joinHint": "Join a class or friends group in the settings to compete with classmates",
+  "leaderboard.me": "(me)",
+  "leaderboard.daysActive": "Studied {days} days this week",
+  "leaderboard.settingsTitle": "Friends leaderboard",
+  "leaderboard.settingsHint": "Daily scores are uploaded to the class leaderboard, which restarts every Monday",
+  "leaderboard.endpoint": "Leaderboard server (npm run leaderboard)",
+  "leaderboard.playingAsBefore": "Competing as ",
+  "leaderboard.playingAsAfter": "",
+  "leaderboard.groups": "Class / friends group codes",
+  "leaderboard.groupPlaceholder": "e.g. Class 3B",
+
+  "app.title": "Focus Guard",
+  "app.switchProfile": "Switch child",
+  "app.badgeUnlocked": "New badge unlocked!",
+  "app.framesStayLocal": "Frames stay on device",
+  "app.snapshotsOn": "Snapshots on",
+  "app.stop": "Stop",
+  "app.start": "Start",
+  "app.liveLog": "Live log",
+  "app.snapshots": "Snapshots {count}",
+  "app.viewSnapshot": "View snapshot",
+  "app.tip": "Tip: place the phone in front of the desk, off to one side, so the AI can clearly see the child working. If you hear nothing, check that the phone isn't on silent (such as the switch on the side of an iPhone).",
+
+  "tasks.title": "Subjects",
+  "tasks.hint": "Pick a subject before starting; focus time is tracked per subject",
+  "tasks.changeIcon": "Change icon",
+  "tasks.target": "Goal",
+  "tasks.newPlaceholder": "New subject, e.g. Science",
+
+  "relay.title": "Remote parent view",
+  "relay.hint": "Sends live status to a parent's phone over the home network, without the cloud",
+  "relay.url": "Relay server address (npm run relay)",
+  "relay.room": "Room",
+  "relay.connected": "Connected to relay",
+  "relay.connecting": "Connecting...",
+  "relay.disconnected": "Not connected",
+  "relay.openLink": "Open this link on the parent's phone:",
+  "relay.copy": "Copy",
+
+  "transfer.exportFailed": "Export failed, please try again later",
+  "transfer.imported": "Imported {count} study sessions",
+  "transfer.skipped": ", skipped {count} duplicates",
+  "transfer.importFailed": "Import failed",
+  "transfer.title": "Export / import",
+  "transfer.hint": "Export study records to share with a teacher, or import them on a new device",
+  "transfer.applySettings": "Also import the settings in the file",
+  "transfer.importJson": "Import JSON file",
+
+  "alert.absent": "{name} has been away from the desk for about {minutes} min",
+  "alert.distracted": "{name} has been distracted for about {minutes} min",
+
+  "pinTitle.openSettings": "Open settings",
+  "pinTitle.viewSnapshots": "View distraction snapshots",
+  "pinTitle.reviewReading": "Mark a reading",
+  "pinTitle.stopEarly": "Stop monitoring early",
+  "pinTitle.createProfile": "Add a child",
+  "pinTitle.deleteProfile": "Delete a child",
+
+  "confirm.deleteSnapshots": "Delete all {count} distraction snapshots?",
+  "confirm.clearFeedback": "Clear all marks? Accuracy starts over and the AI stops using these examples; stats already adjusted stay as they are.",
+  "confirm.resetStats": "Reset focus time, XP and all badges? Study records are kept.",
+
+  "roi.edit": "Select the desk area",
+  "roi.hint": "Drag to outline the desk; only the area inside is analyzed",
+  "roi.fullFrame": "Full frame",
+  "roi.done": "Done",
+
+  "nav.monitor": "Monitor",
+  "nav.stats": "Achievements",
+  "nav.reports": "Reports",
+  "nav.settings": "Settings",
+
+  "audio.title": "Voice reminders",
+  "audio.hint": "When on, the app reminds the child out loud to stay focused",
+
+  "language.title": "语言 / Language",
+  "language.hint": "Switches the on-screen text, badges, the AI's replies and the reading voice",
+};
@@ -0,0 +1,511 @@
+// Simplified Chinese, the original language of the app. Every key lives here first; other
+// bundles must provide the same keys.
+export const zh = {
+  "error.missingKey": "未配置 API Key",
+  "error.auth": "API Key 无效",
+  "error.rateLimit": "调用次数超限",
+  "error.network": "网络连接失败",
+  "error.malformed": "AI 返回的结果无法识别",
+  "error.invalidFrame": "摄像头画面未就绪",
+  "error.unknown": "AI 分析失败",
+  "error.checkSettings": "{label}，请检查设置后重新开始监控",
+  "error.retryInMinutes": "{label}，约 {minutes} 分钟后自动重试",
+  "error.retrySoon": "{label}，稍后自动重试",
+
+  "reason.phone": "玩手机",
+  "reason.toy": "玩玩具",
+  "reason.talking": "说话聊天",
+  "reason.sleeping": "打瞌睡",
+  "reason.lookingAway": "东张西望",
+  "reason.leftSeat": "离开座位",
+  "reason.other": "其他",
+
+  "posture.slouching": "趴着写字",
+  "posture.tooClose": "离本子太近",
+
+  "provider.gemini.name": "云端 AI",
+  "provider.gemini.description": "使用 Gemini 分析画面，需要网络和 API Key",
+  "provider.local.name": "本地分析",
+  "provider.local.description": "在手机上直接判断，画面不会上传",
+  "provider.hybrid.name": "混合模式",
+  "provider.hybrid.description": "优先本地判断，拿不准时才上传给云端 AI",
+  "provider.replay.name": "演示模式",
+  "provider.replay.description": "离线回放预设的专注记录，不调用任何 AI",
+
+  "statusLabel.idle": "未开始",
+  "statusLabel.focused": "专注",
+  "statusLabel.distracted": "分心",
+  "statusLabel.absent": "无人",
+  "statusLabel.error": "出错",
+
+  "parentAction.stop_attempt": "尝试提前停止监控",
+  "parentAction.stop_denied": "停止监控被拒绝（密码错误或取消）",
+  "parentAction.session_stopped": "家长停止了监控",
+  "parentAction.settings_unlocked": "家长打开了设置",
+  "parentAction.stats_reset": "家长重置了统计数据",
+  "parentAction.pin_set": "设置了家长密码",
+  "parentAction.pin_removed": "关闭了家长密码",
+  "parentAction.log_corrected": "家长更正了一条识别结果",
+  "parentAction.profile_created": "家长添加了一个小朋友",
+  "parentAction.profile_deleted": "家长删除了一个小朋友及其数据",
+
+  "pin.tooShort": "密码至少需要 {min} 位",
+  "pin.lockedOut": "错误次数太多，请 {seconds} 秒后再试",
+  "pin.wrong": "密码不对哦",
+  "pin.prompt": "请家长输入密码",
+
+  "escalation.chime": "提示音",
+  "escalation.spoken": "语音提醒",
+  "escalation.parentClip": "家长录音",
+  "escalation.notifyParent": "通知家长",
+
+  "studyPlan.toBreak": "第 {round} 轮完成，休息 {minutes} 分钟吧",
+  "studyPlan.toWork": "休息结束，开始第 {round} 轮学习，加油",
+  "studyPlan.done": "今天的学习计划完成啦，真了不起",
+  "studyPlan.title": "番茄钟学习计划",
+  "studyPlan.hint": "按 学习 / 休息 交替进行，休息时暂停检测",
+  "studyPlan.work": "学习",
+  "studyPlan.break": "休息",
+  "studyPlan.rounds": "轮数",
+  "studyPlan.unlimited": "不限",
+  "studyPlan.roundUnit": "轮",
+
+  "speech.focused": "很棒，继续保持",
+  "speech.distracted": "请专心写作业哦",
+  "speech.absent": "人去哪里了",
+  "speech.returned": "回来了，真棒",
+
+  "replay.empty": "回放脚本为空",
+
+  "weekday.today": "今天",
+  "weekday.0": "周日",
+  "weekday.1": "周一",
+  "weekday.2": "周二",
+  "weekday.3": "周三",
+  "weekday.4": "周四",
+  "weekday.5": "周五",
+  "weekday.6": "周六",
+
+  "camera.fallbackLabel": "摄像头 {index}",
+  "camera.accessDenied": "无法访问摄像头，请检查权限设置。",
+
+  "rank.apprentice": "见习学徒",
+  "rank.risingStar": "专注新星",
+  "rank.handyLearner": "学习小能手",
+  "rank.focusPro": "专注达人",
+  "rank.topStudent": "小学霸",
+  "rank.focusMaster": "专注大师",
+
+  "scoring.preset.lower": "低年级 (6-8 岁)",
+  "scoring.preset.middle": "中年级 (9-10 岁)",
+  "scoring.preset.upper": "高年级 (11-12 岁)",
+  "scoring.preset.secondary": "初中 (13 岁+)",
+  "scoring.item.focus": "专注时长",
+  "scoring.item.base": "基础分",
+  "scoring.item.distracted": "分心",
+  "scoring.item.absent": "离开座位",
+  "scoring.item.glances": "短暂走神",
+  "scoring.detail.minutes": "{focusMinutes} / {plannedMinutes} 分钟",
+  "scoring.detail.times": "{count} 次 × {penalty}",
+  "scoring.detail.glances": "{count} 次，逐次递减",
+  "scoring.custom": "自定义",
+  "scoring.title": "评分标准",
+  "scoring.hint": "按年龄设定每天的目标和扣分力度。",
+  "scoring.plannedHint": " 已开启番茄钟，目标按计划的 {minutes} 分钟计算。",
+  "scoring.target": "每日目标",
+  "scoring.perDistraction": "分心一次",
+  "scoring.perAbsence": "离开一次",
+  "scoring.points": "扣分",
+  "scoring.glance": "短暂走神",
+  "scoring.pointsFrom": "扣分起",
+  "scoring.glanceSeconds": "短于多少秒算短暂走神（扣分逐次递减）",
+
+  "task.math": "数学",
+  "task.chinese": "语文",
+  "task.english": "英语",
+  "task.unassigned": "未分类",
+
+  "profile.defaultName": "小朋友",
+  "profile.confirmDelete": "确定删除 {name} 吗？TA 的学习记录、徽章和设置都会被删除，无法恢复。",
+  "profile.whoIsStudying": "谁要开始学习？",
+  "profile.add": "添加小朋友",
+  "profile.name": "名字",
+  "profile.create": "创建",
+
+  "badge.tier.bronze": "铜牌",
+  "badge.tier.silver": "银牌",
+  "badge.tier.gold": "金牌",
+  "badge.unit.minutes": "分钟",
+  "badge.unit.times": "次",
+  "badge.unit.days": "天",
+  "badge.unit.level": "级",
+  "badge.withTier": "{name}（{tier}）",
+
+  "badgePack.notArray": "徽章文件应该是一个数组",
+  "badgePack.where": "第 {index} 个徽章",
+  "badgePack.missingRule": "{where}缺少规则",
+  "badgePack.badMetric": "{where}的指标 \"{value}\" 无效",
+  "badgePack.badComparator": "{where}的比较符 \"{value}\" 无效",
+  "badgePack.badThreshold": "{where}的阈值必须是非负数",
+  "badgePack.badWindow": "{where}的时间范围 \"{value}\" 无效",
+  "badgePack.missingId": "{where}缺少 id",
+  "badgePack.colonInId": "{where}的 id 不能包含冒号",
+  "badgePack.duplicateId": "徽章 id \"{id}\" 重复",
+  "badgePack.missingText": "{where}缺少名称、描述或图标",
+  "badgePack.requiresNotArray": "{where}的 requires 应该是数组",
+  "badgePack.badTier": "{where}的等级只能是 bronze / silver / gold",
+  "badgePack.badTierThreshold": "{where}的等级阈值必须是非负数",
+  "badgePack.badDate": "{where}的日期格式应为 YYYY-MM-DD",
+  "badgePack.badTranslations": "{where}的 translations 应该是对象",
+  "badgePack.badLanguage": "{where}的语言 \"{value}\" 不受支持",
+  "badgePack.missingTranslation": "{where}的{language}翻译缺少名称或描述",
+  "badgePack.invalidJson": "文件不是有效的 JSON",
+  "badgePack.imported": "已导入 {count} 个徽章",
+  "badgePack.title": "自定义徽章",
+  "badgePack.hint": "导入老师制作的徽章包（JSON），例如寒假或节日限定徽章",
+  "badgePack.import": "导入徽章包",
+
+  "import.notJson": "文件不是有效的 JSON",
+  "import.wrongFormat": "这不是专注卫士导出的文件",
+  "import.tooNew": "文件版本过新，请先升级应用",
+  "import.badStats": "文件中的统计数据不完整",
+  "import.missingSessions": "文件中缺少学习记录",
+  "import.badBadges": "文件中的徽章数据不完整",
+  "import.missingSettings": "文件中缺少设置",
+  "import.badTasks": "文件中的科目数据格式错误",
+  "import.badSession": "第 {index} 条学习记录格式错误",
+  "import.badSessionEnd": "第 {index} 条学习记录的结束时间无效",
+  "import.missingLogs": "第 {index} 条学习记录缺少日志",
+  "import.badLog": "学习记录 {id} 中有无效的日志",
+
+  "persona.gentle.label": "温柔鼓励",
+  "persona.gentle.description": "耐心温和，多表扬",
+  "persona.strict.label": "严格老师",
+  "persona.strict.description": "简短严肃，不开玩笑",
+  "persona.playful.label": "活泼有趣",
+  "persona.playful.description": "轻松幽默，像玩游戏",
+  "persona.cartoon.label": "卡通角色",
+  "persona.cartoon.description": "用孩子喜欢的角色口吻说话",
+
+  "ageGroup.preschool": "3-6 岁",
+  "ageGroup.lowerPrimary": "6-9 岁",
+  "ageGroup.upperPrimary": "9-12 岁",
+  "ageGroup.teen": "12 岁以上",
+
+  "prompt.defaultCharacter": "小熊",
+  "prompt.error.persona": "请选择一种说话风格",
+  "prompt.error.ageGroup": "请选择孩子的年龄段",
+  "prompt.error.characterMissing": "请填写卡通角色的名字",
+  "prompt.error.characterTooLong": "角色名字不能超过 {max} 个字",
+  "prompt.error.tooManyRules": "家规最多 {max} 条",
+  "prompt.error.emptyRule": "家规不能为空",
+  "prompt.error.ruleTooLong": "每条家规不能超过 {max} 个字",
+  "prompt.title": "AI 说话方式",
+  "prompt.hint": "云端 AI 的语气、用词和家里的规矩。每次保存都会留一个版本，随时可以恢复",
+  "prompt.persona": "说话风格",
+  "prompt.characterPlaceholder": "角色名字，例如：小熊",
+  "prompt.age": "孩子年龄",
+  "prompt.houseRules": "家规（AI 会照着判断，例如“听音乐没关系”）",
+  "prompt.addRule": "添加一条家规",
+  "prompt.preview": "预览：AI 大概会这样说",
+  "prompt.whenFocused": "专注时",
+  "prompt.whenDistracted": "分心时",
+  "prompt.whenAbsent": "离开时",
+  "prompt.hidePrompt": "收起完整提示词",
+  "prompt.showPrompt": "查看发送给 AI 的完整提示词",
+  "prompt.discard": "撤销修改",
+  "prompt.save": "保存为新版本",
+  "prompt.history": "历史版本",
+  "prompt.ruleCount": "{count} 条家规",
+  "prompt.inUse": "使用中",
+  "prompt.restore": "恢复",
+
+  "messageCategory.distracted": "分心提醒",
+  "messageCategory.absent": "离开座位",
+  "messageCategory.encouragement": "专注鼓励",
+  "messageCategory.badge": "获得徽章",
+  "messageCategory.sessionStart": "开始学习",
+  "messageCategory.sessionEnd": "结束学习",
+  "messageCategory.slouching": "趴着写字",
+  "messageCategory.tooClose": "离本子太近",
+
+  "messages.legacyRecording": "我的录音",
+  "messages.storageFull": "存储空间不足，请删除一些录音后再试",
+  "messages.random": "随机播放",
+  "messages.roundRobin": "轮流播放",
+  "messages.recordingLabel": "录音 {n}",
+  "messages.title": "提醒语音库",
+  "messages.hint": "每种场合可以准备多句话或多段录音，APP 会换着说，孩子不容易听腻",
+  "messages.useModel": "加入 AI 生成的提醒",
+  "messages.useModelHint": "分心、离开和鼓励时，AI 根据画面说的话也会轮到",
+  "messages.empty": "还没有内容，这种场合会保持安静",
+  "messages.disable": "停用",
+  "messages.preview": "试听",
+  "messages.placeholder": "输入一句话，例如 {name}，坐端正哦",
+  "messages.placeholderHint": "文字里可以用 {placeholders} 代表孩子的名字、徽章名和当前科目。家长的录音比机器人的声音更亲切。",
+  "messages.sampleBadge": "专注新手",
+  "messages.sampleTask": "数学",
+
+  "status.onBreak": "休息中",
+  "status.focused": "专注中",
+  "status.distracted": "分心了",
+  "status.absent": "无人",
+  "status.error": "连接错误",
+  "status.idle": "等待开始",
+  "status.breakHint": "休息时间暂停检测，喝口水吧",
+  "status.watching": "AI 正在监看中...",
+  "status.degraded": "暂时离线：{reason}",
+
+  "common.lockedWhileMonitoring": "监控进行中，停止后才能切换",
+  "common.lockedWhileMonitoringEdit": "监控进行中，停止后才能修改",
+  "common.cancel": "取消",
+  "common.ok": "确定",
+  "common.minutes": "分钟",
+  "common.seconds": "秒",
+  "common.times": "次",
+  "common.enable": "启用",
+  "common.delete": "删除",
+  "common.save": "保存",
+  "common.close": "关闭",
+  "common.loading": "加载中...",
+  "common.add": "添加",
+  "common.saveFailed": "保存失败",
+  "common.listSeparator": "、",
+  "common.sentenceSeparator": "；",
+  "common.back": "返回",
+
+  "analysisMode.title": "分析方式",
+
+  "studyTimer.break": "休息中",
+  "studyTimer.work": "学习中",
+  "studyTimer.roundOf": "第 {round}/{total} 轮",
+  "studyTimer.round": "第 {round} 轮",
+
+  "recorder.accessDenied": "无法访问麦克风，请在手机浏览器设置中允许权限。",
+  "recorder.stop": "停止录音",
+  "recorder.start": "录一段语音",
+
+  "capture.title": "拍照频率",
+  "capture.hint": "专注稳定时少拍几张，状态一变马上恢复，能明显减少云端 AI 的调用次数",
+  "capture.adaptive": "自动调整间隔",
+  "capture.adaptiveHint": "连续专注时逐渐拉长间隔",
+  "capture.minInterval": "最短间隔",
+  "capture.interval": "检查间隔",
+  "capture.maxInterval": "最长间隔",
+  "capture.skipUnchanged": "画面没变化时不上传",
+  "capture.skipUnchangedHint": "先在本地比较画面，几乎没动就沿用上一次的结果",
+  "capture.changeThreshold": "变化超过多少才上传 (越小越灵敏)",
+  "capture.maxResolution": "上传图片最大尺寸",
+  "capture.estimateBefore": "预计每小时调用 ",
+  "capture.estimateAfter": " 次",
+  "capture.estimateAdaptive": "（专注稳定时接近下限）",
+  "capture.estimateSkip": "画面不变时还会更少",
+  "capture.estimateHybrid": "混合模式只在本地拿不准时上传，实际次数远低于此",
+  "capture.noUploads": "当前分析方式不上传画面，不产生 API 调用",
+
+  "smoothing.title": "防误报",
+  "smoothing.hint": "连续几次判断一致才切换状态，避免瞄一眼就被提醒",
+  "smoothing.distractEvidence": "判定分心所需次数",
+  "smoothing.distractEvidenceHint": "数值越大越不容易误报，但提醒会晚一些（每次约 5 秒）",
+  "smoothing.recoverEvidence": "恢复专注所需次数",
+  "smoothing.recoverEvidenceHint": "回到专注状态需要的确认次数，通常比分心更少",
+  "smoothing.readings": "≈ {count} 次",
+  "smoothing.minConfidence": "最低可信度",
+  "smoothing.minConfidenceHint": "AI 把握低于此值的判断会被忽略",
+
+  "reminders.title": "提醒规则",
+  "reminders.hint": "分心越久提醒越重：先是提示音，再是语音，然后播放家长录音，最后通知家长",
+  "reminders.after": "分心",
+  "reminders.secondsOff": "秒后",
+  "reminders.needsRelay": "通知家长需要先开启下面的「家长远程查看」",
+  "reminders.cooldown": "两次提醒至少间隔",
+  "reminders.praiseEvery": "连续专注多久表扬 (0 关闭)",
+  "reminders.postureEvery": "坐姿提醒至少间隔 (趴着写字、离本子太近；0 关闭，仅云端 AI 能识别)",
+  "reminders.quietHours": "免打扰时段",
+  "reminders.quietHint": "例如弟弟妹妹午睡时，只静音不停止记录",
+  "reminders.to": "至",
+
+  "cameraSettings.title": "摄像头",
+  "cameraSettings.hint": "手机放在侧面时可以用后置摄像头或外接摄像头，再旋转到正确方向",
+  "cameraSettings.device": "使用的摄像头",
+  "cameraSettings.defaultDevice": "默认（前置摄像头）",
+  "cameraSettings.missing": "之前选择的摄像头没有连接，暂时使用默认摄像头",
+  "cameraSettings.rotation": "旋转",
+  "cameraSettings.mirror": "镜像翻转",
+  "cameraSettings.roiOn": "只分析书桌区域（约占画面 {percent}%）",
+  "cameraSettings.roiOff": "分析整个画面。在首页点击画面右上角的框选按钮，可以只保留书桌区域",
+  "cameraSettings.clearRoi": "清除框选",
+
+  "evidence.title": "分心快照",
+  "evidence.hint": "每次分心或离开座位时保存一张小图，方便家长在日志里回看是不是误判",
+  "evidence.privacy": "快照是孩子的照片，只保存在这台设备上，不会上传、同步或导出。开启后首页画面上会一直显示“快照已开启”。",
+  "evidence.retention": "保留天数（过期自动删除）",
+  "evidence.days": "{days}天",
+  "evidence.maxSnapshots": "最多保存",
+  "evidence.photos": "张",
+  "evidence.count": "目前保存了 {count} 张快照",
+  "evidence.deleteAll": "全部删除",
+
+  "gallery.absent": "离开座位",
+  "gallery.distracted": "分心",
+  "gallery.back": "返回列表",
+  "gallery.review": "标记对错",
+  "gallery.empty": "还没有快照。可以在设置里开启“分心快照”。",
+
+  "review.title": "这次判断对吗？",
+  "review.predicted": "AI 判断为 ",
+  "review.correct": "判断正确",
+  "review.actually": "判断错了，实际是：",
+  "review.hint": "更正后会调整统计数据，并让 AI 以后参考这次的情况",
+
+  "accuracy.title": "识别准确率",
+  "accuracy.hint": "在首页点击日志或在快照里标记判断对不对。更正会调整统计，并作为例子提供给云端 AI",
+  "accuracy.imagesUploaded": "更正时如果有快照，最近 {max} 张会随每次云端分析一起上传给 AI 作为例子（当前 {count} 张）。删除快照后对应的例子也会删除。",
+  "accuracy.empty": "还没有标记过。这台设备的准确率会在标记后显示在这里。",
+  "accuracy.summary": "本设备已标记 {reviewed} 条，{correct} 条判断正确",
+  "accuracy.mistake": "判断为{predicted}，实际是{actual}",
+  "accuracy.count": "{count} 次",
+  "accuracy.clear": "清除标记记录",
+
+  "parent.pinMismatch": "两次输入的密码不一样",
+  "parent.confirmRemovePin": "关闭后，小朋友可以随意修改设置和停止监控。确定关闭吗？",
+  "parent.title": "家长控制",
+  "parent.pinOnHint": "已开启：打开设置、提前停止监控都需要家长密码",
+  "parent.pinOffHint": "设置密码后，小朋友不能自己改设置或提前停止",
+  "parent.newPin": "新密码（至少 {min} 位数字）",
+  "parent.confirmPin": "再输入一次",
+  "parent.changePin": "修改密码",
+  "parent.setPin": "设置家长密码",
+  "parent.removePin": "关闭密码",
+  "parent.resetStats": "重置统计和徽章",
+  "parent.recent": "最近记录",
+
+  "dashboard.title": "家长查看",
+  "dashboard.room": "房间 {room}",
+  "dashboard.connected": "已连接",
+  "dashboard.connecting": "连接中",
+  "dashboard.disconnected": "已断开",
+  "dashboard.alertHint": "可能需要您过去看看",
+  "dashboard.notMonitoring": "孩子端目前没有开始监控",
+
+  "stats.focusTime": "专注时长",
+  "stats.distractions": "分心次数",
+  "stats.todayScore": "今日专注力评分",
+  "stats.xp": "经验值",
+  "stats.streak": "连续学习 {days} 天",
+  "stats.streakStart": "今天开始新的连续记录吧",
+  "stats.longestStreak": "最长 {days} 天",
+  "stats.breakdown": "评分明细",
+  "stats.subjects": "各科专注",
+  "stats.badges": "成就徽章",
+
+  "log.empty": "暂无记录...",
+  "log.noMaterials": "没看到作业本",
+
+  "reports.title": "学习报告",
+  "reports.empty": "最近 {days} 天还没有学习记录",
+  "reports.timeline": "专注时间线",
+  "reports.timelineEmpty": "这次没有记录到检测结果",
+  "reports.lastDays": "近 {days} 天",
+  "reports.dayTooltip": "专注 {focused}，分心 {count} 次",
+  "reports.weekFocused": "本周共专注 ",
+  "reports.weekDistracted": "，分心 ",
+  "reports.weekDistractedSuffix": " 次",
+  "reports.subjects": "科目分布",
+  "reports.distractedTimes": "分心 {count} 次",
+  "reports.reasons": "分心原因",
+  "reports.mostlyFrom": "大部分分心来自",
+  "reports.topReason": "最常见的分心原因是",
+  "reports.quotedReason": "「{reason}」",
+  "reports.percent": "（{percent}%）",
+  "reports.posture": "坐姿问题：{issues}",
+  "reports.byHour": "分心时段",
+  "reports.hour": "{hour}时",
+  "reports.peaks": "容易分心的时间：{hours}",
+
+  "leaderboard.unreachable": "排行榜暂时连不上",
+  "leaderboard.title": "好友排行",
+  "leaderboard.weeklyReset": "每周一重置",
+  "leaderboard.weekly": "每周",
+  "leaderboard.localGroup": "本机",
+  "leaderboard.since": "{date} 起",
+  "leaderboard.joinHint": "在设置里加入班级或好友小组后，就能和同学一起比拼啦",
+  "leaderboard.me": "(我)",
+  "leaderboard.daysActive": "本周学习 {days} 天",
+  "leaderboard.settingsTitle": "好友排行榜",
+  "leaderboard.settingsHint": "每天的评分会上传到班级排行榜，每周一重新开始",
+  "leaderboard.endpoint": "排行榜服务器（npm run leaderboard）",
+  "leaderboard.playingAsBefore": "以 ",
+  "leaderboard.playingAsAfter": " 的身份参加排行",
+  "leaderboard.groups": "班级 / 好友小组代码",
+  "leaderboard.groupPlaceholder": "例如 三年二班",
+
+  "app.title": "专注卫士",
+  "app.switchProfile": "切换小朋友",
+  "app.badgeUnlocked": "解锁新成就!",
+  "app.framesStayLocal": "画面不上传",
+  "app.snapshotsOn": "快照已开启",
+  "app.stop": "停止",
+  "app.start": "开始",
+  "app.liveLog": "实时日志",
+  "app.snapshots": "快照 {count}",
+  "app.viewSnapshot": "查看快照",
+  "app.tip": "Tip: 建议将手机放置在侧前方，以便 AI 能清楚地看到小朋友写作业的状态。如果听不到声音，请检查手机是否开启了静音模式（如 iPhone 左侧的物理开关）。",
+
+  "tasks.title": "作业科目",
+  "tasks.hint": "开始前选择科目，专注时间会按科目统计",
+  "tasks.changeIcon": "更换图标",
+  "tasks.target": "目标",
+  "tasks.newPlaceholder": "新科目，例如 科学",
+
+  "relay.title": "家长远程查看",
+  "relay.hint": "通过家里的局域网把状态实时发给家长手机，不经过云端",
+  "relay.url": "中继服务器地址（npm run relay）",
+  "relay.room": "房间号",
+  "relay.connected": "已连接中继",
+  "relay.connecting": "正在连接...",
+  "relay.disconnected": "未连接",
+  "relay.openLink": "在家长手机上打开此链接：",
+  "relay.copy": "复制",
+
+  "transfer.exportFailed": "导出失败，请稍后再试",
+  "transfer.imported": "已导入 {count} 次学习记录",
+  "transfer.skipped": "，跳过 {count} 次重复记录",
+  "transfer.importFailed": "导入失败",
+  "transfer.title": "数据导出 / 导入",
+  "transfer.hint": "导出学习记录分享给老师，或在换设备时导入",
+  "transfer.applySettings": "同时导入文件中的设置",
+  "transfer.importJson": "导入 JSON 文件",
+
+  "alert.absent": "{name}已经离开座位约 {minutes} 分钟了",
+  "alert.distracted": "{name}已经分心约 {minutes} 分钟了",
+
+  "pinTitle.openSettings": "打开设置",
+  "pinTitle.viewSnapshots": "查看分心快照",
+  "pinTitle.reviewReading": "标记识别结果",
+  "pinTitle.stopEarly": "提前停止监控",
+  "pinTitle.createProfile": "添加小朋友",
+  "pinTitle.deleteProfile": "删除小朋友",
+
+  "confirm.deleteSnapshots": "确定要删除全部 {count} 张分心快照吗？",
+  "confirm.clearFeedback": "确定要清除所有标记记录吗？准确率会重新计算，AI 也不再参考这些例子；已经调整过的统计不会恢复。",
+  "confirm.resetStats": "确定要清空专注时长、经验值和所有徽章吗？学习记录会保留。",
+
+  "roi.edit": "框选书桌区域",
+  "roi.hint": "拖动画出书桌区域，只有框内的画面会被分析",
+  "roi.fullFrame": "全画面",
+  "roi.done": "完成",
+
+  "nav.monitor": "监控",
+  "nav.stats": "成就",
+  "nav.reports": "报告",
+  "nav.settings": "设置",
+
+  "audio.title": "语音提示",
+  "audio.hint": "开启后 AI 会语音提醒小朋友专注",
+
+  "language.title": "语言 / Language",
+  "language.hint": "界面文字、徽章、AI 的回复和朗读声音都会切换",
+};
+
+export type MessageKey = keyof typeof zh;
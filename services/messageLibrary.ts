@@ -0,0 +1,190 @@
+import { Language, MessageCategory, MessageClip, MessageLibrary } from "../types";
+import { PROFILE_KEYS, scopedKey } from "./profiles";
+import { getLanguage, t } from "./i18n";
+
+export const MESSAGE_CATEGORIES: { id: MessageCategory; label: string }[] = [
+  { id: "distracted", get label() { return t("messageCategory.distracted"); } },
+  { id: "absent", get label() { return t("messageCategory.absent"); } },
+  { id: "encouragement", get label() { return t("messageCategory.encouragement"); } },
+  { id: "badge", get label() { return t("messageCategory.badge"); } },
+  { id: "sessionStart", get label() { return t("messageCategory.sessionStart"); } },
+  { id: "sessionEnd", get label() { return t("messageCategory.sessionEnd"); } },
+  { id: "slouching", get label() { return t("messageCategory.slouching"); } },
+  { id: "tooClose", get label() { return t("messageCategory.tooClose"); } },
+];
+
+// Placeholders a text clip may use, filled in when it is spoken
+export const TEMPLATE_PLACEHOLDERS = ["{name}", "{badge}", "{task}"];
+
+export type MessageVars = Partial<Record<"name" | "badge" | "task", string>>;
+
+// What to play: a spoken sentence or a recording
+export type Announcement = { kind: "text"; text: string } | { kind: "audio"; src: string };
+
+export interface MessagePicker {
+  // `kind` limits the pool to typed sentences (which include the model's) or to recordings
+  pick: (library: MessageLibrary, category: MessageCategory, vars?: MessageVars, modelMessage?: string, kind?: MessageClip["kind"]) => Announcement | null;
+}
+
+// Spoken sentences, so they live here rather than in the UI bundles. Entries line up across
+// languages; translateDefaultClips relies on that.
+const DEFAULT_TEMPLATES: Record<Language, Record<MessageCategory, string[]>> = {
+  zh: {
+    distracted: ["请专心写作业哦", "{name}，眼睛回到作业本上来吧", "先把这道题做完再休息哦"],
+    absent: ["人去哪里了", "{name}，快回到座位上来吧"],
+    encouragement: ["很棒，继续保持", "{name}真专注，加油！"],
+    badge: ["恭喜！获得了徽章：{badge}"],
+    sessionStart: ["开始监控，小朋友加油哦"],
+    sessionEnd: ["学习结束啦，{name}今天辛苦了"],
+    slouching: ["{name}，坐直一点，不要趴着写字哦", "抬起头，背挺直"],
+    tooClose: ["眼睛离本子远一点，保护视力哦", "{name}，离本子一尺远"],
+  },
+  en: {
+    distracted: ["Let's focus on the homework", "{name}, eyes back on your work", "Finish this question first, then take a break"],
+    absent: ["Where did you go?", "{name}, come back to your seat"],
+    encouragement: ["Great job, keep it up", "{name}, you're so focused, keep going!"],
+    badge: ["Congratulations! You earned a badge: {badge}"],
+    sessionStart: ["Monitoring started. You can do it!"],
+    sessionEnd: ["All done. Great work today, {name}"],
+    slouching: ["{name}, sit up straight and don't lean on the desk", "Head up, back straight"],
+    tooClose: ["Move your eyes a bit further from the page", "{name}, keep a forearm's length from the page"],
+  },
+};
+
+export const createClipId = () => `clip-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+export const createTextClip = (category: MessageCategory, text: string): MessageClip => ({
+  id: createClipId(),
+  category,
+  kind: "text",
+  text: text.trim(),
+  enabled: true,
+});
+
+export const createAudioClip = (category: MessageCategory, audio: string, label: string): MessageClip => ({
+  id: createClipId(),
+  category,
+  kind: "audio",
+  text: label,
+  audio,
+  enabled: true,
+});
+
+export const createDefaultLibrary = (language: Language = getLanguage()): MessageLibrary => ({
+  rotation: "random",
+  useModelMessage: true,
+  clips: (Object.keys(DEFAULT_TEMPLATES[language]) as MessageCategory[]).flatMap((category) =>
+    DEFAULT_TEMPLATES[language][category].map((text) => createTextClip(category, text))
+  ),
+});
+
+// Built-in sentences still as shipped switch with the language; anything the parent wrote stays
+export const translateDefaultClips = (library: MessageLibrary, from: Language, to: Language): MessageLibrary => ({
+  ...library,
+  clips: library.clips.map((clip) => {
+    if (clip.kind !== "text") return clip;
+    const index = DEFAULT_TEMPLATES[from][clip.category].indexOf(clip.text);
+    const translation = DEFAULT_TEMPLATES[to][clip.category][index];
+    return index >= 0 && translation ? { ...clip, text: translation } : clip;
+  }),
+});
+
+// Unknown placeholders are left as typed so a parent can spot the typo in the preview
+export const fillTemplate = (template: string, vars: MessageVars): string =>
+  template.replace(/\{(name|badge|task)\}/g, (match, key: keyof MessageVars) => vars[key] ?? match);
+
+// The single recording from older versions played for both distracted and absent
+const migrateLegacyAudio = (library: MessageLibrary): MessageLibrary => {
+  const legacy = localStorage.getItem(scopedKey(PROFILE_KEYS.customAudio));
+  if (!legacy) return library;
+  return {
+    ...library,
+    clips: [
+      ...library.clips,
+      createAudioClip("distracted", legacy, t("messages.legacyRecording")),
+      createAudioClip("absent", legacy, t("messages.legacyRecording")),
+    ],
+  };
+};
+
+// Categories added after the library was saved start with their default sentences
+const addMissingCategories = (library: MessageLibrary): MessageLibrary => {
+  const templates = DEFAULT_TEMPLATES[getLanguage()];
+  const missing = (Object.keys(templates) as MessageCategory[]).filter(
+    (category) => !library.clips.some((clip) => clip.category === category)
+  );
+  if (missing.length === 0) return library;
+  return {
+    ...library,
+    clips: [...library.clips, ...missing.flatMap((category) => templates[category].map((text) => createTextClip(category, text)))],
+  };
+};
+
+export const loadMessageLibrary = (): MessageLibrary => {
+  try {
+    const raw = localStorage.getItem(scopedKey(PROFILE_KEYS.messages));
+    if (raw) return addMissingCategories({ ...createDefaultLibrary(), ...JSON.parse(raw) });
+  } catch (e) {
+    console.warn("Failed to read message library, using defaults", e);
+    return createDefaultLibrary();
+  }
+
+  const library = migrateLegacyAudio(createDefaultLibrary());
+  try {
+    saveMessageLibrary(library);
+    localStorage.removeItem(scopedKey(PROFILE_KEYS.customAudio));
+  } catch (e) {
+    console.warn("Failed to migrate the old recording", e);
+  }
+  return library;
+};
+
+// Recordings are stored inline, so a large library can exceed the localStorage quota
+export const saveMessageLibrary = (library: MessageLibrary) => {
+  try {
+    localStorage.setItem(scopedKey(PROFILE_KEYS.messages), JSON.stringify(library));
+  } catch (e) {
+    console.error("Failed to save message library", e);
+    throw new Error(t("messages.storageFull"));
+  }
+};
+
+/**
+ * Chooses what to say for a category from its enabled clips, plus the model's sentence when
+ * the library allows it. Round-robin keeps a cursor per category for the life of the picker;
+ * random never repeats the previous pick when there is anything else to choose.
+ */
+export const createMessagePicker = (random: () => number = Math.random): MessagePicker => {
+  const cursors = new Map<MessageCategory, number>();
+  const lastPicks = new Map<MessageCategory, string>();
+
+  const pick: MessagePicker["pick"] = (library, category, vars = {}, modelMessage, kind) => {
+    const pool: Announcement[] = library.clips
+      .filter((clip) => clip.category === category && clip.enabled && (!kind || clip.kind === kind))
+      .map((clip): Announcement | null => {
+        if (clip.kind === "audio") return clip.audio ? { kind: "audio", src: clip.audio } : null;
+        const text = fillTemplate(clip.text, vars).trim();
+        return text ? { kind: "text", text } : null;
+      })
+      .filter((a): a is Announcement => a !== null);
+    if (library.useModelMessage && kind !== "audio" && modelMessage?.trim()) {
+      pool.push({ kind: "text", text: modelMessage.trim() });
+    }
+    if (pool.length === 0) return null;
+
+    const keyOf = (a: Announcement) => (a.kind === "audio" ? a.src : a.text);
+    let chosen: Announcement;
+    if (library.rotation === "roundRobin") {
+      const cursor = cursors.get(category) ?? 0;
+      chosen = pool[cursor % pool.length];
+      cursors.set(category, cursor + 1);
+    } else {
+      const fresh = pool.length > 1 ? pool.filter((a) => keyOf(a) !== lastPicks.get(category)) : pool;
+      chosen = fresh[Math.floor(random() * fresh.length)];
+    }
+    lastPicks.set(category, keyOf(chosen));
+    return chosen;
+  };
+
+  return { pick };
+};
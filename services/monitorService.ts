@@ -1,6 +1,12 @@
 
 import { GoogleGenAI, Type, Schema } from "@google/genai";
-import { AnalysisResult, FocusStatus } from "../types";
+import { AnalysisProvider, AnalysisResult, FocusStatus, Language, PromptConfig } from "../types";
+import { AnalysisError, classifyError, validateAnalysisResult } from "./analysisErrors";
+import { createCircuitBreaker } from "./circuitBreaker";
+import { EMPTY_HINTS, FeedbackHints } from "./feedback";
+import { DISTRACTION_REASONS, POSTURE_ISSUES } from "./analysisDetails";
+import { buildPrompt, DEFAULT_PROMPT } from "./promptConfig";
+import { getLanguage, languageOption, t } from "./i18n";
 
 // Remove top-level initialization to prevent crash on load
 // const apiKey = process.env.API_KEY; 
@@ -13,15 +19,15 @@ const getAIClient = () => {
 
   const apiKey = process.env.API_KEY;
   if (!apiKey) {
-    // This will be caught by the try-catch in analyzeFrame
-    throw new Error("API Key is missing. Please check Vercel settings.");
+    throw new AnalysisError("missingKey", "API Key is missing. Please check Vercel settings.");
   }
 
   ai = new GoogleGenAI({ apiKey: apiKey });
   return ai;
 };
 
-const responseSchema: Schema = {
+// The spoken message is requested in the UI language
+const buildResponseSchema = (language: Language): Schema => ({
   type: Type.OBJECT,
   properties: {
     status: {
@@ -31,23 +37,57 @@ const responseSchema: Schema = {
     },
     message: {
       type: Type.STRING,
-      description: "A short, encouraging or correcting message in Chinese (Mandarin) suitable for a child.",
+      description: `A short, encouraging or correcting message in ${languageOption(language).modelName} suitable for a child.`,
     },
     confidence: {
       type: Type.NUMBER,
       description: "Confidence level between 0 and 1.",
     },
+    reason: {
+      type: Type.STRING,
+      enum: DISTRACTION_REASONS.map((r) => r.id),
+      description: `Only when DISTRACTED or ABSENT, the main cause: ${DISTRACTION_REASONS.map((r) => `${r.id} = ${r.prompt}`).join("; ")}.`,
+    },
+    posture: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING, enum: POSTURE_ISSUES.map((p) => p.id) },
+      description: `Posture problems that are clearly visible: ${POSTURE_ISSUES.map((p) => `${p.id} = ${p.prompt}`).join("; ")}. Empty when posture is fine or the child is not visible.`,
+    },
+    materialsVisible: {
+      type: Type.BOOLEAN,
+      description: "Whether homework materials (books, worksheets, pencils) are visible on the desk.",
+    },
   },
-  required: ["status", "message", "confidence"],
-};
+  required: ["status", "message", "confidence", "posture", "materialsVisible"],
+});
 
-export const analyzeFrame = async (base64Image: string): Promise<AnalysisResult> => {
+const stripDataUrl = (dataUrl: string) => dataUrl.replace(/^data:image\/(png|jpeg|jpg);base64,/, "");
+
+// Parent-corrected frames from this desk go first, each labelled with the right answer
+const exampleParts = (hints: FeedbackHints) =>
+  hints.examples.flatMap((example) => [
+    { text: `Reference example from this desk: this was read as ${example.predicted}, but a parent confirmed it was ${example.actual}.` },
+    { inlineData: { mimeType: "image/jpeg", data: stripDataUrl(example.image) } },
+  ]);
+
+export interface AnalyzeOptions {
+  prompt?: PromptConfig;
+  hints?: FeedbackHints;
+  language?: Language; // Defaults to the current UI language
+}
+
+// Throws an AnalysisError describing what went wrong; never returns FocusStatus.ERROR
+export const analyzeFrame = async (
+  base64Image: string,
+  { prompt: promptConfig = DEFAULT_PROMPT, hints = EMPTY_HINTS, language = getLanguage() }: AnalyzeOptions = {}
+): Promise<AnalysisResult> => {
   // CRITICAL FIX: Handle empty or invalid base64 strings gracefully before calling API
   if (!base64Image || base64Image === "data:," || base64Image.length < 100) {
-    throw new Error("Invalid frame captured (empty data)");
+    throw new AnalysisError("invalidFrame", "Invalid frame captured (empty data)");
   }
 
-  const cleanBase64 = base64Image.replace(/^data:image\/(png|jpeg|jpg);base64,/, "");
+  const cleanBase64 = stripDataUrl(base64Image);
+  const { systemInstruction, prompt } = buildPrompt(promptConfig, hints.instructions, language);
 
   try {
     // Initialize AI client here, inside the function
@@ -57,50 +97,64 @@ export const analyzeFrame = async (base64Image: string): Promise<AnalysisResult>
       model: "gemini-2.5-flash",
       contents: {
         parts: [
+          ...exampleParts(hints),
+          ...(hints.examples.length > 0 ? [{ text: "Now the image to analyze:" }] : []),
           {
             inlineData: {
               mimeType: "image/jpeg",
               data: cleanBase64,
             },
           },
-          {
-            text: `Analyze this image of a student doing homework. 
-            Determine if they are FOCUSED (looking at paper/book, writing, reading), 
-            DISTRACTED (looking away, playing with toys, sleeping, using phone), 
-            or ABSENT (empty chair).
-            Provide a short voice message text in Chinese.
-            If FOCUSED, say something encouraging like "很棒，继续保持".
-            If DISTRACTED, say something gentle like "请专心写作业哦".
-            If ABSENT, say "人去哪里了".`
-          }
+          { text: prompt },
         ]
       },
       config: {
         responseMimeType: "application/json",
-        responseSchema: responseSchema,
-        systemInstruction: "You are a homework monitoring assistant. Be strict but kind.",
+        responseSchema: buildResponseSchema(language),
+        systemInstruction,
       },
     });
 
     const text = response.text;
-    if (!text) throw new Error("No response from AI");
-
-    const result = JSON.parse(text) as AnalysisResult;
-    return result;
+    if (!text) throw new AnalysisError("malformed", "No response from AI");
 
-  } catch (error: any) {
+    return validateAnalysisResult(JSON.parse(text));
+  } catch (error) {
     console.error("Analysis failed:", error);
-    
-    // Don't treat "Invalid frame" as a critical AI connection error, it's transient
-    if (error.message === "Invalid frame captured (empty data)") {
-        throw error;
-    }
-
-    // Return a structured error that the UI can display
-    return {
-      status: FocusStatus.ERROR,
-      message: error.message || "连接 AI 失败",
-      confidence: 0
-    };
+    throw classifyError(error);
+  }
+};
+
+// Shared by the cloud and hybrid modes, so both back off together
+const breaker = createCircuitBreaker();
+
+// Fails fast while backing off, without calling the API. Every error carries the wait until
+// the next real attempt in retryAfterMs, so the caller can schedule around it.
+const analyzeWithBreaker = async (base64Image: string, options: AnalyzeOptions): Promise<AnalysisResult> => {
+  if (!breaker.canAttempt(Date.now())) {
+    const last = breaker.lastError();
+    throw new AnalysisError(last?.kind ?? "unknown", last?.message ?? "Waiting to retry", breaker.retryInMs(Date.now()));
+  }
+
+  try {
+    const result = await analyzeFrame(base64Image, options);
+    breaker.recordSuccess();
+    return result;
+  } catch (error) {
+    const failure = classifyError(error);
+    // A bad camera frame says nothing about the API
+    if (failure.kind === "invalidFrame") throw failure;
+    breaker.recordFailure(failure, Date.now());
+    throw new AnalysisError(failure.kind, failure.message, breaker.retryInMs(Date.now()));
   }
 };
+
+// Options are read on every call so new corrections and prompt versions apply without
+// recreating the provider
+export const createGeminiProvider = (getOptions: () => AnalyzeOptions = () => ({})): AnalysisProvider => ({
+  id: "gemini",
+  get name() { return t("provider.gemini.name"); },
+  analyze: (base64Image: string) => analyzeWithBreaker(base64Image, getOptions()),
+  // Restarting monitoring is how a parent retries after fixing the key
+  reset: () => breaker.reset(),
+});
@@ -0,0 +1,109 @@
+import { ParentAction, ParentAuditEntry } from "../types";
+import { getActiveProfileId } from "./profiles";
+import { t, translated } from "./i18n";
+
+// Device-wide: one parent PIN covers every child profile
+const PIN_KEY = "parent_pin";
+const AUDIT_KEY = "parent_audit";
+const MAX_AUDIT_ENTRIES = 100;
+
+const PBKDF2_ITERATIONS = 100_000;
+// Slows down a child guessing a 4-digit PIN
+const MAX_FAILED_ATTEMPTS = 3;
+const LOCKOUT_MS = 60_000;
+
+export const MIN_PIN_LENGTH = 4;
+
+export const PARENT_ACTION_LABELS = translated<ParentAction>({
+  stop_attempt: "parentAction.stop_attempt",
+  stop_denied: "parentAction.stop_denied",
+  session_stopped: "parentAction.session_stopped",
+  settings_unlocked: "parentAction.settings_unlocked",
+  stats_reset: "parentAction.stats_reset",
+  pin_set: "parentAction.pin_set",
+  pin_removed: "parentAction.pin_removed",
+  log_corrected: "parentAction.log_corrected",
+  profile_created: "parentAction.profile_created",
+  profile_deleted: "parentAction.profile_deleted",
+});
+
+// The lockout is stored with the hash so reloading the page does not reset it
+interface StoredPin {
+  salt: string; // base64
+  hash: string; // base64
+  failedAttempts?: number;
+  lockedUntil?: number; // Epoch ms
+}
+
+const toBase64 = (bytes: ArrayBuffer | Uint8Array) => btoa(String.fromCharCode(...new Uint8Array(bytes)));
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), (c) => c.charCodeAt(0));
+
+const derive = async (pin: string, salt: Uint8Array<ArrayBuffer>): Promise<string> => {
+  const key = await crypto.subtle.importKey("raw", new TextEncoder().encode(pin), "PBKDF2", false, ["deriveBits"]);
+  const bits = await crypto.subtle.deriveBits({ name: "PBKDF2", hash: "SHA-256", salt, iterations: PBKDF2_ITERATIONS }, key, 256);
+  return toBase64(bits);
+};
+
+const readPin = (): StoredPin | null => {
+  try {
+    const raw = localStorage.getItem(PIN_KEY);
+    return raw ? JSON.parse(raw) : null;
+  } catch {
+    return null;
+  }
+};
+
+const writePin = (stored: StoredPin) => localStorage.setItem(PIN_KEY, JSON.stringify(stored));
+
+export const isPinSet = (): boolean => readPin() !== null;
+
+export const setPin = async (pin: string): Promise<void> => {
+  if (pin.length < MIN_PIN_LENGTH) throw new Error(t("pin.tooShort", { min: MIN_PIN_LENGTH }));
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  writePin({ salt: toBase64(salt), hash: await derive(pin, salt) });
+};
+
+export const clearPin = () => {
+  localStorage.removeItem(PIN_KEY);
+};
+
+// Milliseconds until another attempt is allowed, 0 if not locked out
+export const lockoutRemainingMs = (now: number = Date.now()): number => Math.max(0, (readPin()?.lockedUntil ?? 0) - now);
+
+// Resolves false for a wrong PIN or while locked out. Always true when no PIN is set.
+export const verifyPin = async (pin: string): Promise<boolean> => {
+  const stored = readPin();
+  if (!stored) return true;
+  if (lockoutRemainingMs() > 0) return false;
+
+  const ok = (await derive(pin, fromBase64(stored.salt))) === stored.hash;
+  const failedAttempts = ok ? 0 : (stored.failedAttempts ?? 0) + 1;
+  if (failedAttempts >= MAX_FAILED_ATTEMPTS) {
+    writePin({ ...stored, failedAttempts: 0, lockedUntil: Date.now() + LOCKOUT_MS });
+  } else {
+    writePin({ ...stored, failedAttempts, lockedUntil: undefined });
+  }
+  return ok;
+};
+
+export const loadAuditLog = (): ParentAuditEntry[] => {
+  try {
+    const raw = localStorage.getItem(AUDIT_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch (e) {
+    console.warn("Failed to read parent audit log", e);
+    return [];
+  }
+};
+
+// Newest first. Profile actions name the profile they affected rather than the active one.
+export const recordParentAction = (action: ParentAction, profileId: string = getActiveProfileId()): ParentAuditEntry => {
+  const entry: ParentAuditEntry = {
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+    timestamp: new Date().toISOString(),
+    action,
+    profileId,
+  };
+  localStorage.setItem(AUDIT_KEY, JSON.stringify([entry, ...loadAuditLog()].slice(0, MAX_AUDIT_ENTRIES)));
+  return entry;
+};
@@ -0,0 +1,84 @@
+import { ChildProfile } from "../types";
+import { t } from "./i18n";
+
+const PROFILES_KEY = "child_profiles";
+const ACTIVE_PROFILE_KEY = "active_profile";
+
+// Data recorded before profiles existed belongs to this profile and keeps its original keys
+export const DEFAULT_PROFILE_ID = "default";
+
+// Every localStorage key that holds per-child data. Scope them with scopedKey().
+export const PROFILE_KEYS = {
+  settings: "app_settings",
+  tasks: "study_tasks",
+  activeTask: "active_task",
+  messages: "message_library",
+  feedback: "analysis_feedback",
+  prompt: "prompt_history",
+  customAudio: "custom_audio_blob", // Single recording from older versions, migrated into messages
+} as const;
+
+export const PROFILE_AVATARS = ["🐼", "🦊", "🐯", "🐰", "🐸", "🦄", "🐳", "😎"];
+
+const createPlayerId = () => `p-${Math.random().toString(36).slice(2, 10)}`;
+
+export const createProfile = (name: string, avatar: string): ChildProfile => ({
+  id: `child-${Date.now().toString(36)}`,
+  name: name.trim(),
+  avatar,
+  playerId: createPlayerId(),
+  createdAt: new Date().toISOString(),
+});
+
+// The first run after upgrading turns the existing data into the default profile, keeping the
+// leaderboard identity that used to live in the leaderboard settings.
+const createDefaultProfile = (): ChildProfile => {
+  let legacy: { playerId?: string; playerName?: string; avatar?: string } = {};
+  try {
+    legacy = JSON.parse(localStorage.getItem(PROFILE_KEYS.settings) ?? "{}").leaderboard ?? {};
+  } catch {
+    // Unreadable settings are reset elsewhere; fall back to a fresh identity
+  }
+  return {
+    id: DEFAULT_PROFILE_ID,
+    name: legacy.playerName && legacy.playerName !== "我" ? legacy.playerName : t("profile.defaultName"),
+    avatar: legacy.avatar ?? PROFILE_AVATARS[0],
+    playerId: legacy.playerId ?? createPlayerId(),
+    createdAt: new Date().toISOString(),
+  };
+};
+
+export const loadProfiles = (): ChildProfile[] => {
+  try {
+    const raw = localStorage.getItem(PROFILES_KEY);
+    const profiles: ChildProfile[] = raw ? JSON.parse(raw) : [];
+    if (profiles.length > 0) return profiles;
+  } catch (e) {
+    console.warn("Failed to read profiles", e);
+  }
+  const initial = [createDefaultProfile()];
+  saveProfiles(initial);
+  return initial;
+};
+
+export const saveProfiles = (profiles: ChildProfile[]) => {
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+};
+
+export const getActiveProfileId = (): string => localStorage.getItem(ACTIVE_PROFILE_KEY) ?? DEFAULT_PROFILE_ID;
+
+export const setActiveProfileId = (id: string) => {
+  localStorage.setItem(ACTIVE_PROFILE_KEY, id);
+};
+
+export const scopedKey = (key: string, profileId: string = getActiveProfileId()): string =>
+  profileId === DEFAULT_PROFILE_ID ? key : `${key}:${profileId}`;
+
+// Records without a profileId predate profiles and belong to the default profile
+export const belongsToProfile = (record: { profileId?: string }, profileId: string = getActiveProfileId()): boolean =>
+  (record.profileId ?? DEFAULT_PROFILE_ID) === profileId;
+
+// Removes the profile's local settings; IndexedDB data is removed by sessionStore.deleteProfileData
+export const removeProfileSettings = (profileId: string) => {
+  Object.values(PROFILE_KEYS).forEach((key) => localStorage.removeItem(scopedKey(key, profileId)));
+};
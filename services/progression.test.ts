@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { DayStreak } from "../types";
+import { currentDayStreak, EMPTY_DAY_STREAK, getLevelInfo, recordActiveDay, xpForLevel } from "./progression";
+
+// Records each day in turn, starting from no streak
+const streakOver = (days: string[], start: DayStreak = EMPTY_DAY_STREAK) => days.reduce(recordActiveDay, start);
+
+describe("recordActiveDay", () => {
+  it("grows on consecutive days", () => {
+    expect(streakOver(["2026-10-01", "2026-10-02", "2026-10-03"])).toMatchObject({ current: 3, longest: 3, lastActiveDate: "2026-10-03" });
+  });
+
+  it("counts the same day once", () => {
+    const streak = streakOver(["2026-10-01", "2026-10-02"]);
+    expect(recordActiveDay(streak, "2026-10-02")).toBe(streak);
+  });
+
+  it("forgives one missed day with the grace allowance", () => {
+    expect(streakOver(["2026-10-01", "2026-10-02", "2026-10-04"])).toMatchObject({ current: 3, graceUsedOn: "2026-10-03" });
+  });
+
+  it("allows grace only once per period", () => {
+    const streak = streakOver(["2026-10-01", "2026-10-03", "2026-10-04", "2026-10-06"]);
+    expect(streak).toMatchObject({ current: 1, longest: 3, graceUsedOn: null });
+  });
+
+  it("allows grace again once the period has passed", () => {
+    const days = ["2026-10-01", "2026-10-03", "2026-10-04", "2026-10-05", "2026-10-06", "2026-10-07", "2026-10-08", "2026-10-09", "2026-10-10", "2026-10-12"];
+    expect(streakOver(days)).toMatchObject({ current: 10, graceUsedOn: "2026-10-11" });
+  });
+
+  it("starts over after a longer gap and keeps the longest streak", () => {
+    expect(streakOver(["2026-10-01", "2026-10-02", "2026-10-03", "2026-10-07"])).toMatchObject({ current: 1, longest: 3 });
+  });
+
+  it("handles a daylight-saving change between days", () => {
+    expect(streakOver(["2026-10-24", "2026-10-25", "2026-10-26"]).current).toBe(3);
+  });
+});
+
+describe("currentDayStreak", () => {
+  const streak = streakOver(["2026-10-01", "2026-10-02"]);
+  const on = (day: number) => new Date(2026, 9, day, 12);
+
+  it("is zero without any active day", () => {
+    expect(currentDayStreak(EMPTY_DAY_STREAK, on(1))).toBe(0);
+  });
+
+  it("stays alive today and the day after the last active day", () => {
+    expect(currentDayStreak(streak, on(2))).toBe(2);
+    expect(currentDayStreak(streak, on(3))).toBe(2);
+  });
+
+  it("stays alive over one missed day only while grace is available", () => {
+    expect(currentDayStreak(streak, on(4))).toBe(2);
+    expect(currentDayStreak({ ...streak, graceUsedOn: "2026-09-30" }, on(4))).toBe(0);
+  });
+
+  it("is broken after two missed days", () => {
+    expect(currentDayStreak(streak, on(5))).toBe(0);
+  });
+});
+
+describe("levels", () => {
+  it("needs 50 more XP for each further level", () => {
+    expect([1, 2, 3, 4, 5].map(xpForLevel)).toEqual([0, 50, 150, 300, 500]);
+  });
+
+  it("reaches a level exactly at its threshold", () => {
+    expect(getLevelInfo(49)).toMatchObject({ level: 1, xpIntoLevel: 49, xpForNextLevel: 50 });
+    expect(getLevelInfo(50)).toMatchObject({ level: 2, xpIntoLevel: 0, xpForNextLevel: 100 });
+    expect(getLevelInfo(150).level).toBe(3);
+  });
+
+  it("picks the highest rank the level has reached", () => {
+    expect(getLevelInfo(0).rankIcon).toBe("🌱");
+    expect(getLevelInfo(xpForLevel(3)).rankIcon).toBe("⭐");
+    expect(getLevelInfo(xpForLevel(20)).rankIcon).toBe("👑");
+  });
+});
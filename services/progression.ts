@@ -0,0 +1,128 @@
+import { DayStreak, UserStats } from "../types";
+import { toDateKey } from "./reports";
+import { t } from "./i18n";
+
+// XP sources
+export const XP_PER_FOCUS_MINUTE = 1;
+export const STREAK_BONUS_EVERY_SECONDS = 5 * 60; // Unbroken focus within a session
+export const STREAK_BONUS_XP = 5;
+export const SESSION_COMPLETE_XP = 20;
+export const MIN_SESSION_FOCUS_SECONDS = 5 * 60; // Shorter sessions don't count as completed
+export const DAY_STREAK_BONUS_XP = 5; // Per streak day, capped at a week
+const DAY_STREAK_BONUS_CAP = 7;
+
+// A calendar day counts towards the day streak once it has this much focus time
+export const MIN_ACTIVE_DAY_SECONDS = 10 * 60;
+// One missed day is forgiven at most once per this many days
+export const GRACE_PERIOD_DAYS = 7;
+
+// Level L needs LEVEL_XP_STEP * L * (L - 1) / 2 total XP: 0, 50, 150, 300, 500, ...
+const LEVEL_XP_STEP = 50;
+
+export const RANKS: { minLevel: number; name: string; icon: string }[] = [
+  { minLevel: 1, get name() { return t("rank.apprentice"); }, icon: "🌱" },
+  { minLevel: 3, get name() { return t("rank.risingStar"); }, icon: "⭐" },
+  { minLevel: 5, get name() { return t("rank.handyLearner"); }, icon: "✏️" },
+  { minLevel: 8, get name() { return t("rank.focusPro"); }, icon: "🚀" },
+  { minLevel: 12, get name() { return t("rank.topStudent"); }, icon: "🎓" },
+  { minLevel: 16, get name() { return t("rank.focusMaster"); }, icon: "👑" },
+];
+
+export const EMPTY_DAY_STREAK: DayStreak = { current: 0, longest: 0, lastActiveDate: null, graceUsedOn: null };
+
+export interface LevelInfo {
+  level: number;
+  rank: string;
+  rankIcon: string;
+  xpIntoLevel: number;
+  xpForNextLevel: number; // XP between this level and the next
+}
+
+export const xpForLevel = (level: number): number => (LEVEL_XP_STEP * level * (level - 1)) / 2;
+
+export const getLevelInfo = (xp: number): LevelInfo => {
+  let level = 1;
+  while (xpForLevel(level + 1) <= xp) level++;
+  const rank = [...RANKS].reverse().find((r) => level >= r.minLevel) ?? RANKS[0];
+  return {
+    level,
+    rank: rank.name,
+    rankIcon: rank.icon,
+    xpIntoLevel: Math.floor(xp - xpForLevel(level)),
+    xpForNextLevel: xpForLevel(level + 1) - xpForLevel(level),
+  };
+};
+
+const parseDateKey = (key: string): Date => {
+  const [y, m, d] = key.split("-").map(Number);
+  return new Date(y, m - 1, d);
+};
+
+// Calendar days from a to b; rounding absorbs daylight-saving shifts
+const daysBetween = (a: string, b: string): number =>
+  Math.round((parseDateKey(b).getTime() - parseDateKey(a).getTime()) / 86_400_000);
+
+const graceAvailable = (streak: DayStreak, dateKey: string): boolean =>
+  !streak.graceUsedOn || daysBetween(streak.graceUsedOn, dateKey) > GRACE_PERIOD_DAYS;
+
+// Records a day that reached MIN_ACTIVE_DAY_SECONDS. A single missed day is forgiven if the
+// grace allowance is unused; a longer gap starts a new streak.
+export const recordActiveDay = (streak: DayStreak, dateKey: string): DayStreak => {
+  if (streak.lastActiveDate === dateKey) return streak;
+
+  const gap = streak.lastActiveDate ? daysBetween(streak.lastActiveDate, dateKey) : Infinity;
+  let next: DayStreak;
+  if (gap === 1) {
+    next = { ...streak, current: streak.current + 1 };
+  } else if (gap === 2 && graceAvailable(streak, dateKey)) {
+    const missed = toDateKey(new Date(parseDateKey(dateKey).getTime() - 86_400_000));
+    next = { ...streak, current: streak.current + 1, graceUsedOn: missed };
+  } else {
+    next = { ...streak, current: 1, graceUsedOn: null };
+  }
+
+  next.lastActiveDate = dateKey;
+  next.longest = Math.max(next.longest, next.current);
+  return next;
+};
+
+// The streak as it stands today: still alive if today can extend it (directly or via grace)
+export const currentDayStreak = (streak: DayStreak, now: Date = new Date()): number => {
+  if (!streak.lastActiveDate) return 0;
+  const today = toDateKey(now);
+  const gap = daysBetween(streak.lastActiveDate, today);
+  if (gap <= 1) return streak.current;
+  if (gap === 2 && graceAvailable(streak, today)) return streak.current;
+  return 0;
+};
+
+// XP earned by a stats update: whole focus minutes crossed, plus a bonus for every
+// STREAK_BONUS_EVERY_SECONDS of unbroken focus
+export const focusXp = (prev: UserStats, next: UserStats): number => {
+  const minutes = Math.floor(next.totalFocusTimeSeconds / 60) - Math.floor(prev.totalFocusTimeSeconds / 60);
+  const streakBonuses =
+    next.currentStreakSeconds > prev.currentStreakSeconds
+      ? Math.floor(next.currentStreakSeconds / STREAK_BONUS_EVERY_SECONDS) - Math.floor(prev.currentStreakSeconds / STREAK_BONUS_EVERY_SECONDS)
+      : 0;
+  return Math.max(0, minutes) * XP_PER_FOCUS_MINUTE + Math.max(0, streakBonuses) * STREAK_BONUS_XP;
+};
+
+// Applies XP and the day streak after a stats update for `now`
+export const applyProgression = (prev: UserStats, next: UserStats, now: Date): UserStats => {
+  let xp = next.xp + focusXp(prev, next);
+  let dayStreak = next.dayStreak;
+
+  const today = toDateKey(now);
+  if ((next.dailyStats[today]?.focusSeconds ?? 0) >= MIN_ACTIVE_DAY_SECONDS && dayStreak.lastActiveDate !== today) {
+    dayStreak = recordActiveDay(dayStreak, today);
+    xp += DAY_STREAK_BONUS_XP * Math.min(dayStreak.current, DAY_STREAK_BONUS_CAP);
+  }
+
+  return { ...next, xp, dayStreak };
+};
+
+// Bonus for finishing a session with enough focus time in it
+export const completeSession = (stats: UserStats, sessionFocusSeconds: number): UserStats =>
+  sessionFocusSeconds >= MIN_SESSION_FOCUS_SECONDS
+    ? { ...stats, xp: stats.xp + SESSION_COMPLETE_XP, sessionsCompleted: stats.sessionsCompleted + 1 }
+    : stats;
@@ -0,0 +1,191 @@
+import { AgeGroup, Language, PersonaId, PromptConfig, PromptHistory } from "../types";
+import { PROFILE_KEYS, scopedKey } from "./profiles";
+import { getLanguage, languageOption, t } from "./i18n";
+
+export interface Persona {
+  id: PersonaId;
+  label: string;
+  description: string;
+  instruction: string; // Appended to the system instruction
+  // Sample sentences the model is asked to imitate, per reply language; {character} is the cartoon name
+  examples: Record<Language, { focused: string; distracted: string; absent: string }>;
+}
+
+export const PERSONAS: Persona[] = [
+  {
+    id: "gentle",
+    get label() { return t("persona.gentle.label"); },
+    get description() { return t("persona.gentle.description"); },
+    instruction: "Be strict but kind.",
+    examples: {
+      zh: { focused: "很棒，继续保持", distracted: "请专心写作业哦", absent: "人去哪里了" },
+      en: { focused: "Great job, keep it up", distracted: "Let's focus on the homework", absent: "Where did you go?" },
+    },
+  },
+  {
+    id: "strict",
+    get label() { return t("persona.strict.label"); },
+    get description() { return t("persona.strict.description"); },
+    instruction: "Be firm, brief and serious, like a strict but fair teacher. No jokes.",
+    examples: {
+      zh: { focused: "很好，保持住", distracted: "注意力集中，继续写作业", absent: "马上回到座位上" },
+      en: { focused: "Good. Keep going", distracted: "Eyes on your work, please", absent: "Back to your seat now" },
+    },
+  },
+  {
+    id: "playful",
+    get label() { return t("persona.playful.label"); },
+    get description() { return t("persona.playful.description"); },
+    instruction: "Be playful and upbeat. Light jokes and funny comparisons are welcome, but keep it short.",
+    examples: {
+      zh: { focused: "哇，你像小火箭一样专注！", distracted: "小眼睛跑到哪里去啦？快回来写作业", absent: "咦，小朋友变成隐形人了吗？" },
+      en: { focused: "Wow, you're focused like a rocket!", distracted: "Where did those eyes wander off to? Back to the homework!", absent: "Hey, did you turn invisible?" },
+    },
+  },
+  {
+    id: "cartoon",
+    get label() { return t("persona.cartoon.label"); },
+    get description() { return t("persona.cartoon.description"); },
+    instruction: "Speak in the first person as {character}, a friendly cartoon character the child loves.",
+    examples: {
+      zh: { focused: "我是{character}，你太专注啦！", distracted: "{character}提醒你：先把作业写完再玩哦", absent: "{character}找不到你啦，快回来吧" },
+      en: { focused: "It's {character}, you're so focused!", distracted: "{character} says: homework first, then play", absent: "{character} can't find you, come back!" },
+    },
+  },
+];
+
+export const AGE_GROUPS: { id: AgeGroup; label: string; instruction: string }[] = [
+  { id: "preschool", get label() { return t("ageGroup.preschool"); }, instruction: "The child is 3-6 years old: use very simple, warm words and keep it to a few words when possible." },
+  { id: "lowerPrimary", get label() { return t("ageGroup.lowerPrimary"); }, instruction: "The child is 6-9 years old: use simple, concrete words and short sentences." },
+  { id: "upperPrimary", get label() { return t("ageGroup.upperPrimary"); }, instruction: "The child is 9-12 years old: speak naturally and avoid baby talk." },
+  { id: "teen", get label() { return t("ageGroup.teen"); }, instruction: "The child is over 12: speak respectfully, as to a young adult, with no baby talk or cute words." },
+];
+
+export const DEFAULT_PROMPT: PromptConfig = {
+  persona: "gentle",
+  get characterName() { return t("prompt.defaultCharacter"); },
+  ageGroup: "lowerPrimary",
+  houseRules: [],
+};
+
+export const MAX_HOUSE_RULES = 10;
+export const MAX_RULE_LENGTH = 80;
+export const MAX_CHARACTER_NAME_LENGTH = 12;
+const MAX_VERSIONS = 20;
+
+// Empty when the configuration can be saved
+export const validatePromptConfig = (config: PromptConfig): string[] => {
+  const errors: string[] = [];
+  if (!PERSONAS.some((p) => p.id === config.persona)) errors.push(t("prompt.error.persona"));
+  if (!AGE_GROUPS.some((a) => a.id === config.ageGroup)) errors.push(t("prompt.error.ageGroup"));
+  if (config.persona === "cartoon") {
+    const name = config.characterName.trim();
+    if (!name) errors.push(t("prompt.error.characterMissing"));
+    else if (name.length > MAX_CHARACTER_NAME_LENGTH) errors.push(t("prompt.error.characterTooLong", { max: MAX_CHARACTER_NAME_LENGTH }));
+  }
+  if (config.houseRules.length > MAX_HOUSE_RULES) errors.push(t("prompt.error.tooManyRules", { max: MAX_HOUSE_RULES }));
+  if (config.houseRules.some((rule) => !rule.trim())) errors.push(t("prompt.error.emptyRule"));
+  if (config.houseRules.some((rule) => rule.length > MAX_RULE_LENGTH)) errors.push(t("prompt.error.ruleTooLong", { max: MAX_RULE_LENGTH }));
+  return errors;
+};
+
+const withCharacter = (text: string, config: PromptConfig) => text.replace(/\{character\}/g, config.characterName.trim());
+
+export const personaFor = (config: PromptConfig): Persona => PERSONAS.find((p) => p.id === config.persona) ?? PERSONAS[0];
+
+// Sample sentences in this configuration's voice and the reply language, for the settings preview
+export const sampleMessages = (config: PromptConfig, language: Language = getLanguage()) => {
+  const examples = personaFor(config).examples[language];
+  return {
+    focused: withCharacter(examples.focused, config),
+    distracted: withCharacter(examples.distracted, config),
+    absent: withCharacter(examples.absent, config),
+  };
+};
+
+/**
+ * The text sent with every frame. Corrections are the notes built from the parent's feedback
+ * (see services/feedback.ts); house rules come last so they override the general guidance.
+ */
+export const buildPrompt = (
+  config: PromptConfig,
+  corrections: string[] = [],
+  language: Language = getLanguage()
+): { systemInstruction: string; prompt: string } => {
+  const persona = personaFor(config);
+  const age = AGE_GROUPS.find((a) => a.id === config.ageGroup) ?? AGE_GROUPS[1];
+  const samples = sampleMessages(config, language);
+
+  const lines = [
+    "Analyze this image of a student doing homework.",
+    "Determine if they are FOCUSED (looking at paper/book, writing, reading),",
+    "DISTRACTED (looking away, playing with toys, sleeping, using phone),",
+    "or ABSENT (empty chair).",
+    "When DISTRACTED or ABSENT, give the main reason.",
+    "Also report visible posture problems and whether homework materials are on the desk.",
+    `Provide a short voice message text in ${languageOption(language).modelName}.`,
+    age.instruction,
+    `If FOCUSED, say something encouraging like "${samples.focused}".`,
+    `If DISTRACTED, say something like "${samples.distracted}".`,
+    `If ABSENT, say something like "${samples.absent}".`,
+  ];
+  if (corrections.length > 0) {
+    lines.push("Notes from the parent's earlier corrections:", ...corrections.map((line) => `- ${line}`));
+  }
+  const rules = config.houseRules.map((rule) => rule.trim()).filter(Boolean);
+  if (rules.length > 0) {
+    lines.push(
+      "House rules set by the parent. They take precedence; anything they allow is not a distraction:",
+      ...rules.map((rule) => `- ${rule}`)
+    );
+  }
+
+  return {
+    systemInstruction: `You are a homework monitoring assistant. ${withCharacter(persona.instruction, config)}`,
+    prompt: lines.join("\n"),
+  };
+};
+
+export const createDefaultHistory = (): PromptHistory => ({
+  activeVersion: 1,
+  versions: [{ version: 1, savedAt: new Date().toISOString(), config: DEFAULT_PROMPT }],
+});
+
+export const activePrompt = (history: PromptHistory): PromptConfig =>
+  history.versions.find((v) => v.version === history.activeVersion)?.config ?? DEFAULT_PROMPT;
+
+export const loadPromptHistory = (): PromptHistory => {
+  try {
+    const raw = localStorage.getItem(scopedKey(PROFILE_KEYS.prompt));
+    if (!raw) return createDefaultHistory();
+    const history: PromptHistory = JSON.parse(raw);
+    // Fill fields added later, and never run with a configuration that no longer validates
+    const versions = history.versions.map((v) => ({ ...v, config: { ...DEFAULT_PROMPT, ...v.config } }));
+    const active = versions.find((v) => v.version === history.activeVersion);
+    if (!active || validatePromptConfig(active.config).length > 0) return createDefaultHistory();
+    return { activeVersion: history.activeVersion, versions };
+  } catch (e) {
+    console.warn("Failed to read prompt settings, using defaults", e);
+    return createDefaultHistory();
+  }
+};
+
+export const savePromptHistory = (history: PromptHistory) => {
+  localStorage.setItem(scopedKey(PROFILE_KEYS.prompt), JSON.stringify(history));
+};
+
+// Saves the configuration as a new version and makes it active; throws when it does not validate
+export const commitPrompt = (history: PromptHistory, config: PromptConfig, now: Date = new Date()): PromptHistory => {
+  const errors = validatePromptConfig(config);
+  if (errors.length > 0) throw new Error(errors.join(t("common.sentenceSeparator")));
+  const version = Math.max(0, ...history.versions.map((v) => v.version)) + 1;
+  const cleaned = { ...config, characterName: config.characterName.trim(), houseRules: config.houseRules.map((r) => r.trim()) };
+  return {
+    activeVersion: version,
+    versions: [...history.versions, { version, savedAt: now.toISOString(), config: cleaned }].slice(-MAX_VERSIONS),
+  };
+};
+
+// Makes an earlier version active again; later versions stay in the list
+export const rollbackPrompt = (history: PromptHistory, version: number): PromptHistory =>
+  history.versions.some((v) => v.version === version) ? { ...history, activeVersion: version } : history;
@@ -0,0 +1,101 @@
+import { LogEntry, RelayLog, RelayMessage, RelaySettings } from "../types";
+
+export const DEFAULT_RELAY: RelaySettings = {
+  enabled: false,
+  url: "ws://192.168.1.2:8787",
+  room: "", // Replaced by a random code the first time settings load; see loadSettings
+};
+
+export const createRoomCode = (): string => String(Math.floor(100000 + Math.random() * 900000));
+
+const RECONNECT_DELAY_MS = 3000;
+
+export type RelayConnectionState = "connecting" | "open" | "closed";
+
+export interface RelayConnection {
+  send: (message: RelayMessage) => void;
+  close: () => void;
+}
+
+export const toRelayLog = (entry: LogEntry): RelayLog => ({
+  id: entry.id,
+  timestamp: entry.timestamp.toISOString(),
+  status: entry.status,
+  message: entry.message,
+});
+
+export const buildParentLink = (relay: RelaySettings): string => {
+  const params = new URLSearchParams({ parent: "1", relay: relay.url, room: relay.room });
+  return `${window.location.origin}${window.location.pathname}?${params.toString()}`;
+};
+
+// Keeps a socket open to the relay, reconnecting after drops until close() is called.
+const connect = (
+  url: string,
+  room: string,
+  role: "publisher" | "viewer",
+  onState: (state: RelayConnectionState) => void,
+  onMessage?: (message: RelayMessage) => void,
+  onOpen?: () => void
+): RelayConnection => {
+  let socket: WebSocket | null = null;
+  let closed = false;
+  let retryTimer: number | null = null;
+
+  const open = () => {
+    onState("connecting");
+    try {
+      const target = new URL(url);
+      target.searchParams.set("room", room);
+      target.searchParams.set("role", role);
+      socket = new WebSocket(target.toString());
+    } catch (e) {
+      console.error("Invalid relay URL", e);
+      onState("closed");
+      return;
+    }
+
+    socket.onopen = () => {
+      onState("open");
+      onOpen?.();
+    };
+    socket.onmessage = (event) => {
+      if (!onMessage) return;
+      try {
+        onMessage(JSON.parse(event.data));
+      } catch (e) {
+        console.warn("Ignoring malformed relay message", e);
+      }
+    };
+    socket.onclose = () => {
+      onState("closed");
+      if (!closed) retryTimer = window.setTimeout(open, RECONNECT_DELAY_MS);
+    };
+  };
+
+  open();
+
+  return {
+    send: (message) => {
+      if (socket && socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+    },
+    close: () => {
+      closed = true;
+      if (retryTimer) clearTimeout(retryTimer);
+      socket?.close();
+    },
+  };
+};
+
+export const createRelayPublisher = (
+  relay: RelaySettings,
+  onState: (state: RelayConnectionState) => void,
+  onOpen?: () => void
+): RelayConnection => connect(relay.url, relay.room, "publisher", onState, undefined, onOpen);
+
+export const subscribeToRelay = (
+  url: string,
+  room: string,
+  onMessage: (message: RelayMessage) => void,
+  onState: (state: RelayConnectionState) => void
+): RelayConnection => connect(url, room, "viewer", onState, onMessage);
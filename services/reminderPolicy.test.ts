@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import { FocusStatus, ReminderPolicyConfig } from "../types";
+import { createReminderPolicy, DEFAULT_REMINDERS, isQuietTime, ReminderAction } from "./reminderPolicy";
+
+// 16:00 local time, outside any quiet window used below unless a test says otherwise
+const at = (seconds: number, hour = 16) => new Date(2026, 9, 19, hour, 0, 0).getTime() + seconds * 1000;
+
+const CONFIG: ReminderPolicyConfig = {
+  ...DEFAULT_REMINDERS,
+  cooldownSeconds: 30,
+  escalation: { chime: 0, spoken: 15, parentClip: 60, notifyParent: 180 },
+  praiseEveryMinutes: 10,
+  quietWindows: [],
+};
+
+const levels = (actions: ReminderAction[]) => actions.map((a) => (a.kind === "alert" ? a.level : a.kind));
+
+// Feeds one reading every `step` seconds from `from` to `to` and collects what was decided
+const run = (config: ReminderPolicyConfig, status: FocusStatus, from: number, to: number, step = 5, hour = 16) => {
+  const policy = createReminderPolicy(config);
+  const decided: { second: number; levels: string[] }[] = [];
+  for (let s = from; s <= to; s += step) {
+    const actions = policy.decide(status, at(s, hour));
+    if (actions.length > 0) decided.push({ second: s, levels: levels(actions) });
+  }
+  return decided;
+};
+
+describe("createReminderPolicy", () => {
+  it("escalates in order and repeats the highest audible level once per cooldown", () => {
+    expect(run(CONFIG, FocusStatus.DISTRACTED, 0, 90)).toEqual([
+      { second: 0, levels: ["chime"] },
+      { second: 30, levels: ["spoken"] },
+      { second: 60, levels: ["parentClip"] },
+      { second: 90, levels: ["parentClip"] },
+    ]);
+  });
+
+  it("skips disabled levels", () => {
+    const config = { ...CONFIG, escalation: { ...CONFIG.escalation, chime: null, spoken: null } };
+    expect(run(config, FocusStatus.ABSENT, 0, 60)[0]).toEqual({ second: 60, levels: ["parentClip"] });
+  });
+
+  it("notifies the parent once per episode", () => {
+    const policy = createReminderPolicy(CONFIG);
+    const alerts = () => {
+      const sent: number[] = [];
+      for (let s = 0; s <= 400; s += 5) {
+        if (policy.decide(FocusStatus.DISTRACTED, at(s)).some((a) => a.kind === "alert" && a.level === "notifyParent")) sent.push(s);
+      }
+      return sent;
+    };
+    expect(alerts()).toEqual([180]);
+
+    policy.decide(FocusStatus.FOCUSED, at(405));
+    const next: number[] = [];
+    for (let s = 410; s <= 700; s += 5) {
+      if (policy.decide(FocusStatus.DISTRACTED, at(s)).some((a) => a.kind === "alert" && a.level === "notifyParent")) next.push(s);
+    }
+    expect(next).toEqual([590]);
+  });
+
+  it("mutes sound in a quiet window but still notifies the parent", () => {
+    const config = { ...CONFIG, quietWindows: [{ start: "21:00", end: "07:00" }] };
+    expect(run(config, FocusStatus.DISTRACTED, 0, 200, 5, 22)).toEqual([{ second: 180, levels: ["notifyParent"] }]);
+  });
+
+  it("praises after each block of unbroken focus", () => {
+    expect(run(CONFIG, FocusStatus.FOCUSED, 0, 1500, 60).map((d) => d.second)).toEqual([600, 1200]);
+  });
+
+  it("starts the praise timer again after a distraction", () => {
+    const policy = createReminderPolicy({ ...CONFIG, escalation: { chime: null, spoken: null, parentClip: null, notifyParent: null } });
+    policy.decide(FocusStatus.FOCUSED, at(0));
+    policy.decide(FocusStatus.DISTRACTED, at(500));
+    expect(policy.decide(FocusStatus.FOCUSED, at(600))).toEqual([]);
+    expect(levels(policy.decide(FocusStatus.FOCUSED, at(1200)))).toEqual(["praise"]);
+  });
+
+  it("holds praise back until the cooldown after a reminder has passed", () => {
+    const policy = createReminderPolicy({ ...CONFIG, cooldownSeconds: 600, praiseEveryMinutes: 1 });
+    expect(levels(policy.decide(FocusStatus.DISTRACTED, at(0)))).toEqual(["chime"]);
+    policy.decide(FocusStatus.FOCUSED, at(10));
+    expect(policy.decide(FocusStatus.FOCUSED, at(70))).toEqual([]);
+  });
+});
+
+describe("isQuietTime", () => {
+  const windows = [{ start: "21:00", end: "07:00" }];
+
+  it("wraps past midnight", () => {
+    expect(isQuietTime(windows, new Date(2026, 9, 19, 23, 30))).toBe(true);
+    expect(isQuietTime(windows, new Date(2026, 9, 19, 6, 59))).toBe(true);
+    expect(isQuietTime(windows, new Date(2026, 9, 19, 7, 0))).toBe(false);
+  });
+
+  it("ignores a window with a malformed time", () => {
+    expect(isQuietTime([{ start: "9pm", end: "07:00" }], new Date(2026, 9, 19, 23, 0))).toBe(false);
+  });
+});
@@ -0,0 +1,150 @@
+import { EscalationLevel, FocusStatus, PostureIssue, QuietWindow, ReminderPolicyConfig } from "../types";
+import { t } from "./i18n";
+
+export const ESCALATION_LEVELS: { id: EscalationLevel; label: string }[] = [
+  { id: "chime", get label() { return t("escalation.chime"); } },
+  { id: "spoken", get label() { return t("escalation.spoken"); } },
+  { id: "parentClip", get label() { return t("escalation.parentClip"); } },
+  { id: "notifyParent", get label() { return t("escalation.notifyParent"); } },
+];
+
+export const DEFAULT_REMINDERS: ReminderPolicyConfig = {
+  cooldownSeconds: 30,
+  escalation: { chime: 0, spoken: 15, parentClip: 60, notifyParent: 180 },
+  praiseEveryMinutes: 10,
+  quietWindows: [],
+  postureEveryMinutes: 5,
+};
+
+// Consecutive readings showing the same posture problem before it is mentioned
+const POSTURE_CONFIRMATIONS = 2;
+
+export type ReminderAction =
+  | { kind: "alert"; level: EscalationLevel; status: FocusStatus.DISTRACTED | FocusStatus.ABSENT; offTaskSeconds: number }
+  | { kind: "praise"; focusedSeconds: number }
+  | { kind: "posture"; issue: PostureIssue };
+
+export interface ReminderPolicy {
+  // Feed every debounced status; returns what to play or send right now (often nothing)
+  decide: (status: FocusStatus, now: number, posture?: PostureIssue[]) => ReminderAction[];
+  configure: (config: ReminderPolicyConfig) => void;
+  reset: () => void;
+}
+
+const CLOCK = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+export const isValidClock = (value: string) => CLOCK.test(value);
+
+const minutesOfDay = (clock: string): number => {
+  const [, h, m] = CLOCK.exec(clock)!;
+  return Number(h) * 60 + Number(m);
+};
+
+// Windows with a malformed time are ignored rather than silencing the whole day
+export const isQuietTime = (windows: QuietWindow[], at: Date): boolean => {
+  const now = at.getHours() * 60 + at.getMinutes();
+  return windows.some(({ start, end }) => {
+    if (!isValidClock(start) || !isValidClock(end)) return false;
+    const from = minutesOfDay(start);
+    const to = minutesOfDay(end);
+    return from <= to ? now >= from && now < to : now >= from || now < to;
+  });
+};
+
+/**
+ * Turns the stream of statuses into reminders. An off-task episode escalates through the
+ * enabled levels by how long it has lasted; the highest audible level reached repeats once per
+ * cooldown, and the parent is notified at most once per episode. Unbroken focus earns praise
+ * every praiseEveryMinutes. Quiet windows mute sound but keep the timers running, so a long
+ * episode still reaches the parent and praise does not pile up for the end of the window.
+ * A posture problem seen in consecutive readings gets its own reminder, at most once per
+ * postureEveryMinutes, and only when nothing else is being said.
+ */
+export const createReminderPolicy = (initialConfig: ReminderPolicyConfig = DEFAULT_REMINDERS): ReminderPolicy => {
+  let config = initialConfig;
+  let offTaskSince: number | null = null;
+  let parentNotified = false;
+  let focusSince: number | null = null;
+  let praisesGiven = 0;
+  let lastSoundAt = -Infinity;
+  let postureSeen = new Map<PostureIssue, number>();
+  let lastPostureAt = -Infinity;
+
+  const cooledDown = (now: number) => now - lastSoundAt >= config.cooldownSeconds * 1000;
+
+  const decide = (status: FocusStatus, now: number, posture: PostureIssue[] = []): ReminderAction[] => {
+    const actions: ReminderAction[] = [];
+    const quiet = isQuietTime(config.quietWindows, new Date(now));
+
+    if (status === FocusStatus.DISTRACTED || status === FocusStatus.ABSENT) {
+      focusSince = null;
+      if (offTaskSince === null) {
+        offTaskSince = now;
+        parentNotified = false;
+      }
+      const offTaskSeconds = (now - offTaskSince) / 1000;
+      const due = ESCALATION_LEVELS.map((l) => l.id).filter((level) => {
+        const after = config.escalation[level];
+        return after !== null && offTaskSeconds >= after;
+      });
+
+      if (due.includes("notifyParent") && !parentNotified) {
+        parentNotified = true;
+        actions.push({ kind: "alert", level: "notifyParent", status, offTaskSeconds });
+      }
+      const audible = due.filter((level) => level !== "notifyParent").pop();
+      if (audible && !quiet && cooledDown(now)) {
+        lastSoundAt = now;
+        actions.push({ kind: "alert", level: audible, status, offTaskSeconds });
+      }
+    } else if (status === FocusStatus.FOCUSED) {
+      offTaskSince = null;
+      if (focusSince === null) {
+        focusSince = now;
+        praisesGiven = 0;
+      }
+      const focusedSeconds = (now - focusSince) / 1000;
+      if (config.praiseEveryMinutes > 0 && focusedSeconds >= (praisesGiven + 1) * config.praiseEveryMinutes * 60) {
+        praisesGiven++;
+        if (!quiet && cooledDown(now)) {
+          lastSoundAt = now;
+          actions.push({ kind: "praise", focusedSeconds });
+        }
+      }
+    } else if (status === FocusStatus.IDLE) {
+      reset();
+    }
+    // ERROR readings say nothing about the child, so they leave every timer as it is
+
+    if (status === FocusStatus.FOCUSED || status === FocusStatus.DISTRACTED) {
+      postureSeen = new Map(posture.map((issue) => [issue, (postureSeen.get(issue) ?? 0) + 1]));
+      const issue = posture.find((p) => postureSeen.get(p)! >= POSTURE_CONFIRMATIONS);
+      const due = config.postureEveryMinutes > 0 && now - lastPostureAt >= config.postureEveryMinutes * 60_000;
+      if (issue && due && actions.length === 0 && !quiet && cooledDown(now)) {
+        lastSoundAt = now;
+        lastPostureAt = now;
+        actions.push({ kind: "posture", issue });
+      }
+    } else if (status !== FocusStatus.ERROR) {
+      postureSeen = new Map();
+    }
+
+    return actions;
+  };
+
+  const configure = (next: ReminderPolicyConfig) => {
+    config = next;
+  };
+
+  const reset = () => {
+    offTaskSince = null;
+    parentNotified = false;
+    focusSince = null;
+    praisesGiven = 0;
+    lastSoundAt = -Infinity;
+    postureSeen = new Map();
+    lastPostureAt = -Infinity;
+  };
+
+  return { decide, configure, reset };
+};
@@ -0,0 +1,72 @@
+import { AnalysisProvider, AnalysisResult, FocusStatus } from "../types";
+import { t } from "./i18n";
+
+export interface ReplayStep extends AnalysisResult {
+  repeat?: number; // How many consecutive checks return this result (default 1)
+}
+
+export interface FrameFixture {
+  fingerprint: string; // Result of fingerprintFrame() for the fixture image
+  result: AnalysisResult;
+}
+
+interface ReplayOptions {
+  fixtures?: FrameFixture[];
+  loop?: boolean; // Restart the script when it runs out (default true)
+}
+
+// A short homework evening: settle in, glance at a toy, slouch for a while, leave the desk, come back.
+// Built on demand so the messages are in the current language.
+export const demoScript = (): ReplayStep[] => [
+  { status: FocusStatus.FOCUSED, message: t("speech.focused"), confidence: 0.92, posture: [], materialsVisible: true, repeat: 6 },
+  { status: FocusStatus.DISTRACTED, message: t("speech.distracted"), confidence: 0.81, reason: "toy", posture: [], materialsVisible: true, repeat: 2 },
+  { status: FocusStatus.FOCUSED, message: t("speech.returned"), confidence: 0.88, posture: ["slouching"], materialsVisible: true, repeat: 8 },
+  { status: FocusStatus.ABSENT, message: t("speech.absent"), confidence: 0.95, reason: "leftSeat", posture: [], materialsVisible: true, repeat: 2 },
+  { status: FocusStatus.FOCUSED, message: t("speech.focused"), confidence: 0.9, posture: [], materialsVisible: true, repeat: 10 },
+];
+
+// Cheap, stable FNV-1a hash so fixture images can be matched without storing them.
+export const fingerprintFrame = (base64Image: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < base64Image.length; i++) {
+    hash ^= base64Image.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+};
+
+export const createReplayProvider = (
+  script: ReplayStep[] = demoScript(),
+  { fixtures = [], loop = true }: ReplayOptions = {}
+): AnalysisProvider => {
+  // Expand repeats up front so the cursor is a plain index
+  const sequence: AnalysisResult[] = script.flatMap(({ repeat = 1, ...result }) =>
+    Array.from({ length: Math.max(1, repeat) }, () => result)
+  );
+  const fixtureMap = new Map(fixtures.map((f) => [f.fingerprint, f.result]));
+  let cursor = 0;
+
+  return {
+    id: "replay",
+    get name() { return t("provider.replay.name"); },
+    analyze: async (base64Image: string) => {
+      if (fixtureMap.size > 0) {
+        const match = fixtureMap.get(fingerprintFrame(base64Image));
+        if (match) return { ...match };
+      }
+
+      if (sequence.length === 0) {
+        return { status: FocusStatus.ERROR, message: t("replay.empty"), confidence: 0 };
+      }
+
+      if (cursor >= sequence.length) {
+        if (!loop) return { ...sequence[sequence.length - 1] };
+        cursor = 0;
+      }
+      return { ...sequence[cursor++] };
+    },
+    reset: () => {
+      cursor = 0;
+    },
+  };
+};
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { FocusStatus, LogEntry } from "../types";
+import { buildTimeline, creditedMs, dailyTotals } from "./reports";
+
+const START = new Date(2026, 9, 19, 16, 0, 0).getTime();
+
+const reading = (seconds: number, status: FocusStatus, extra: Partial<LogEntry> = {}): LogEntry => ({
+  id: String(seconds),
+  timestamp: new Date(START + seconds * 1000),
+  status,
+  message: "",
+  intervalMs: 5000,
+  sessionId: "s1",
+  ...extra,
+});
+
+const seconds = (logs: LogEntry[], status: FocusStatus) =>
+  buildTimeline(logs)
+    .filter(s => s.status === status)
+    .reduce((sum, s) => sum + (s.end.getTime() - s.start.getTime()) / 1000, 0);
+
+describe("creditedMs", () => {
+  it("credits up to twice the interval and nothing past four", () => {
+    expect(creditedMs(5000, 5000)).toBe(5000);
+    expect(creditedMs(15000, 5000)).toBe(10000);
+    expect(creditedMs(20000, 5000)).toBe(10000);
+    expect(creditedMs(20001, 5000)).toBe(0);
+  });
+});
+
+describe("buildTimeline", () => {
+  it("credits each reading the time since the previous one", () => {
+    const logs = [reading(0, FocusStatus.FOCUSED), reading(5, FocusStatus.FOCUSED), reading(10, FocusStatus.DISTRACTED)];
+    expect(seconds(logs, FocusStatus.FOCUSED)).toBe(5);
+    expect(seconds(logs, FocusStatus.DISTRACTED)).toBe(5);
+  });
+
+  it("uses the previous reading's interval for the cap", () => {
+    const logs = [reading(0, FocusStatus.FOCUSED, { intervalMs: 10000 }), reading(25, FocusStatus.FOCUSED)];
+    expect(seconds(logs, FocusStatus.FOCUSED)).toBe(20);
+  });
+
+  it("leaves suspended gaps and session boundaries empty", () => {
+    const logs = [
+      reading(0, FocusStatus.FOCUSED),
+      reading(60, FocusStatus.FOCUSED),
+      reading(65, FocusStatus.FOCUSED, { sessionId: "s2" }),
+      reading(70, FocusStatus.FOCUSED, { sessionId: "s2" }),
+    ];
+    expect(seconds(logs, FocusStatus.FOCUSED)).toBe(5);
+  });
+
+  it("counts a corrected reading as what the parent marked", () => {
+    const logs = [
+      reading(0, FocusStatus.FOCUSED),
+      reading(5, FocusStatus.DISTRACTED, { feedback: { actualStatus: FocusStatus.FOCUSED, markedAt: new Date() } }),
+    ];
+    expect(seconds(logs, FocusStatus.FOCUSED)).toBe(5);
+    expect(dailyTotals(logs, 1, new Date(START))[0].distractionEvents).toBe(0);
+  });
+});
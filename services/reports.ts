@@ -0,0 +1,178 @@
+import { DistractionReason, FocusStatus, LogEntry, PostureIssue } from "../types";
+import { MessageKey, t } from "./i18n";
+
+// Older logs were taken every 5 s and did not record their interval
+const LEGACY_INTERVAL_MS = 5_000;
+
+/**
+ * How much of the time since the previous check a reading is credited with, given the interval
+ * that was scheduled after that check. At most twice the interval; a gap beyond four intervals
+ * means the app was suspended (camera off, tab hidden) and counts for nothing. App.updateStats
+ * and buildTimeline both use this, so the live stats and the reports agree.
+ */
+export const creditedMs = (elapsedMs: number, intervalMs: number): number =>
+  elapsedMs > intervalMs * 4 ? 0 : Math.min(elapsedMs, intervalMs * 2);
+
+// The time a reading covers, given the reading taken just before it. A session's first reading
+// (no previous reading, or one from another session) covers nothing.
+export const readingCreditMs = (log: LogEntry, prev: LogEntry | null | undefined): number =>
+  prev && prev.sessionId === log.sessionId
+    ? creditedMs(log.timestamp.getTime() - prev.timestamp.getTime(), prev.intervalMs ?? LEGACY_INTERVAL_MS)
+    : 0;
+
+// What the reading counts as once a parent's correction is applied
+export const effectiveStatus = (entry: LogEntry): FocusStatus => entry.feedback?.actualStatus ?? entry.status;
+
+export interface TimelineSegment {
+  status: FocusStatus;
+  start: Date;
+  end: Date;
+  taskId?: string;
+}
+
+export interface TaskTotal {
+  taskId: string | undefined; // undefined for logs recorded without a subject
+  focusedSeconds: number;
+  distractionEvents: number;
+}
+
+export interface DailyTotal {
+  dateKey: string; // YYYY-MM-DD in local time
+  label: string; // e.g. "周三" / "Wed"
+  focusedSeconds: number;
+  distractedSeconds: number;
+  absentSeconds: number;
+  distractionEvents: number;
+}
+
+const WEEKDAY_KEYS: MessageKey[] = ["weekday.0", "weekday.1", "weekday.2", "weekday.3", "weekday.4", "weekday.5", "weekday.6"];
+
+export const toDateKey = (date: Date): string => {
+  const y = date.getFullYear();
+  const m = String(date.getMonth() + 1).padStart(2, "0");
+  const d = String(date.getDate()).padStart(2, "0");
+  return `${y}-${m}-${d}`;
+};
+
+const isDistraction = (status: FocusStatus) => status === FocusStatus.DISTRACTED || status === FocusStatus.ABSENT;
+
+// Expects logs oldest first. Each reading covers the time since the previous one (see
+// readingCreditMs). Consecutive readings with the same status are merged into one band.
+export const buildTimeline = (logs: LogEntry[]): TimelineSegment[] => {
+  const segments: TimelineSegment[] = [];
+
+  logs.forEach((log, i) => {
+    const start = new Date(log.timestamp.getTime() - readingCreditMs(log, logs[i - 1]));
+    const status = effectiveStatus(log);
+
+    const last = segments[segments.length - 1];
+    if (last && last.status === status && last.taskId === log.taskId && last.end.getTime() === start.getTime()) {
+      last.end = log.timestamp;
+    } else {
+      segments.push({ status, start, end: log.timestamp, taskId: log.taskId });
+    }
+  });
+
+  return segments;
+};
+
+// Totals for the last `days` calendar days including today, oldest first.
+export const dailyTotals = (logs: LogEntry[], days: number = 7, now: Date = new Date()): DailyTotal[] => {
+  const totals: DailyTotal[] = [];
+  const byKey = new Map<string, DailyTotal>();
+
+  for (let i = days - 1; i >= 0; i--) {
+    const day = new Date(now.getFullYear(), now.getMonth(), now.getDate() - i);
+    const total: DailyTotal = {
+      dateKey: toDateKey(day),
+      label: t(i === 0 ? "weekday.today" : WEEKDAY_KEYS[day.getDay()]),
+      focusedSeconds: 0,
+      distractedSeconds: 0,
+      absentSeconds: 0,
+      distractionEvents: 0,
+    };
+    totals.push(total);
+    byKey.set(total.dateKey, total);
+  }
+
+  buildTimeline(logs).forEach((segment) => {
+    const total = byKey.get(toDateKey(segment.start));
+    if (!total) return;
+    const seconds = (segment.end.getTime() - segment.start.getTime()) / 1000;
+    if (segment.status === FocusStatus.FOCUSED) total.focusedSeconds += seconds;
+    else if (segment.status === FocusStatus.DISTRACTED) total.distractedSeconds += seconds;
+    else if (segment.status === FocusStatus.ABSENT) total.absentSeconds += seconds;
+  });
+
+  logs.forEach((log) => {
+    const total = byKey.get(toDateKey(log.timestamp));
+    if (total && isDistraction(effectiveStatus(log))) total.distractionEvents += 1;
+  });
+
+  return totals;
+};
+
+// Number of distracted/absent readings per hour of day (index 0-23).
+export const distractionByHour = (logs: LogEntry[]): number[] => {
+  const hours = new Array<number>(24).fill(0);
+  logs.forEach((log) => {
+    if (isDistraction(effectiveStatus(log))) hours[log.timestamp.getHours()] += 1;
+  });
+  return hours;
+};
+
+// Hours whose distraction count is well above the average of active hours.
+export const findDistractionPeaks = (hours: number[]): number[] => {
+  const active = hours.filter((c) => c > 0);
+  if (active.length === 0) return [];
+  const mean = active.reduce((a, b) => a + b, 0) / active.length;
+  return hours.map((count, hour) => ({ count, hour }))
+    .filter(({ count }) => count >= Math.max(2, mean * 1.5))
+    .map(({ hour }) => hour);
+};
+
+// Focus time and distractions per subject, largest focus time first.
+export const totalsByTask = (logs: LogEntry[]): TaskTotal[] => {
+  const byTask = new Map<string | undefined, TaskTotal>();
+  const totalFor = (taskId: string | undefined) => {
+    let total = byTask.get(taskId);
+    if (!total) {
+      total = { taskId, focusedSeconds: 0, distractionEvents: 0 };
+      byTask.set(taskId, total);
+    }
+    return total;
+  };
+
+  buildTimeline(logs).forEach((segment) => {
+    if (segment.status === FocusStatus.FOCUSED) {
+      totalFor(segment.taskId).focusedSeconds += (segment.end.getTime() - segment.start.getTime()) / 1000;
+    }
+  });
+  logs.forEach((log) => {
+    if (isDistraction(effectiveStatus(log))) totalFor(log.taskId).distractionEvents += 1;
+  });
+
+  return Array.from(byTask.values()).sort((a, b) => b.focusedSeconds - a.focusedSeconds);
+};
+
+export interface ReasonTotal {
+  reason: DistractionReason;
+  count: number;
+}
+
+// Distracted/absent readings per reason, most frequent first. Readings without a reason
+// (local analysis, older logs) are left out.
+export const distractionsByReason = (logs: LogEntry[]): ReasonTotal[] => {
+  const counts = new Map<DistractionReason, number>();
+  logs.forEach((log) => {
+    if (isDistraction(effectiveStatus(log)) && log.reason) counts.set(log.reason, (counts.get(log.reason) ?? 0) + 1);
+  });
+  return Array.from(counts, ([reason, count]) => ({ reason, count })).sort((a, b) => b.count - a.count);
+};
+
+// Readings that showed each posture problem, most frequent first
+export const postureWarnings = (logs: LogEntry[]): { issue: PostureIssue; count: number }[] => {
+  const counts = new Map<PostureIssue, number>();
+  logs.forEach((log) => log.posture?.forEach((issue) => counts.set(issue, (counts.get(issue) ?? 0) + 1)));
+  return Array.from(counts, ([issue, count]) => ({ issue, count })).sort((a, b) => b.count - a.count);
+};
@@ -0,0 +1,109 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { FocusStatus, LogEntry, ScoringProfile } from "../types";
+import { getLanguage, setLanguage } from "./i18n";
+import { DEFAULT_SCORING, SCORING_PRESETS, plannedMinutesFor, scoreLogs, scoringProfileName } from "./scoring";
+
+const STEP_MS = 5000;
+
+// One reading every STEP_MS; each span lasts `seconds` (a multiple of 5). An idle reading first,
+// so every counted reading has one before it.
+const makeLogs = (spans: [FocusStatus, number][]): LogEntry[] => {
+  const start = new Date(2026, 9, 19, 16, 0, 0).getTime();
+  const logs: LogEntry[] = [{ id: "0", timestamp: new Date(start), status: FocusStatus.IDLE, message: "", intervalMs: STEP_MS }];
+  spans.forEach(([status, seconds]) => {
+    for (let s = 0; s < seconds; s += STEP_MS / 1000) {
+      const timestamp = new Date(start + logs.length * STEP_MS);
+      logs.push({ id: String(logs.length), timestamp, status, message: "", intervalMs: STEP_MS });
+    }
+  });
+  return logs;
+};
+
+const focused = (minutes: number): [FocusStatus, number] => [FocusStatus.FOCUSED, minutes * 60];
+const distracted = (seconds: number): [FocusStatus, number] => [FocusStatus.DISTRACTED, seconds];
+const absent = (seconds: number): [FocusStatus, number] => [FocusStatus.ABSENT, seconds];
+
+const score = (spans: [FocusStatus, number][], profile: ScoringProfile = DEFAULT_SCORING, plannedMinutes = profile.targetMinutes) =>
+  scoreLogs(makeLogs(spans), { profile, plannedMinutes });
+
+describe("scoreLogs", () => {
+  it("scores no logs as zero", () => {
+    expect(scoreLogs([], { profile: DEFAULT_SCORING, plannedMinutes: 40 }).score).toBe(0);
+  });
+
+  it.each(SCORING_PRESETS.map(preset => [preset.id, preset] as const))("applies the %s preset's target and penalties", (_id, preset) => {
+    expect(score([focused(preset.targetMinutes)], preset).score).toBe(100);
+
+    const long = preset.glanceSeconds + 30;
+    const result = score([focused(preset.targetMinutes), distracted(long), focused(1), absent(long)], preset);
+    expect(result.score).toBe(Math.round(100 - preset.distractionPenalty - preset.absencePenalty));
+  });
+
+  it("scales focus points by progress towards the planned minutes", () => {
+    expect(score([focused(20)], DEFAULT_SCORING, 40).score).toBe(65);
+    expect(score([focused(20)], DEFAULT_SCORING, 20).score).toBe(100);
+  });
+
+  it("caps focus points once the plan is met", () => {
+    const result = score([focused(80)], DEFAULT_SCORING, 40);
+    expect(result.items[0].points).toBe(70);
+    expect(result.score).toBe(100);
+  });
+
+  it("costs each further glance less than the previous one", () => {
+    const glance = distracted(5);
+    const oneGlance = score([focused(40), glance, focused(1)]);
+    const threeGlances = score([focused(40), glance, focused(1), glance, focused(1), glance, focused(1)]);
+
+    expect(oneGlance.items.find(i => i.points < 0)?.points).toBe(-1);
+    // 1 + 0.7 + 0.49
+    expect(threeGlances.items.find(i => i.points < 0)?.points).toBe(-2.2);
+  });
+
+  it("never scores below zero", () => {
+    const spans: [FocusStatus, number][] = [];
+    for (let i = 0; i < 30; i++) spans.push(distracted(30), absent(30));
+    expect(score(spans).score).toBe(0);
+  });
+});
+
+describe("plannedMinutesFor", () => {
+  const plan = { enabled: true, workMinutes: 25, breakMinutes: 5, rounds: 3 };
+
+  it("uses a finite study plan's work time", () => {
+    expect(plannedMinutesFor(DEFAULT_SCORING, plan)).toBe(75);
+  });
+
+  it("falls back to the profile target without a finite plan", () => {
+    expect(plannedMinutesFor(DEFAULT_SCORING, { ...plan, enabled: false })).toBe(DEFAULT_SCORING.targetMinutes);
+    expect(plannedMinutesFor(DEFAULT_SCORING, { ...plan, rounds: 0 })).toBe(DEFAULT_SCORING.targetMinutes);
+  });
+});
+
+describe("scoringProfileName", () => {
+  const initial = getLanguage();
+
+  // setLanguage remembers the choice in localStorage
+  beforeEach(() => {
+    const storage = new Map<string, string>();
+    vi.stubGlobal("localStorage", { getItem: (k: string) => storage.get(k) ?? null, setItem: (k: string, v: string) => storage.set(k, v) });
+  });
+
+  afterEach(() => {
+    setLanguage(initial);
+    vi.unstubAllGlobals();
+  });
+
+  it("shows a saved custom or preset profile in the current language", () => {
+    const custom = { ...DEFAULT_SCORING, id: "custom", name: "自定义" };
+    const preset = { ...SCORING_PRESETS[0], name: "低年级" };
+    setLanguage("en");
+    expect(scoringProfileName(custom)).toBe("Custom");
+    expect(scoringProfileName(preset)).toBe(SCORING_PRESETS[0].name);
+    expect(score([focused(10)], custom).profileName).toBe("Custom");
+  });
+
+  it("keeps the stored name for unknown ids", () => {
+    expect(scoringProfileName({ ...DEFAULT_SCORING, id: "imported", name: "Class 3B" })).toBe("Class 3B");
+  });
+});
@@ -0,0 +1,98 @@
+import { AppSettings, FocusStatus, LogEntry, ScoringProfile, StudyPlanConfig } from "../types";
+import { buildTimeline } from "./reports";
+import { t } from "./i18n";
+
+// The score is FOCUS_POINTS scaled by progress towards the planned minutes, plus BASE_POINTS
+// for showing up, minus penalties for each distraction or absence episode. Clamped to 0-100.
+export const FOCUS_POINTS = 70;
+export const BASE_POINTS = 30;
+// Each further brief glance costs this fraction of the previous one
+export const GLANCE_DECAY = 0.7;
+
+export const SCORING_PRESETS: ScoringProfile[] = [
+  { id: "lower", get name() { return t("scoring.preset.lower"); }, targetMinutes: 20, distractionPenalty: 2, absencePenalty: 1.5, glanceSeconds: 15, glancePenalty: 0.5 },
+  { id: "middle", get name() { return t("scoring.preset.middle"); }, targetMinutes: 40, distractionPenalty: 3, absencePenalty: 2, glanceSeconds: 10, glancePenalty: 1 },
+  { id: "upper", get name() { return t("scoring.preset.upper"); }, targetMinutes: 60, distractionPenalty: 4, absencePenalty: 3, glanceSeconds: 8, glancePenalty: 1 },
+  { id: "secondary", get name() { return t("scoring.preset.secondary"); }, targetMinutes: 90, distractionPenalty: 5, absencePenalty: 4, glanceSeconds: 5, glancePenalty: 1.5 },
+];
+
+export const DEFAULT_SCORING: ScoringProfile = SCORING_PRESETS[1];
+
+// The stored name is whatever language was active when it was saved, so known ids are looked up again
+export const scoringProfileName = (profile: ScoringProfile): string => {
+  if (profile.id === "custom") return t("scoring.custom");
+  return SCORING_PRESETS.find(preset => preset.id === profile.id)?.name ?? profile.name;
+};
+
+export interface ScoringContext {
+  profile: ScoringProfile;
+  plannedMinutes: number;
+}
+
+export interface ScoreItem {
+  label: string;
+  points: number; // Negative for penalties, rounded to one decimal
+  detail?: string;
+}
+
+export interface ScoreBreakdown {
+  score: number;
+  profileName: string;
+  plannedMinutes: number;
+  items: ScoreItem[];
+}
+
+// A finite study plan defines the day's workload; otherwise the profile's target does
+export const plannedMinutesFor = (profile: ScoringProfile, studyPlan: StudyPlanConfig): number =>
+  studyPlan.enabled && studyPlan.rounds > 0 ? studyPlan.workMinutes * studyPlan.rounds : profile.targetMinutes;
+
+export const scoringContextFor = (settings: AppSettings): ScoringContext => ({
+  profile: settings.scoring,
+  plannedMinutes: plannedMinutesFor(settings.scoring, settings.studyPlan),
+});
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+// Expects logs oldest first, typically one day's worth. No logs scores zero.
+export const scoreLogs = (logs: LogEntry[], { profile, plannedMinutes }: ScoringContext): ScoreBreakdown => {
+  const breakdown: ScoreBreakdown = { score: 0, profileName: scoringProfileName(profile), plannedMinutes, items: [] };
+  if (logs.length === 0) return breakdown;
+
+  let focusSeconds = 0;
+  let distractions = 0;
+  let absences = 0;
+  let glances = 0;
+
+  buildTimeline(logs).forEach((segment) => {
+    const seconds = (segment.end.getTime() - segment.start.getTime()) / 1000;
+    if (segment.status === FocusStatus.FOCUSED) {
+      focusSeconds += seconds;
+    } else if (segment.status === FocusStatus.DISTRACTED || segment.status === FocusStatus.ABSENT) {
+      if (seconds < profile.glanceSeconds) glances++;
+      else if (segment.status === FocusStatus.DISTRACTED) distractions++;
+      else absences++;
+    }
+  });
+
+  const focusMinutes = Math.floor(focusSeconds / 60);
+  const ratio = plannedMinutes > 0 ? Math.min(1, focusSeconds / 60 / plannedMinutes) : 1;
+  const items: ScoreItem[] = [
+    { label: t("scoring.item.focus"), points: round1(FOCUS_POINTS * ratio), detail: t("scoring.detail.minutes", { focusMinutes, plannedMinutes }) },
+    { label: t("scoring.item.base"), points: BASE_POINTS },
+  ];
+
+  if (distractions > 0) {
+    items.push({ label: t("scoring.item.distracted"), points: -round1(distractions * profile.distractionPenalty), detail: t("scoring.detail.times", { count: distractions, penalty: profile.distractionPenalty }) });
+  }
+  if (absences > 0) {
+    items.push({ label: t("scoring.item.absent"), points: -round1(absences * profile.absencePenalty), detail: t("scoring.detail.times", { count: absences, penalty: profile.absencePenalty }) });
+  }
+  if (glances > 0) {
+    // Geometric series: glancePenalty * (1 + d + d^2 + ... + d^(n-1))
+    const penalty = (profile.glancePenalty * (1 - Math.pow(GLANCE_DECAY, glances))) / (1 - GLANCE_DECAY);
+    items.push({ label: t("scoring.item.glances"), points: -round1(penalty), detail: t("scoring.detail.glances", { count: glances }) });
+  }
+
+  const total = items.reduce((sum, item) => sum + item.points, 0);
+  return { ...breakdown, score: Math.min(100, Math.max(0, Math.round(total))), items };
+};
@@ -0,0 +1,272 @@
+import { EvidenceConfig, EvidenceSnapshot, LogEntry, LogFeedback, SessionRecord, UserStats } from "../types";
+import { createEmptyStats } from "./gamification";
+import { expiredSnapshots } from "./evidence";
+import { XP_PER_FOCUS_MINUTE } from "./progression";
+import { belongsToProfile, getActiveProfileId, scopedKey } from "./profiles";
+
+const DB_NAME = "focus_guardian";
+const DB_VERSION = 2;
+
+const SESSIONS = "sessions";
+const LOGS = "logs";
+const META = "meta";
+const SNAPSHOTS = "snapshots"; // Added in version 2
+
+const STATS_KEY = "cumulative_stats";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (!window.indexedDB) {
+      reject(new Error("IndexedDB is not available in this browser"));
+      return;
+    }
+
+    const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(SESSIONS)) {
+        const sessions = db.createObjectStore(SESSIONS, { keyPath: "id" });
+        sessions.createIndex("startedAt", "startedAt");
+      }
+      if (!db.objectStoreNames.contains(LOGS)) {
+        const logs = db.createObjectStore(LOGS, { keyPath: "id" });
+        logs.createIndex("sessionId", "sessionId");
+        logs.createIndex("timestamp", "timestamp");
+      }
+      if (!db.objectStoreNames.contains(META)) {
+        db.createObjectStore(META, { keyPath: "key" });
+      }
+      if (!db.objectStoreNames.contains(SNAPSHOTS)) {
+        const snapshots = db.createObjectStore(SNAPSHOTS, { keyPath: "id" });
+        snapshots.createIndex("timestamp", "timestamp");
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      // Allow a later call to retry (e.g. after the user leaves private browsing)
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  const tx = db.transaction(storeName, mode);
+  return promisify(run(tx.objectStore(storeName)));
+};
+
+export const createSessionId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const startSession = async (id: string, taskId?: string, startedAt: Date = new Date()): Promise<SessionRecord> => {
+  const session: SessionRecord = { id, startedAt, endedAt: null, finalStats: null, badgesEarned: [], taskId, profileId: getActiveProfileId() };
+  await withStore(SESSIONS, "readwrite", (store) => store.put(session));
+  return session;
+};
+
+export const appendLog = async (sessionId: string, entry: LogEntry): Promise<void> => {
+  await withStore(LOGS, "readwrite", (store) => store.put({ ...entry, sessionId, profileId: getActiveProfileId() }));
+};
+
+export const endSession = async (
+  id: string,
+  finalStats: UserStats,
+  badgesEarned: string[],
+  endedAt: Date = new Date()
+): Promise<void> => {
+  const session = await withStore<SessionRecord | undefined>(SESSIONS, "readonly", (store) => store.get(id));
+  if (!session) return;
+  await withStore(SESSIONS, "readwrite", (store) =>
+    store.put({ ...session, endedAt, finalStats, badgesEarned })
+  );
+};
+
+export const getSession = (id: string): Promise<SessionRecord | undefined> =>
+  withStore(SESSIONS, "readonly", (store) => store.get(id));
+
+export interface SessionQuery {
+  from?: Date;
+  to?: Date;
+  limit?: number;
+}
+
+// Every query below only sees the active profile's records
+
+// Newest first
+export const listSessions = async ({ from, to, limit }: SessionQuery = {}): Promise<SessionRecord[]> => {
+  const range =
+    from && to ? IDBKeyRange.bound(from, to) : from ? IDBKeyRange.lowerBound(from) : to ? IDBKeyRange.upperBound(to) : undefined;
+  const sessions = await withStore<SessionRecord[]>(SESSIONS, "readonly", (store) =>
+    store.index("startedAt").getAll(range)
+  );
+  const own = sessions.filter((s) => belongsToProfile(s));
+  own.sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime());
+  return limit ? own.slice(0, limit) : own;
+};
+
+// Oldest first, which is the natural order for timelines
+export const getSessionLogs = async (sessionId: string): Promise<LogEntry[]> => {
+  const logs = await withStore<LogEntry[]>(LOGS, "readonly", (store) =>
+    store.index("sessionId").getAll(IDBKeyRange.only(sessionId))
+  );
+  return logs.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+};
+
+export const getLog = (id: string): Promise<LogEntry | undefined> =>
+  withStore(LOGS, "readonly", (store) => store.get(id));
+
+export const updateLogFeedback = async (id: string, feedback: LogFeedback): Promise<void> => {
+  const log = await getLog(id);
+  if (!log) return;
+  await withStore(LOGS, "readwrite", (store) => store.put({ ...log, feedback }));
+};
+
+export const getLogsInRange = async (from: Date, to: Date): Promise<LogEntry[]> => {
+  const logs = await withStore<LogEntry[]>(LOGS, "readonly", (store) =>
+    store.index("timestamp").getAll(IDBKeyRange.bound(from, to))
+  );
+  return logs.filter((l) => belongsToProfile(l)).sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+};
+
+export const saveStats = async (stats: UserStats): Promise<void> => {
+  await withStore(META, "readwrite", (store) => store.put({ key: scopedKey(STATS_KEY), value: stats }));
+};
+
+export const loadStats = async (): Promise<UserStats | null> => {
+  const record = await withStore<{ key: string; value: UserStats } | undefined>(META, "readonly", (store) =>
+    store.get(scopedKey(STATS_KEY))
+  );
+  if (!record) return null;
+  // Fill fields added after the stats were first saved
+  const stats = { ...createEmptyStats(), ...record.value };
+  // Stats from before XP existed: credit the focus time already earned
+  if (record.value.xp === undefined) stats.xp = Math.floor(stats.totalFocusTimeSeconds / 60) * XP_PER_FOCUS_MINUTE;
+  return stats;
+};
+
+// Sessions left open by a closed tab or crash are ended at their last recorded log.
+export const closeDanglingSessions = async (fallbackStats: UserStats | null): Promise<void> => {
+  const open = (await listSessions()).filter((s) => s.endedAt === null);
+  for (const session of open) {
+    const logs = await getSessionLogs(session.id);
+    const endedAt = logs.length > 0 ? logs[logs.length - 1].timestamp : session.startedAt;
+    await withStore(SESSIONS, "readwrite", (store) =>
+      store.put({ ...session, endedAt, finalStats: session.finalStats ?? fallbackStats })
+    );
+  }
+};
+
+export const getAllLogs = async (): Promise<LogEntry[]> => {
+  const logs = await withStore<LogEntry[]>(LOGS, "readonly", (store) => store.getAll());
+  return logs.filter((l) => belongsToProfile(l)).sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+};
+
+// Writes sessions and their logs in one transaction, skipping sessions that already exist.
+// Returns the IDs of the sessions that were actually added.
+export const importSessions = async (
+  records: { session: SessionRecord; logs: LogEntry[] }[]
+): Promise<string[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction([SESSIONS, LOGS], "readwrite");
+  const sessions = tx.objectStore(SESSIONS);
+  const logs = tx.objectStore(LOGS);
+  const added: string[] = [];
+  const profileId = getActiveProfileId();
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+  for (const { session, logs: sessionLogs } of records) {
+    const existing = await promisify(sessions.getKey(session.id));
+    if (existing !== undefined) continue;
+    sessions.put({ ...session, profileId });
+    sessionLogs.forEach((log) => logs.put({ ...log, sessionId: session.id, profileId }));
+    added.push(session.id);
+  }
+
+  await done;
+  return added;
+};
+
+// Deletes every session, log and the saved stats of a profile, in one transaction.
+export const deleteProfileData = async (profileId: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([SESSIONS, LOGS, META, SNAPSHOTS], "readwrite");
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+  const deleteOwned = async (store: IDBObjectStore) => {
+    const records = await promisify<(SessionRecord | LogEntry | EvidenceSnapshot)[]>(store.getAll());
+    records.filter((r) => belongsToProfile(r, profileId)).forEach((r) => store.delete(r.id));
+  };
+  await Promise.all([
+    deleteOwned(tx.objectStore(SESSIONS)),
+    deleteOwned(tx.objectStore(LOGS)),
+    deleteOwned(tx.objectStore(SNAPSHOTS)),
+  ]);
+  tx.objectStore(META).delete(scopedKey(STATS_KEY, profileId));
+
+  await done;
+};
+
+export const saveSnapshot = async (snapshot: EvidenceSnapshot): Promise<void> => {
+  await withStore(SNAPSHOTS, "readwrite", (store) => store.put({ ...snapshot, profileId: getActiveProfileId() }));
+};
+
+export const getSnapshot = (id: string): Promise<EvidenceSnapshot | undefined> =>
+  withStore(SNAPSHOTS, "readonly", (store) => store.get(id));
+
+// Newest first
+export const listSnapshots = async (): Promise<EvidenceSnapshot[]> => {
+  const snapshots = await withStore<EvidenceSnapshot[]>(SNAPSHOTS, "readonly", (store) => store.getAll());
+  return snapshots.filter((s) => belongsToProfile(s)).sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+};
+
+export const deleteSnapshot = async (id: string): Promise<void> => {
+  await withStore(SNAPSHOTS, "readwrite", (store) => store.delete(id));
+};
+
+const deleteSnapshots = async (ids: string[]): Promise<void> => {
+  if (ids.length === 0) return;
+  const db = await openDatabase();
+  const tx = db.transaction(SNAPSHOTS, "readwrite");
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+  ids.forEach((id) => tx.objectStore(SNAPSHOTS).delete(id));
+  await done;
+};
+
+export const deleteAllSnapshots = async (): Promise<void> => deleteSnapshots((await listSnapshots()).map((s) => s.id));
+
+// Applies the retention limits to the active profile's snapshots; returns how many were deleted
+export const purgeSnapshots = async (config: EvidenceConfig, now: Date = new Date()): Promise<number> => {
+  const expired = expiredSnapshots(await listSnapshots(), config, now);
+  await deleteSnapshots(expired);
+  return expired.length;
+};
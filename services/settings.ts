@@ -0,0 +1,65 @@
+import { AppSettings } from "../types";
+import { DEFAULT_SMOOTHING } from "./focusSmoother";
+import { DEFAULT_STUDY_PLAN } from "./studyPlan";
+import { createRoomCode, DEFAULT_RELAY } from "./relayClient";
+import { DEFAULT_LEADERBOARD } from "./leaderboard";
+import { DEFAULT_SCORING } from "./scoring";
+import { DEFAULT_REMINDERS } from "./reminderPolicy";
+import { DEFAULT_CAPTURE } from "./captureScheduler";
+import { DEFAULT_CAMERA } from "./cameraSetup";
+import { DEFAULT_EVIDENCE } from "./evidence";
+import { PROFILE_KEYS, scopedKey } from "./profiles";
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  analysisProvider: "gemini",
+  audioEnabled: true,
+  smoothing: DEFAULT_SMOOTHING,
+  studyPlan: DEFAULT_STUDY_PLAN,
+  relay: DEFAULT_RELAY,
+  leaderboard: DEFAULT_LEADERBOARD,
+  scoring: DEFAULT_SCORING,
+  reminders: DEFAULT_REMINDERS,
+  capture: DEFAULT_CAPTURE,
+  camera: DEFAULT_CAMERA,
+  evidence: DEFAULT_EVIDENCE,
+};
+
+// Nested config objects are merged one level deep so new fields get their defaults too
+export const mergeWithDefaults = (saved: Partial<AppSettings>): AppSettings => {
+  const merged: Record<string, unknown> = { ...DEFAULT_SETTINGS, ...saved };
+  (Object.keys(DEFAULT_SETTINGS) as (keyof AppSettings)[]).forEach((key) => {
+    const fallback = DEFAULT_SETTINGS[key];
+    const value = saved[key];
+    if (fallback && typeof fallback === "object" && !Array.isArray(fallback) && value && typeof value === "object") {
+      merged[key] = { ...fallback, ...value };
+    }
+  });
+  return merged as unknown as AppSettings;
+};
+
+export const saveSettings = (settings: AppSettings) => {
+  localStorage.setItem(scopedKey(PROFILE_KEYS.settings), JSON.stringify(settings));
+};
+
+// The parent's dashboard link contains the room code, so it is generated once and saved straight away
+const withRoomCode = (settings: AppSettings): AppSettings => {
+  if (settings.relay.room) return settings;
+  const withRoom = { ...settings, relay: { ...settings.relay, room: createRoomCode() } };
+  try {
+    saveSettings(withRoom);
+  } catch (e) {
+    console.warn("Failed to save the relay room code", e);
+  }
+  return withRoom;
+};
+
+export const loadSettings = (): AppSettings => {
+  try {
+    const raw = localStorage.getItem(scopedKey(PROFILE_KEYS.settings));
+    // Merge so settings saved by an older version pick up new defaults
+    return withRoomCode(raw ? mergeWithDefaults(JSON.parse(raw)) : { ...DEFAULT_SETTINGS });
+  } catch (e) {
+    console.warn("Failed to read settings, using defaults", e);
+    return withRoomCode({ ...DEFAULT_SETTINGS });
+  }
+};
@@ -0,0 +1,75 @@
+import { StudyPlanConfig } from "../types";
+import { t } from "./i18n";
+
+export const DEFAULT_STUDY_PLAN: StudyPlanConfig = {
+  enabled: false,
+  workMinutes: 25,
+  breakMinutes: 5,
+  rounds: 4,
+};
+
+export const STUDY_PLAN_PRESETS: { label: string; workMinutes: number; breakMinutes: number }[] = [
+  { label: "25 / 5", workMinutes: 25, breakMinutes: 5 },
+  { label: "40 / 10", workMinutes: 40, breakMinutes: 10 },
+  { label: "15 / 5", workMinutes: 15, breakMinutes: 5 },
+];
+
+export type StudyPhase = "work" | "break" | "done";
+
+export interface PhaseState {
+  phase: StudyPhase;
+  round: number; // 1-based work round the phase belongs to
+  totalRounds: number; // 0 = unlimited
+  phaseStartedAt: number;
+  phaseEndsAt: number; // Infinity once the plan is done
+  remainingMs: number;
+}
+
+// Purely derived from the session start, so reloading or a slow tick can never drift the schedule.
+// The last round has no trailing break: the plan ends as soon as its work period does.
+export const getPhaseAt = (config: StudyPlanConfig, startedAt: number, now: number): PhaseState => {
+  const workMs = Math.max(1, config.workMinutes) * 60_000;
+  const breakMs = Math.max(0, config.breakMinutes) * 60_000;
+  const cycleMs = workMs + breakMs;
+  const elapsed = Math.max(0, now - startedAt);
+
+  const cycleIndex = Math.floor(elapsed / cycleMs);
+  const round = cycleIndex + 1;
+
+  if (config.rounds > 0 && (round > config.rounds || (round === config.rounds && elapsed - cycleIndex * cycleMs >= workMs))) {
+    const endedAt = startedAt + (config.rounds - 1) * cycleMs + workMs;
+    return { phase: "done", round: config.rounds, totalRounds: config.rounds, phaseStartedAt: endedAt, phaseEndsAt: Infinity, remainingMs: 0 };
+  }
+
+  const cycleStart = startedAt + cycleIndex * cycleMs;
+  const inWork = now - cycleStart < workMs;
+  const phaseStartedAt = inWork ? cycleStart : cycleStart + workMs;
+  const phaseEndsAt = inWork ? cycleStart + workMs : cycleStart + cycleMs;
+
+  return {
+    phase: inWork ? "work" : "break",
+    round,
+    totalRounds: config.rounds,
+    phaseStartedAt,
+    phaseEndsAt,
+    remainingMs: Math.max(0, phaseEndsAt - now),
+  };
+};
+
+export const formatCountdown = (ms: number): string => {
+  const totalSeconds = Math.ceil(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${String(minutes).padStart(2, "0")}:${String(seconds).padStart(2, "0")}`;
+};
+
+export const describeTransition = (next: PhaseState, config: StudyPlanConfig): string => {
+  switch (next.phase) {
+    case "break":
+      return t("studyPlan.toBreak", { round: next.round, minutes: config.breakMinutes });
+    case "work":
+      return t("studyPlan.toWork", { round: next.round });
+    case "done":
+      return t("studyPlan.done");
+  }
+};
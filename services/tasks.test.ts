@@ -0,0 +1,38 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { getLanguage, setLanguage } from "./i18n";
+import { DEFAULT_TASKS, getTaskName, normalizeTask, taskName } from "./tasks";
+
+describe("task names", () => {
+  const initial = getLanguage();
+  const math = DEFAULT_TASKS[0];
+
+  // setLanguage remembers the choice in localStorage
+  beforeEach(() => {
+    const storage = new Map<string, string>();
+    vi.stubGlobal("localStorage", { getItem: (k: string) => storage.get(k) ?? null, setItem: (k: string, v: string) => storage.set(k, v) });
+  });
+
+  afterEach(() => {
+    setLanguage(initial);
+    vi.unstubAllGlobals();
+  });
+
+  it("shows saved built-in subjects in the current language", () => {
+    const saved = JSON.parse(JSON.stringify(DEFAULT_TASKS));
+    setLanguage("en");
+    expect(getTaskName(saved, "math")).toBe("Maths");
+    setLanguage("zh");
+    expect(taskName(saved[0])).toBe("数学");
+  });
+
+  it("lets names saved as translated text follow the language again", () => {
+    expect(normalizeTask({ ...math, name: "数学" }).name).toBe("");
+    expect(normalizeTask({ ...math, name: "Maths" }).name).toBe("");
+  });
+
+  it("keeps renamed and custom subjects as written", () => {
+    expect(normalizeTask({ ...math, name: "Olympiad maths" }).name).toBe("Olympiad maths");
+    expect(taskName({ id: "task-1", name: "Piano", icon: "🎹" })).toBe("Piano");
+    expect(getTaskName(DEFAULT_TASKS, "deleted")).toBe(getTaskName([], null));
+  });
+});
@@ -0,0 +1,59 @@
+import { StudyTask } from "../types";
+import { PROFILE_KEYS, scopedKey } from "./profiles";
+import { allTranslations, MessageKey, t } from "./i18n";
+
+// Built-in subjects are stored without a name so they follow the current language
+const BUILT_IN_NAMES: Record<string, MessageKey> = {
+  math: "task.math",
+  chinese: "task.chinese",
+  english: "task.english",
+};
+
+export const DEFAULT_TASKS: StudyTask[] = [
+  { id: "math", name: "", icon: "📐" },
+  { id: "chinese", name: "", icon: "📖" },
+  { id: "english", name: "", icon: "🔤" },
+];
+
+export const taskName = (task: StudyTask): string => {
+  const key = BUILT_IN_NAMES[task.id];
+  return task.name || (key ? t(key) : "");
+};
+
+// Earlier versions saved built-in names as translated text; a name still matching one of the
+// translations was never renamed, so it goes back to following the language
+export const normalizeTask = (task: StudyTask): StudyTask => {
+  const key = BUILT_IN_NAMES[task.id];
+  return key && allTranslations(key).includes(task.name) ? { ...task, name: "" } : task;
+};
+
+export const TASK_ICONS = ["📐", "📖", "🔤", "🔬", "🎨", "🎹", "✏️", "📚"];
+
+export const createTaskId = () => `task-${Date.now().toString(36)}`;
+
+export const loadTasks = (): StudyTask[] => {
+  try {
+    const raw = localStorage.getItem(scopedKey(PROFILE_KEYS.tasks));
+    return raw ? (JSON.parse(raw) as StudyTask[]).map(normalizeTask) : DEFAULT_TASKS;
+  } catch (e) {
+    console.warn("Failed to read tasks, using defaults", e);
+    return DEFAULT_TASKS;
+  }
+};
+
+export const saveTasks = (tasks: StudyTask[]) => {
+  localStorage.setItem(scopedKey(PROFILE_KEYS.tasks), JSON.stringify(tasks));
+};
+
+export const loadActiveTaskId = (): string | null => localStorage.getItem(scopedKey(PROFILE_KEYS.activeTask));
+
+export const saveActiveTaskId = (id: string | null) => {
+  if (id) localStorage.setItem(scopedKey(PROFILE_KEYS.activeTask), id);
+  else localStorage.removeItem(scopedKey(PROFILE_KEYS.activeTask));
+};
+
+// Logs recorded before tasks existed (or with the task since deleted) fall under "unassigned"
+export const getTaskName = (tasks: StudyTask[], id: string | undefined | null): string => {
+  const task = tasks.find((task) => task.id === id);
+  return task ? taskName(task) : t("task.unassigned");
+};
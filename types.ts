@@ -10,22 +10,103 @@ export interface AnalysisResult {
   status: FocusStatus;
   message: string;
   confidence: number;
+  reason?: DistractionReason; // Only for DISTRACTED/ABSENT, when the analyzer can tell
+  posture?: PostureIssue[]; // Empty or missing when posture looks fine or cannot be judged
+  materialsVisible?: boolean; // Books, worksheets or writing tools in view
 }
 
+// See services/analysisDetails.ts for labels
+export type DistractionReason = 'phone' | 'toy' | 'talking' | 'sleeping' | 'lookingAway' | 'leftSeat' | 'other';
+
+export type PostureIssue = 'slouching' | 'tooClose';
+
 export interface LogEntry {
   id: string;
   timestamp: Date;
   status: FocusStatus;
   message: string;
+  sessionId?: string;
+  profileId?: string; // Missing on logs recorded before profiles existed (the default profile)
+  taskId?: string; // Subject the child was working on
+  intervalMs?: number; // Scheduled gap to the next check; older logs were taken every 5 s
+  hasSnapshot?: boolean; // An evidence snapshot with the same id was saved (it may since have been purged)
+  feedback?: LogFeedback; // Set once a parent has reviewed the reading
+  reason?: DistractionReason;
+  posture?: PostureIssue[];
+  materialsVisible?: boolean;
+}
+
+// A parent's verdict on one reading; it was correct when actualStatus equals the logged status
+export interface LogFeedback {
+  actualStatus: FocusStatus;
+  markedAt: Date;
+}
+
+// Kept per device to measure accuracy and to give the model examples; see services/feedback.ts
+export interface FeedbackRecord {
+  logId: string;
+  predicted: FocusStatus;
+  actual: FocusStatus;
+  at: string; // ISO 8601
+  image?: string; // Evidence thumbnail, kept only for the most recent misclassifications
+}
+
+// Thumbnail kept for a distraction or absence event; see services/evidence.ts
+export interface EvidenceSnapshot {
+  id: string; // Same as the LogEntry it belongs to
+  timestamp: Date;
+  status: FocusStatus;
+  message: string;
+  image: string; // Small JPEG data URL
+  sessionId?: string;
+  profileId?: string;
+}
+
+export interface SessionRecord {
+  id: string;
+  startedAt: Date;
+  endedAt: Date | null; // null while the session is still running
+  taskId?: string;
+  profileId?: string; // Missing on sessions recorded before profiles existed (the default profile)
+  finalStats: UserStats | null; // Cumulative stats when the session ended
+  badgesEarned: string[]; // Badge keys unlocked during this session
+}
+
+export type BadgeMetric =
+  | 'focusMinutes'
+  | 'longestStreakMinutes'
+  | 'distractions'
+  | 'activeDays'
+  | 'level' // Ignores the window
+  | 'dayStreak'; // Current calendar-day streak; ignores the window
+
+// 'allTime' reads the cumulative counters; 'today' and 'week' (Monday-based) read dailyStats
+export type BadgeWindow = 'allTime' | 'today' | 'week';
+
+export type BadgeComparator = '>=' | '>' | '<=' | '<';
+
+export type BadgeTier = 'bronze' | 'silver' | 'gold';
+
+export interface BadgeCondition {
+  metric: BadgeMetric;
+  comparator: BadgeComparator;
+  threshold: number;
+  window?: BadgeWindow; // Defaults to 'allTime'
 }
 
-export interface Badge {
+// Plain data so badge packs can be authored as JSON without code changes
+export interface BadgeDefinition {
   id: string;
   name: string;
   description: string;
-  icon: string; // Emoji or icon name
-  unlocked: boolean;
-  condition: (stats: UserStats) => boolean;
+  icon: string; // Emoji
+  rule: BadgeCondition; // Drives progress display; tiers override its threshold
+  requires?: BadgeCondition[]; // Extra conditions that must also hold
+  tiers?: Partial<Record<BadgeTier, number>>;
+  availableFrom?: string; // YYYY-MM-DD, for seasonal badges
+  availableUntil?: string; // YYYY-MM-DD, inclusive
+  // Name and description in other UI languages; `name` and `description` are the fallback
+  translations?: Partial<Record<Language, { name: string; description: string }>>;
 }
 
 export interface UserStats {
@@ -33,7 +114,86 @@ export interface UserStats {
   currentStreakSeconds: number;
   longestStreakSeconds: number;
   distractionCount: number;
-  badges: string[]; // IDs of unlocked badges
+  badges: string[]; // Unlocked badge keys: the badge ID, or "<id>:<tier>" for tiered badges
+  taskStats: Record<string, TaskStats>; // Keyed by StudyTask.id
+  dailyStats: Record<string, DailyStats>; // Keyed by YYYY-MM-DD, recent days only
+  xp: number;
+  sessionsCompleted: number;
+  dayStreak: DayStreak;
+}
+
+// Consecutive calendar days with enough focus time; see services/progression.ts
+export interface DayStreak {
+  current: number;
+  longest: number;
+  lastActiveDate: string | null; // YYYY-MM-DD
+  graceUsedOn: string | null; // The missed day that was forgiven, YYYY-MM-DD
+}
+
+export interface DailyStats {
+  focusSeconds: number;
+  distractionCount: number;
+  longestStreakSeconds: number;
+}
+
+export interface TaskStats {
+  focusSeconds: number;
+  distractionCount: number;
+}
+
+export interface StudyTask {
+  id: string;
+  name: string; // Empty for a built-in subject the parent has not renamed; see taskName()
+  icon: string;
+  targetMinutes?: number; // Optional daily goal for this subject
+}
+
+// When the app talks to the child; each has its own pool of clips
+export type MessageCategory = 'distracted' | 'absent' | 'encouragement' | 'badge' | 'sessionStart' | 'sessionEnd' | 'slouching' | 'tooClose';
+
+export type MessageRotation = 'random' | 'roundRobin';
+
+export interface MessageClip {
+  id: string;
+  category: MessageCategory;
+  kind: 'text' | 'audio';
+  text: string; // Spoken template for text clips ({name}, {badge}, {task}); a label for recordings
+  audio?: string; // Data URL of the recording
+  enabled: boolean;
+}
+
+export interface MessageLibrary {
+  rotation: MessageRotation;
+  useModelMessage: boolean; // The analysis provider's own sentence joins the pool when present
+  clips: MessageClip[];
+}
+
+export type ParentAction =
+  | 'stop_attempt' // Stop pressed while the parent lock is on
+  | 'stop_denied'
+  | 'session_stopped'
+  | 'settings_unlocked'
+  | 'stats_reset'
+  | 'pin_set'
+  | 'pin_removed'
+  | 'log_corrected'
+  | 'profile_created'
+  | 'profile_deleted';
+
+// Audit trail of parent-control events, kept apart from session logs so reports stay unaffected
+export interface ParentAuditEntry {
+  id: string;
+  timestamp: string; // ISO 8601
+  action: ParentAction;
+  profileId: string;
+}
+
+export interface ChildProfile {
+  id: string;
+  name: string;
+  avatar: string; // Emoji
+  playerId: string; // Stable, globally unique id used on shared leaderboards
+  createdAt: string; // ISO 8601
 }
 
 export interface LeaderboardEntry {
@@ -42,4 +202,179 @@ export interface LeaderboardEntry {
   score: number; // 0-100 focus score
   avatar: string;
   isCurrentUser: boolean;
+  daysActive?: number; // Days with a submitted score this week
+}
+
+export type AnalysisProviderId = 'gemini' | 'local' | 'hybrid' | 'replay';
+
+export interface AnalysisProvider {
+  id: AnalysisProviderId;
+  name: string;
+  analyze: (base64Image: string) => Promise<AnalysisResult>;
+  reset?: () => void; // Rewind any internal state (e.g. replay cursor)
+}
+
+export interface SmoothingConfig {
+  enabled: boolean;
+  distractEvidence: number; // Confidence-weighted readings needed to leave FOCUSED
+  recoverEvidence: number; // Confidence-weighted readings needed to return to FOCUSED
+  minConfidence: number; // Readings below this confidence are ignored
+}
+
+export type CameraRotation = 0 | 90 | 180 | 270;
+
+// Fractions (0..1) of the rotated frame
+export interface RegionOfInterest {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface CameraConfig {
+  deviceId: string | null; // null picks the front camera
+  rotation: CameraRotation; // Clockwise
+  mirrored: boolean;
+  roi: RegionOfInterest | null; // Only this part of the frame is analyzed; null uses all of it
+}
+
+// How often frames are taken and how much is uploaded; see services/captureScheduler.ts
+export interface CaptureConfig {
+  adaptive: boolean; // Stretch the interval during steady focus
+  minIntervalSeconds: number; // Interval after any change, and the fixed interval when not adaptive
+  maxIntervalSeconds: number; // Upper bound during long stable focus
+  skipUnchanged: boolean; // Don't upload a frame that barely differs from the last uploaded one
+  changeThreshold: number; // Mean luminance difference (0..1) that counts as a change
+  maxResolution: number; // Longest side of uploaded frames, in pixels
+}
+
+export type PersonaId = 'gentle' | 'strict' | 'playful' | 'cartoon';
+
+export type AgeGroup = 'preschool' | 'lowerPrimary' | 'upperPrimary' | 'teen';
+
+// How the cloud model is asked to speak; see services/promptConfig.ts
+export interface PromptConfig {
+  persona: PersonaId;
+  characterName: string; // Used by the cartoon persona only
+  ageGroup: AgeGroup;
+  houseRules: string[]; // The family's own rules, e.g. "听音乐没关系"
+}
+
+export interface PromptVersion {
+  version: number;
+  savedAt: string; // ISO 8601
+  config: PromptConfig;
+}
+
+// Every saved configuration is kept so a change can be rolled back
+export interface PromptHistory {
+  activeVersion: number;
+  versions: PromptVersion[]; // Oldest first
+}
+
+// Opt-in, because the snapshots are photos of the child; see services/evidence.ts
+export interface EvidenceConfig {
+  enabled: boolean;
+  retentionDays: number; // Older snapshots are deleted automatically
+  maxSnapshots: number; // Oldest are deleted first beyond this
+}
+
+// Ordered from the gentlest to the most serious; see services/reminderPolicy.ts
+export type EscalationLevel = 'chime' | 'spoken' | 'parentClip' | 'notifyParent';
+
+export interface QuietWindow {
+  start: string; // "HH:MM" local time
+  end: string; // May be earlier than start to wrap past midnight
+}
+
+export interface ReminderPolicyConfig {
+  cooldownSeconds: number; // Minimum gap between audible reminders or praise
+  escalation: Record<EscalationLevel, number | null>; // Seconds off task before each level; null skips it
+  praiseEveryMinutes: number; // Praise after each block of unbroken focus; 0 turns praise off
+  quietWindows: QuietWindow[]; // No sound in these windows; parent notifications still go out
+  postureEveryMinutes: number; // Minimum gap between posture reminders; 0 turns them off
+}
+
+export interface StudyPlanConfig {
+  enabled: boolean;
+  workMinutes: number;
+  breakMinutes: number;
+  rounds: number; // 0 = keep cycling until stopped
+}
+
+// UI, speech and model-reply language; see services/i18n.ts
+export type Language = 'zh' | 'en';
+
+export interface AppSettings {
+  analysisProvider: AnalysisProviderId;
+  audioEnabled: boolean;
+  smoothing: SmoothingConfig;
+  studyPlan: StudyPlanConfig;
+  relay: RelaySettings;
+  leaderboard: LeaderboardSettings;
+  scoring: ScoringProfile;
+  reminders: ReminderPolicyConfig;
+  capture: CaptureConfig;
+  camera: CameraConfig;
+  evidence: EvidenceConfig;
+}
+
+// How the daily 0-100 focus score is computed; see services/scoring.ts
+export interface ScoringProfile {
+  id: string; // A preset id, or 'custom' once edited
+  name: string; // Display uses scoringProfileName, which re-translates preset and custom names
+  targetMinutes: number; // Focus time that earns full focus points when no study plan is set
+  distractionPenalty: number; // Points per distraction episode
+  absencePenalty: number; // Points per absence episode
+  glanceSeconds: number; // Episodes shorter than this count as brief glances
+  glancePenalty: number; // Points for the first brief glance; each further one costs less
+}
+
+export interface RelaySettings {
+  enabled: boolean;
+  url: string; // e.g. ws://192.168.1.20:8787
+  room: string; // Shared code the parent view subscribes to
+}
+
+// Wire format between the monitoring device, the relay and parent views (dates as ISO strings)
+export interface RelayLog {
+  id: string;
+  timestamp: string;
+  status: FocusStatus;
+  message: string;
+}
+
+export interface RelayStatus {
+  status: FocusStatus;
+  message: string;
+  monitoring: boolean;
+  at: string;
+}
+
+export type RelayMessage =
+  | ({ type: 'status' } & RelayStatus)
+  | { type: 'log'; entry: RelayLog }
+  | { type: 'stats'; stats: UserStats }
+  | { type: 'alert'; message: string; at: string } // Asks the parent to step in; not kept for late joiners
+  | { type: 'snapshot'; status: RelayStatus | null; stats: UserStats | null; logs: RelayLog[] };
+
+export interface LeaderboardSettings {
+  enabled: boolean;
+  endpoint: string; // Base URL of the leaderboard server, e.g. http://192.168.1.2:8788
+  groups: string[]; // Friend group / class codes to submit to and rank within
+}
+
+export interface DailyScoreSubmission {
+  group: string;
+  playerId: string;
+  name: string;
+  avatar: string;
+  date: string; // YYYY-MM-DD, local time
+  score: number; // 0-100
+}
+
+export interface LeaderboardRanking {
+  group: string;
+  weekStart: string; // YYYY-MM-DD of the Monday the ranking covers
+  entries: LeaderboardEntry[];
 }